@@ -1,8 +1,14 @@
 import { defineConfig } from '@playwright/test';
-import * as dotenv from 'dotenv';
+import { ENV_CONFIG, TEST_CONFIG } from './src/config';
 
-// Load environment variables
-dotenv.config();
+/**
+ * Build a title filter matching any of the given tags
+ * @param tags - Tags such as "@smoke"
+ * @returns RegExp, or undefined when no tag is given
+ */
+function tagFilter(tags: readonly string[]): RegExp | undefined {
+  return tags.length > 0 ? new RegExp(`(${tags.join('|')})(?![\\w-])`) : undefined;
+}
 
 /**
  * Playwright configuration for Petstore API Testing
@@ -10,6 +16,13 @@ dotenv.config();
  */
 export default defineConfig({
   testDir: './tests',
+  /* Environment profile (TEST_ENV) is loaded and validated by src/config before anything runs */
+  timeout: ENV_CONFIG.testTimeout,
+  /* Tags enabled for the environment */
+  grep: tagFilter(ENV_CONFIG.includeTags),
+  grepInvert: tagFilter(ENV_CONFIG.excludeTags),
+  /* Starts the local Petstore mock server for the local-mock environment or USE_MOCK_SERVER=true */
+  globalSetup: require.resolve('./src/setup/global.setup'),
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -22,6 +35,8 @@ export default defineConfig({
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: [
     ['line'],
+    ['./src/reporters/KnownBugReporter.ts'],
+    ['./src/reporters/ApiCoverageReporter.ts'],
     ['allure-playwright', {
       outputFolder: process.env.ALLURE_OUTPUT_FOLDER || 'allure-results',
       detail: true,
@@ -32,7 +47,7 @@ export default defineConfig({
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await request.get('/')`. */
-    baseURL: process.env.API_BASE_URL || 'https://petstore.swagger.io/v2/',
+    baseURL: TEST_CONFIG.api.baseURL || undefined,
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry'
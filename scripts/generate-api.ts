@@ -0,0 +1,130 @@
+/**
+ * API Generator
+ * Generates typed endpoint descriptors, request/response types and service classes
+ * from the Petstore OpenAPI document
+ *
+ * Usage:
+ *   npm run generate:api                      # regenerate src/api/generated
+ *   npm run generate:api -- --spec <file>     # use another Swagger/OpenAPI document (.json/.yaml)
+ *   npm run generate:api:check                # fail if the generated code is out of date
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildApiModel, readSpec } from '../src/openapi';
+import * as SHARED_ENDPOINTS from '../src/config/endpoints';
+import { emitEndpoints, emitIndex, emitServices, emitTypes, GeneratedFile, indexSharedEndpoints } from './openapi/emitters';
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+/**
+ * Generator command line options
+ */
+interface GeneratorOptions {
+    spec: string;
+    out: string;
+    check: boolean;
+}
+
+/**
+ * Parse command line arguments
+ * @param argv - Arguments after the script name
+ * @returns Generator options
+ * @throws Error on unknown arguments
+ */
+function parseArgs(argv: string[]): GeneratorOptions {
+    const options: GeneratorOptions = {
+        spec: 'specs/petstore.swagger.json',
+        out: 'src/api/generated',
+        check: false
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--check') {
+            options.check = true;
+        } else if (arg === '--spec' || arg === '--out') {
+            const value = argv[++i];
+            if (!value) throw new Error(`Missing value for ${arg}`);
+            options[arg === '--spec' ? 'spec' : 'out'] = value;
+        } else {
+            throw new Error(`Unknown argument "${arg}". Expected --spec <file>, --out <dir> or --check`);
+        }
+    }
+    return options;
+}
+
+/**
+ * Generate all files for a spec
+ * @param specPath - Spec path relative to the repository root
+ * @returns Generated files
+ */
+function generate(specPath: string): GeneratedFile[] {
+    const model = buildApiModel(readSpec(path.resolve(ROOT_DIR, specPath)));
+    const displayPath = specPath.split(path.sep).join('/');
+    const shared = indexSharedEndpoints(SHARED_ENDPOINTS);
+    const services = emitServices(model, displayPath, shared);
+    return [
+        emitTypes(model, displayPath),
+        emitEndpoints(model, displayPath, shared),
+        ...services,
+        emitIndex(model, displayPath, services)
+    ];
+}
+
+/**
+ * Compare generated files with the ones on disk
+ * @param outDir - Output directory
+ * @param files - Freshly generated files
+ * @returns Relative names of outdated, missing or stale files
+ */
+function findOutdated(outDir: string, files: GeneratedFile[]): string[] {
+    const expected = new Set(files.map(file => file.fileName));
+    const outdated = files
+        .filter(file => {
+            const target = path.join(outDir, file.fileName);
+            return !fs.existsSync(target) || fs.readFileSync(target, 'utf-8') !== file.content;
+        })
+        .map(file => file.fileName);
+
+    const stale = fs.existsSync(outDir)
+        ? fs.readdirSync(outDir).filter(name => name.endsWith('.ts') && !expected.has(name))
+        : [];
+    return [...outdated, ...stale];
+}
+
+/**
+ * Entry point
+ */
+function main(): void {
+    const options = parseArgs(process.argv.slice(2));
+    const outDir = path.resolve(ROOT_DIR, options.out);
+    const files = generate(options.spec);
+
+    if (options.check) {
+        const outdated = findOutdated(outDir, files);
+        if (outdated.length > 0) {
+            console.error(`[Generate API] ${options.out} is out of date with ${options.spec}:`);
+            outdated.forEach(name => console.error(`  - ${name}`));
+            console.error('[Generate API] Run "npm run generate:api" and commit the result');
+            process.exit(1);
+        }
+        console.log(`[Generate API] ${options.out} is up to date`);
+        return;
+    }
+
+    fs.mkdirSync(outDir, { recursive: true });
+    for (const name of findOutdated(outDir, files)) {
+        const file = files.find(candidate => candidate.fileName === name);
+        if (file) {
+            fs.writeFileSync(path.join(outDir, name), file.content);
+            console.log(`[Generate API] wrote ${options.out}/${name}`);
+        } else {
+            fs.unlinkSync(path.join(outDir, name));
+            console.log(`[Generate API] removed stale ${options.out}/${name}`);
+        }
+    }
+    console.log(`[Generate API] ${files.length} files generated from ${options.spec}`);
+}
+
+main();
@@ -0,0 +1,527 @@
+/**
+ * Code Emitters
+ * Render the normalized API model as TypeScript source in the framework's style
+ */
+
+import { ApiModel, ApiOperation, ApiParameter, SchemaObject, toIdentifier } from '../../src/openapi';
+import { EndpointDescriptor } from '../../src/config/endpointDescriptor';
+
+/**
+ * Generated file name and content
+ */
+export interface GeneratedFile {
+    fileName: string;
+    content: string;
+}
+
+/**
+ * Endpoint descriptor of src/config/endpoints.ts, reused by the generated code for the same path
+ */
+export interface SharedEndpoint {
+    /** Source expression, e.g. "PET_ENDPOINTS.UPLOAD_IMAGE" */
+    expression: string;
+
+    /** Exported constant holding the descriptor, e.g. "PET_ENDPOINTS" */
+    constant: string;
+
+    descriptor: EndpointDescriptor;
+}
+
+/**
+ * Name of the generated interface for multipart file parts
+ */
+const FILE_TYPE = 'GeneratedFile';
+
+/**
+ * Type of int64 integers, imported from src/api/types (a bigint beyond Number.MAX_SAFE_INTEGER)
+ */
+const INT64_TYPE = 'Int64';
+
+/**
+ * Banner placed at the top of every generated file
+ * @param model - API model
+ * @param specPath - Spec path relative to the repository root
+ * @returns Banner comment
+ */
+function banner(model: ApiModel, specPath: string): string {
+    return [
+        '/**',
+        ` * AUTO-GENERATED from ${specPath} (${model.title} ${model.version}).`,
+        ' * Do not edit by hand: run `npm run generate:api` after changing the spec.',
+        ' */',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Make text safe for a JSDoc line
+ * @param text - Raw description
+ * @returns Single-line text without comment terminators
+ */
+function docText(text: string): string {
+    return text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Convert a tag name to a PascalCase class prefix
+ * @param tag - Operation tag
+ * @returns PascalCase name (e.g. "pet" -> "Pet")
+ */
+export function toPascalCase(tag: string): string {
+    const identifier = toIdentifier(tag);
+    return identifier[0].toUpperCase() + identifier.slice(1);
+}
+
+/**
+ * Name of the referenced schema
+ * @param ref - JSON reference (e.g. "#/definitions/Pet")
+ * @returns Schema name
+ */
+function refName(ref: string): string {
+    return ref.split('/').pop() as string;
+}
+
+/**
+ * Render the TypeScript type of a schema
+ * @param schema - Schema object
+ * @param refs - Accumulator of referenced schema names
+ * @returns TypeScript type expression
+ */
+function tsType(schema: SchemaObject | undefined, refs: Set<string>): string {
+    if (!schema) return 'unknown';
+    if (schema.$ref) {
+        const name = refName(schema.$ref);
+        refs.add(name);
+        return name;
+    }
+    if (schema.enum) {
+        return schema.enum.map(value => (typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value))).join(' | ');
+    }
+
+    switch (schema.type) {
+        case 'integer':
+            if (schema.format === 'int64') {
+                refs.add(INT64_TYPE);
+                return INT64_TYPE;
+            }
+            return 'number';
+        case 'number':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'string':
+            return 'string';
+        case 'file':
+            refs.add(FILE_TYPE);
+            return FILE_TYPE;
+        case 'array': {
+            const item = tsType(schema.items, refs);
+            return item.includes(' ') ? `Array<${item}>` : `${item}[]`;
+        }
+        case 'object':
+        case undefined: {
+            if (schema.properties) {
+                const required = new Set(schema.required || []);
+                const members = Object.entries(schema.properties).map(([name, property]) =>
+                    `${name}${required.has(name) ? '' : '?'}: ${tsType(property, refs)}`
+                );
+                return `{ ${members.join('; ')} }`;
+            }
+            if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                return `Record<string, ${tsType(schema.additionalProperties, refs)}>`;
+            }
+            return schema.type === 'object' ? 'Record<string, unknown>' : 'unknown';
+        }
+        default:
+            return 'unknown';
+    }
+}
+
+/**
+ * Emit the request/response types file
+ * @param model - API model
+ * @param specPath - Spec path relative to the repository root
+ * @returns Generated types file
+ */
+export function emitTypes(model: ApiModel, specPath: string): GeneratedFile {
+    const blocks: string[] = [
+        `/**\n * File part for multipart uploads\n */\nexport interface ${FILE_TYPE} {\n` +
+        '    name: string;\n    mimeType: string;\n    buffer: Buffer;\n}'
+    ];
+    const refs = new Set<string>();
+
+    for (const [name, schema] of Object.entries(model.schemas).sort(([a], [b]) => a.localeCompare(b))) {
+        const lines = [`/**\n * ${docText(schema.description || name)}\n */`];
+
+        if (schema.properties) {
+            const required = new Set(schema.required || []);
+            lines.push(`export interface ${name} {`);
+            const members = Object.entries(schema.properties).map(([property, propertySchema]) => {
+                const doc = propertySchema.description ? `    /** ${docText(propertySchema.description)} */\n` : '';
+                return `${doc}    ${property}${required.has(property) ? '' : '?'}: ${tsType(propertySchema, refs)};`;
+            });
+            lines.push(members.join('\n\n'), '}');
+        } else {
+            lines.push(`export type ${name} = ${tsType(schema, refs)};`);
+        }
+        blocks.push(lines.join('\n'));
+    }
+
+    const imports = refs.has(INT64_TYPE) ? `import { ${INT64_TYPE} } from '../types';\n\n` : '';
+    return {
+        fileName: 'types.generated.ts',
+        content: `${banner(model, specPath)}\n${imports}${blocks.join('\n\n')}\n`
+    };
+}
+
+/**
+ * Group operations by tag
+ * @param model - API model
+ * @returns Map of tag to operations, in model order
+ */
+function operationsByTag(model: ApiModel): Map<string, ApiOperation[]> {
+    const groups = new Map<string, ApiOperation[]>();
+    for (const operation of model.operations) {
+        const group = groups.get(operation.tag) || [];
+        group.push(operation);
+        groups.set(operation.tag, group);
+    }
+    return groups;
+}
+
+/**
+ * Render a string array literal
+ * @param values - Values
+ * @returns Array literal source
+ */
+function stringArray(values: string[]): string {
+    return `[${values.map(value => `'${value}'`).join(', ')}]`;
+}
+
+/**
+ * Name of the generated endpoints constant of a tag
+ * @param tag - Operation tag
+ * @returns Constant name (e.g. "pet" -> "PET_API_ENDPOINTS")
+ */
+function endpointsConstant(tag: string): string {
+    return `${toIdentifier(tag).replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}_API_ENDPOINTS`;
+}
+
+/**
+ * Index the endpoint descriptors of src/config/endpoints.ts by path template
+ * @param exports - Exports of src/config/endpoints.ts (constants named *_ENDPOINTS)
+ * @returns Shared descriptors keyed by path
+ */
+export function indexSharedEndpoints(exports: Record<string, unknown>): Map<string, SharedEndpoint> {
+    const shared = new Map<string, SharedEndpoint>();
+    for (const [constant, group] of Object.entries(exports)) {
+        if (!constant.endsWith('_ENDPOINTS') || !group || typeof group !== 'object') continue;
+        for (const [name, descriptor] of Object.entries(group as Record<string, EndpointDescriptor>)) {
+            if (!shared.has(descriptor.path)) {
+                shared.set(descriptor.path, { expression: `${constant}.${name}`, constant, descriptor });
+            }
+        }
+    }
+    return shared;
+}
+
+/**
+ * Check that a shared descriptor declares the query parameters of the spec, in the same order
+ * @param operation - Operation
+ * @param shared - Shared descriptor of the operation's path
+ * @throws Error naming both declarations when they differ
+ */
+function checkSharedEndpoint(operation: ApiOperation, shared: SharedEndpoint): void {
+    const documented = operation.parameters.filter(p => p.location === 'query').map(p => p.name);
+    if (documented.join(',') !== shared.descriptor.queryParams.join(',')) {
+        throw new Error(
+            `${shared.expression} declares query parameters ${stringArray([...shared.descriptor.queryParams])} ` +
+            `but the spec documents ${stringArray(documented)} for ${operation.method} /${operation.path}; update src/config/endpoints.ts`
+        );
+    }
+}
+
+/**
+ * Emit the endpoint descriptors file
+ * Operations whose path has a descriptor in src/config/endpoints.ts reuse it (params, timeout);
+ * the others get one from endpoint()
+ * @param model - API model
+ * @param specPath - Spec path relative to the repository root
+ * @param shared - Descriptors of src/config/endpoints.ts by path
+ * @returns Generated endpoints file
+ * @throws Error if a shared descriptor does not declare the query parameters of the spec
+ */
+export function emitEndpoints(model: ApiModel, specPath: string, shared: Map<string, SharedEndpoint>): GeneratedFile {
+    const imports = new Set<string>(['EndpointDescriptor']);
+    const blocks: string[] = [[
+        '/**',
+        ' * Generated endpoint descriptor',
+        ' */',
+        'export interface GeneratedEndpoint {',
+        '    operationId: string;',
+        "    method: 'GET' | 'PUT' | 'POST' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';",
+        '',
+        '    /** Path, params and timeout: the descriptor of src/config/endpoints.ts, or endpoint() for paths it lacks */',
+        '    endpoint: EndpointDescriptor;',
+        '',
+        '    /** Documented response status codes */',
+        '    responses: readonly string[];',
+        '',
+        '    /** Security schemes protecting the operation */',
+        '    security: readonly string[];',
+        '}'
+    ].join('\n')];
+
+    for (const [tag, operations] of operationsByTag(model)) {
+        const entries = operations.map(operation => {
+            const descriptor = shared.get(operation.path);
+            if (descriptor) {
+                checkSharedEndpoint(operation, descriptor);
+                imports.add(descriptor.constant);
+            } else {
+                imports.add('endpoint');
+            }
+            const query = operation.parameters.filter(p => p.location === 'query').map(p => p.name);
+            return [
+                `    ${operation.operationId}: {`,
+                `        operationId: '${operation.operationId}',`,
+                `        method: '${operation.method}',`,
+                `        endpoint: ${descriptor ? descriptor.expression : `endpoint('${operation.path}'${query.length > 0 ? `, ${stringArray(query)}` : ''})`},`,
+                `        responses: ${stringArray(operation.responses.map(response => response.status))},`,
+                `        security: ${stringArray(operation.security)}`,
+                '    }'
+            ].join('\n');
+        });
+
+        blocks.push(
+            `/**\n * ${toPascalCase(tag)} API endpoints\n */\n` +
+            `export const ${endpointsConstant(tag)} = {\n${entries.join(',\n')}\n} as const satisfies Record<string, GeneratedEndpoint>;`
+        );
+    }
+
+    return {
+        fileName: 'endpoints.generated.ts',
+        content: `${banner(model, specPath)}\nimport { ${[...imports].sort().join(', ')} } from '../../config';\n\n${blocks.join('\n\n')}\n`
+    };
+}
+
+/**
+ * Order method arguments: required before optional, then path, body, query, form, header
+ * @param operation - Operation
+ * @returns Ordered arguments with their declarations
+ */
+function methodArguments(operation: ApiOperation, refs: Set<string>): { name: string; declaration: string; doc: string }[] {
+    const locationOrder: ApiParameter['location'][] = ['path', 'query', 'formData', 'header'];
+    const args: { name: string; required: boolean; rank: number; declaration: string; doc: string }[] = [];
+
+    for (const parameter of operation.parameters) {
+        const type = tsType(parameter.schema, refs);
+        args.push({
+            name: parameter.argName,
+            required: parameter.required,
+            rank: locationOrder.indexOf(parameter.location) + (parameter.location === 'path' ? 0 : 1),
+            declaration: `${parameter.argName}${parameter.required ? '' : '?'}: ${type}`,
+            doc: parameter.description || parameter.name
+        });
+    }
+
+    if (operation.body) {
+        args.push({
+            name: 'body',
+            required: operation.body.required,
+            rank: 1,
+            declaration: `body${operation.body.required ? '' : '?'}: ${tsType(operation.body.schema, refs)}`,
+            doc: operation.body.description || 'Request body'
+        });
+    }
+
+    return args
+        .map((arg, index) => ({ ...arg, index }))
+        .sort((a, b) => Number(b.required) - Number(a.required) || a.rank - b.rank || a.index - b.index);
+}
+
+/**
+ * Render the URL expression: buildUrl() with the operation's descriptor and its path and query values
+ * @param operation - Operation
+ * @param descriptor - Expression of the endpoint descriptor (e.g. "PET_API_ENDPOINTS.getPetById.endpoint")
+ * @returns buildUrl call source
+ */
+function urlExpression(operation: ApiOperation, descriptor: string): string {
+    const values = operation.parameters
+        .filter(parameter => parameter.location === 'path' || parameter.location === 'query')
+        .map(parameter => {
+            const key = /^[A-Za-z_$][\w$]*$/.test(parameter.name) ? parameter.name : `'${parameter.name}'`;
+            // Arrays are repeated parameters (collectionFormat multi) or comma-separated values
+            const value = parameter.schema.type === 'array' && !parameter.multi
+                ? `${parameter.argName}${parameter.required ? '' : '?'}.join(',')`
+                : parameter.argName;
+            return key === value ? key : `${key}: ${value}`;
+        });
+    return values.length > 0 ? `buildUrl(${descriptor}, { ${values.join(', ')} })` : `buildUrl(${descriptor})`;
+}
+
+/**
+ * Render the request statements of one operation
+ * Accept and JSON Content-Type headers are added by BaseService.send
+ * @param operation - Operation
+ * @param resultType - Type of the 2xx body
+ * @param descriptor - Expression of the generated descriptor
+ * @param shared - Shared descriptor of the operation's path, if any
+ * @returns Method body lines
+ */
+function methodBody(operation: ApiOperation, resultType: string, descriptor: string, shared?: SharedEndpoint): string[] {
+    const lines: string[] = [];
+    const options: string[] = [];
+    const form = operation.parameters.filter(parameter => parameter.location === 'formData');
+    const headers = operation.parameters.filter(parameter => parameter.location === 'header');
+
+    if (form.length > 0) {
+        const fieldType = operation.isMultipart ? `string | ${FILE_TYPE}` : 'string';
+        const variable = operation.isMultipart ? 'multipart' : 'form';
+        lines.push(`const ${variable}: Record<string, ${fieldType}> = {};`);
+        for (const parameter of form) {
+            const value = parameter.schema.type === 'file' ? parameter.argName : `String(${parameter.argName})`;
+            const assign = `${variable}['${parameter.name}'] = ${value};`;
+            lines.push(parameter.required ? assign : `if (${parameter.argName} !== undefined) ${assign}`);
+        }
+        options.push(variable);
+    }
+
+    if (operation.body) {
+        options.push('data: body');
+    }
+
+    if (headers.length > 0) {
+        lines.push('const headers: Record<string, string> = {};');
+        for (const parameter of headers) {
+            const assign = `headers['${parameter.name}'] = String(${parameter.argName});`;
+            lines.push(parameter.required ? assign : `if (${parameter.argName} !== undefined) ${assign}`);
+        }
+        options.push('headers');
+    }
+
+    if (shared?.descriptor.timeoutMs !== undefined) {
+        options.push(`timeout: ${descriptor}.endpoint.timeoutMs`);
+    }
+
+    const call = `this.send<${resultType}>('${operation.method}', ${urlExpression(operation, `${descriptor}.endpoint`)}`;
+    if (options.length === 0) {
+        lines.push(`return await ${call});`);
+        return lines;
+    }
+
+    lines.push(...(lines.length > 0 ? [''] : []), `return await ${call}, {`);
+    lines.push(...options.map((option, index) => `    ${option}${index < options.length - 1 ? ',' : ''}`));
+    lines.push('});');
+    return lines;
+}
+
+/**
+ * Render the JSDoc summary of the documented responses
+ * @param operation - Operation
+ * @returns Response summary (e.g. "200: Pet, 404: Pet not found")
+ */
+function responseSummary(operation: ApiOperation): string {
+    return operation.responses
+        .map(response => `${response.status}: ${response.schema ? tsType(response.schema, new Set()) : docText(response.description)}`)
+        .join(', ');
+}
+
+/**
+ * Emit one service class per tag
+ * @param model - API model
+ * @param specPath - Spec path relative to the repository root
+ * @returns Generated service files
+ */
+export function emitServices(model: ApiModel, specPath: string, shared: Map<string, SharedEndpoint>): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    for (const [tag, operations] of operationsByTag(model)) {
+        const className = `${toPascalCase(tag)}Api`;
+        const refs = new Set<string>();
+        const methods: string[] = [];
+
+        for (const operation of operations) {
+            const args = methodArguments(operation, refs);
+            const success = operation.responses.find(response => response.status.startsWith('2') && response.schema);
+            const resultType = success ? tsType(success.schema, refs) : 'unknown';
+            const doc = ['/**'];
+            if (operation.summary) doc.push(` * ${docText(operation.summary)}`);
+            if (operation.description) doc.push(` * ${docText(operation.description)}`);
+            doc.push(` * ${operation.method} /${operation.path}`);
+            if (operation.security.length > 0) doc.push(` * Security: ${operation.security.join(', ')}`);
+            if (operation.deprecated) doc.push(' * @deprecated Marked as deprecated in the spec');
+            for (const arg of args) doc.push(` * @param ${arg.name} - ${docText(arg.doc)}`);
+            doc.push(` * @returns ServiceResponse (${responseSummary(operation)})`, ' */');
+
+            methods.push([
+                ...doc,
+                `async ${operation.operationId}(${args.map(arg => arg.declaration).join(', ')}): Promise<ServiceResponse<${resultType}>> {`,
+                ...methodBody(operation, resultType, `${endpointsConstant(tag)}.${operation.operationId}`, shared.get(operation.path)).map(line => (line ? `    ${line}` : line)),
+                '}'
+            ].map(line => (line ? `    ${line}` : line)).join('\n'));
+        }
+
+        const typeImports = [...refs].filter(ref => ref !== INT64_TYPE).sort();
+        const imports = [
+            "import { APIRequestContext } from '@playwright/test';",
+            "import { BaseService, ServiceOptions } from '../services/base/BaseService';",
+            `import { ${refs.has(INT64_TYPE) ? `${INT64_TYPE}, ` : ''}ServiceResponse } from '../types';`,
+            "import { buildUrl } from '../../config';",
+            `import { ${endpointsConstant(tag)} } from './endpoints.generated';`,
+            ...(typeImports.length > 0 ? [`import { ${typeImports.join(', ')} } from './types.generated';`] : [])
+        ];
+
+        const classDoc = [
+            '/**',
+            ` * ${className} class exposing every "${tag}" operation of the spec`,
+            ' * Extends BaseService to leverage APIRequestContext',
+            ' */'
+        ];
+        const constructor = [
+            '    /**',
+            `     * Constructor to initialize ${className}`,
+            "     * @param request - Playwright's APIRequestContext instance",
+            '     * @param options - Optional per-instance middlewares',
+            '     */',
+            '    constructor(request: APIRequestContext, options?: ServiceOptions) {',
+            '        super(request, options);',
+            '    }'
+        ].join('\n');
+
+        files.push({
+            fileName: `${className}.ts`,
+            content: [
+                banner(model, specPath),
+                imports.join('\n'),
+                '',
+                ...classDoc,
+                `export class ${className} extends BaseService {`,
+                [constructor, ...methods].join('\n\n'),
+                '}',
+                ''
+            ].join('\n')
+        });
+    }
+
+    return files;
+}
+
+/**
+ * Emit the barrel file
+ * @param model - API model
+ * @param specPath - Spec path relative to the repository root
+ * @param serviceFiles - Generated service files
+ * @returns Generated index file
+ */
+export function emitIndex(model: ApiModel, specPath: string, serviceFiles: GeneratedFile[]): GeneratedFile {
+    const lines = [
+        "export * from './types.generated';",
+        "export * from './endpoints.generated';",
+        ...serviceFiles.map(file => {
+            const name = file.fileName.replace(/\.ts$/, '');
+            return `export { ${name} } from './${name}';`;
+        })
+    ];
+    return { fileName: 'index.ts', content: `${banner(model, specPath)}\n${lines.join('\n')}\n` };
+}
@@ -0,0 +1,26 @@
+/**
+ * Auth Middleware
+ * Adds the credentials of an auth provider to every request
+ */
+
+import { ApiMiddleware } from '../middleware';
+import { AuthProvider } from './auth.types';
+
+/**
+ * Add the provider's headers, without overriding headers set by the call itself
+ * BaseService runs it last so every attempt (e.g. a retry) gets fresh credentials
+ * @param provider - Credential source
+ * @returns Auth middleware
+ */
+export function authMiddleware(provider: AuthProvider): ApiMiddleware {
+    return {
+        name: 'auth',
+        async handle(request, next) {
+            const headers = await provider.headers();
+            return next({
+                ...request,
+                options: { ...request.options, headers: { ...headers, ...request.options.headers } }
+            });
+        }
+    };
+}
@@ -0,0 +1,39 @@
+/**
+ * Auth Types
+ * Contract of the credential providers attached to services
+ */
+
+/**
+ * Names of the providers that can be enabled from TEST_CONFIG.auth.providers
+ * - api-key: static api_key header (Petstore "api_key" scheme)
+ * - bearer: static bearer token
+ * - oauth2: bearer token obtained with the client credentials grant (Petstore "petstore_auth" scheme)
+ */
+export type AuthProviderName = 'api-key' | 'bearer' | 'oauth2';
+
+/**
+ * Source of the credentials sent with a request
+ */
+export interface AuthProvider {
+    /** Name shown in error messages */
+    readonly name: string;
+
+    /**
+     * Resolve the headers carrying the credentials
+     * Called before every request, so providers may fetch or refresh tokens here
+     * @returns Headers to add to the request (empty for anonymous calls)
+     */
+    headers(): Promise<Record<string, string>>;
+}
+
+/**
+ * OAuth2 client credentials settings
+ */
+export interface OAuth2Options {
+    /** Token endpoint, absolute or relative to the API base URL */
+    tokenUrl: string;
+
+    clientId: string;
+    clientSecret: string;
+    scopes?: readonly string[];
+}
@@ -0,0 +1,9 @@
+/**
+ * Auth
+ * Credential providers attached to services
+ */
+
+export * from './auth.types';
+export * from './providers';
+export * from './auth.middleware';
+export * from './registry';
@@ -0,0 +1,137 @@
+/**
+ * Auth Providers
+ * Built-in credential sources: anonymous, api_key header, bearer token and OAuth2 client credentials
+ */
+
+import { TEST_CONFIG } from '../../config';
+import { AuthProvider, OAuth2Options } from './auth.types';
+
+/**
+ * Seconds before expiry at which a cached OAuth2 token is refreshed
+ */
+const TOKEN_REFRESH_MARGIN_SECONDS = 30;
+
+/**
+ * Provider sending no credentials
+ */
+export const ANONYMOUS: AuthProvider = {
+    name: 'anonymous',
+    headers: async () => ({})
+};
+
+/**
+ * Send a static API key header
+ * @param apiKey - Key value
+ * @param headerName - Header carrying the key (defaults to the Petstore "api_key")
+ * @returns API key provider
+ */
+export function apiKeyAuth(apiKey: string, headerName: string = 'api_key'): AuthProvider {
+    return {
+        name: 'api-key',
+        headers: async () => ({ [headerName]: apiKey })
+    };
+}
+
+/**
+ * Send a static bearer token
+ * @param token - Access token
+ * @returns Bearer provider
+ */
+export function bearerAuth(token: string): AuthProvider {
+    return {
+        name: 'bearer',
+        headers: async () => ({ 'Authorization': `Bearer ${token}` })
+    };
+}
+
+/**
+ * Obtain a bearer token with the OAuth2 client credentials grant
+ * The token is requested on first use, shared by concurrent requests and refreshed shortly before it expires
+ * @param options - Token endpoint and client credentials
+ * @returns OAuth2 provider
+ * @throws Error from headers() if the token endpoint rejects the client
+ */
+export function oauth2Auth(options: OAuth2Options): AuthProvider {
+    let cached: { accessToken: string; expiresAt: number } | undefined;
+    let pending: Promise<{ accessToken: string; expiresAt: number }> | undefined;
+
+    return {
+        name: 'oauth2',
+        headers: async () => {
+            if (!cached || cached.expiresAt <= Date.now()) {
+                pending ??= requestToken(options).finally(() => { pending = undefined; });
+                cached = await pending;
+            }
+            return { 'Authorization': `Bearer ${cached.accessToken}` };
+        }
+    };
+}
+
+/**
+ * Send the headers of several providers (e.g. api_key and OAuth2 for operations using different schemes)
+ * @param providers - Providers, later ones winning on conflicting headers
+ * @returns Combined provider
+ */
+export function combineAuth(...providers: AuthProvider[]): AuthProvider {
+    if (providers.length === 0) return ANONYMOUS;
+    if (providers.length === 1) return providers[0];
+
+    return {
+        name: providers.map(provider => provider.name).join('+'),
+        headers: async () => Object.assign({}, ...await Promise.all(providers.map(provider => provider.headers())))
+    };
+}
+
+/**
+ * Request an access token from the token endpoint
+ * @param options - Token endpoint and client credentials
+ * @returns Access token and its expiry time (epoch ms)
+ * @throws Error if the endpoint does not answer within TEST_CONFIG.api.timeout
+ * @throws Error if the endpoint does not answer 2xx with an access_token
+ */
+async function requestToken(options: OAuth2Options): Promise<{ accessToken: string; expiresAt: number }> {
+    const url = new URL(options.tokenUrl, TEST_CONFIG.api.baseURL).toString();
+    const timeoutMs = TEST_CONFIG.api.timeout;
+    let response: Response;
+    let text: string;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+            body: new URLSearchParams({
+                grant_type: 'client_credentials',
+                client_id: options.clientId,
+                client_secret: options.clientSecret,
+                ...(options.scopes?.length ? { scope: options.scopes.join(' ') } : {})
+            }),
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+        text = await response.text();
+    } catch (error) {
+        if ((error as Error).name === 'TimeoutError') {
+            throw new Error(`OAuth2 token request to ${url} timed out after ${timeoutMs}ms`);
+        }
+        throw error;
+    }
+
+    const body = parseTokenResponse(text);
+    if (!response.ok || !body.access_token) {
+        throw new Error(`OAuth2 token request to ${url} failed with status ${response.status}${body.error ? ` (${body.error})` : ''}`);
+    }
+
+    const lifetimeSeconds = Math.max((body.expires_in ?? 3600) - TOKEN_REFRESH_MARGIN_SECONDS, 0);
+    return { accessToken: body.access_token, expiresAt: Date.now() + lifetimeSeconds * 1000 };
+}
+
+/**
+ * Parse the body of the token endpoint
+ * @param text - Response body
+ * @returns Token response fields, empty when the body is not JSON
+ */
+function parseTokenResponse(text: string): { access_token?: string; expires_in?: number; error?: string } {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return {};
+    }
+}
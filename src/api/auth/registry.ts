@@ -0,0 +1,50 @@
+/**
+ * Auth Registry
+ * Builds the default provider from the names listed in TEST_CONFIG.auth.providers
+ */
+
+import { TEST_CONFIG } from '../../config';
+import { AuthProvider, AuthProviderName } from './auth.types';
+import { ANONYMOUS, apiKeyAuth, bearerAuth, combineAuth, oauth2Auth } from './providers';
+
+/**
+ * Factories creating each named provider from the configuration
+ */
+const AUTH_PROVIDER_FACTORIES: Record<AuthProviderName, () => AuthProvider> = {
+    'api-key': () => apiKeyAuth(TEST_CONFIG.auth.apiKey),
+    'bearer': () => {
+        if (!TEST_CONFIG.auth.bearerToken) {
+            throw new Error('Auth provider "bearer" requires API_BEARER_TOKEN');
+        }
+        return bearerAuth(TEST_CONFIG.auth.bearerToken);
+    },
+    'oauth2': () => oauth2Auth(TEST_CONFIG.auth.oauth2)
+};
+
+let defaultProvider: AuthProvider | undefined;
+
+/**
+ * Create a provider combining the named providers
+ * @param names - Provider names ("none" or an empty list means anonymous)
+ * @returns Combined provider
+ * @throws Error if a name is unknown
+ */
+export function resolveAuthProviders(names: readonly string[]): AuthProvider {
+    return combineAuth(...names.filter(name => name !== 'none').map(name => {
+        const factory = AUTH_PROVIDER_FACTORIES[name as AuthProviderName];
+        if (!factory) {
+            throw new Error(`Unknown auth provider "${name}". Expected one of: none, ${Object.keys(AUTH_PROVIDER_FACTORIES).join(', ')}`);
+        }
+        return factory();
+    }));
+}
+
+/**
+ * Get the provider used by services created without an explicit one ("authorized" calls)
+ * Created once per worker so OAuth2 tokens are shared by all services
+ * @returns Provider listed in TEST_CONFIG.auth.providers
+ */
+export function getDefaultAuthProvider(): AuthProvider {
+    defaultProvider ??= resolveAuthProviders(TEST_CONFIG.auth.providers);
+    return defaultProvider;
+}
@@ -0,0 +1,84 @@
+import type { APIResponse } from '@playwright/test';
+import { parseJson, stringifyJson } from '../json';
+import { RecordedResponseData } from './cassette.types';
+
+/**
+ * RecordedResponse class serving a recorded response through the APIResponse interface
+ * Middlewares can return it instead of calling next, so services and tests cannot tell it from a network response
+ */
+export class RecordedResponse implements APIResponse {
+    private readonly data: RecordedResponseData;
+    private readonly buffer: Buffer;
+    private disposed = false;
+
+    /**
+     * Constructor to initialize RecordedResponse
+     * @param data - Recorded status, headers, URL and body
+     */
+    constructor(data: RecordedResponseData) {
+        this.data = data;
+        this.buffer = Buffer.from(data.body, data.encoding === 'base64' ? 'base64' : 'utf-8');
+    }
+
+    /**
+     * Build a response from a status and a JSON body
+     * @param url - Absolute URL reported by url()
+     * @param status - HTTP status
+     * @param body - Body, serialized as JSON
+     * @returns Response with a JSON content type
+     */
+    static json(url: string, status: number, body: unknown): RecordedResponse {
+        return new RecordedResponse({
+            status,
+            statusText: '',
+            headers: { 'content-type': 'application/json' },
+            url,
+            body: stringifyJson(body)
+        });
+    }
+
+    async body(): Promise<Buffer> {
+        if (this.disposed) throw new Error('Response has been disposed');
+        return this.buffer;
+    }
+
+    async text(): Promise<string> {
+        return (await this.body()).toString('utf-8');
+    }
+
+    async json(): Promise<unknown> {
+        return parseJson(await this.text());
+    }
+
+    headers(): { [key: string]: string } {
+        return { ...this.data.headers };
+    }
+
+    headersArray(): Array<{ name: string; value: string }> {
+        return Object.entries(this.data.headers).map(([name, value]) => ({ name, value }));
+    }
+
+    ok(): boolean {
+        return this.data.status >= 200 && this.data.status < 300;
+    }
+
+    status(): number {
+        return this.data.status;
+    }
+
+    statusText(): string {
+        return this.data.statusText;
+    }
+
+    url(): string {
+        return this.data.url;
+    }
+
+    async dispose(): Promise<void> {
+        this.disposed = true;
+    }
+
+    async [Symbol.asyncDispose](): Promise<void> {
+        await this.dispose();
+    }
+}
@@ -0,0 +1,231 @@
+/**
+ * Cassette Middleware
+ * Records the traffic of each test to a cassette file, or replays it without network
+ *
+ * Cassettes live in TEST_CONFIG.cassettes.dir, one file per test: <spec path>/<test title>.json.
+ * Replay serves recorded responses in order to requests with the same method, URL and body, so the test data
+ * must be the same as when recording (fixed ids and names rather than generated ones).
+ * Secrets are redacted before anything is written: headers, query parameters and body fields named in the
+ * redactor, and the session token of login responses. Live requests are redacted the same way before matching.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, APIResponse, TestInfo } from '@playwright/test';
+import { TEST_CONFIG } from '../../config';
+import type { ApiMiddleware } from '../middleware/middleware.types';
+import { appendParams } from '../middleware/requestUrl';
+import { REDACTED, Redactor, describeRequestBody, getApiLogger } from '../logging';
+import { parseJson, stringifyJson } from '../json';
+import { isInsideTest } from '../reporting/testStep';
+import { CASSETTE_MODES, Cassette, CassetteMode, RecordedRequest, RecordedResponseData } from './cassette.types';
+import { diffLines, findClosestRequest, matchLines } from './requestMatching';
+import { RecordedResponse } from './RecordedResponse';
+
+/**
+ * Cassette middleware options
+ */
+export interface CassetteOptions {
+    mode: CassetteMode;
+
+    /** Root directory of the cassette files */
+    dir: string;
+
+    /** Masks credentials in recorded headers, URLs and bodies */
+    redactor: Redactor;
+}
+
+/**
+ * Content types stored as text; other bodies are stored as base64
+ */
+const TEXT_CONTENT_TYPE = /json|text|xml|x-www-form-urlencoded|javascript/i;
+
+/**
+ * Session token in the Petstore login message ("logged in user session:1697031234567"), see UserSession
+ */
+const SESSION_TOKEN = /(logged in user session:\s*)[^\s"]+/g;
+
+/**
+ * Cassette of the running test (one test runs at a time per worker)
+ */
+let active: { testId: string; mode: CassetteMode; file: string; cassette: Cassette; replayed: Set<number> } | undefined;
+
+/**
+ * Validate a cassette mode
+ * @param value - Mode name (API_CASSETTE_MODE)
+ * @returns Cassette mode
+ * @throws Error if the name is not a known mode
+ */
+export function parseCassetteMode(value: string): CassetteMode {
+    if (!CASSETTE_MODES.includes(value as CassetteMode)) {
+        throw new Error(`Unknown API_CASSETTE_MODE "${value}". Expected one of: ${CASSETTE_MODES.join(', ')}`);
+    }
+    return value as CassetteMode;
+}
+
+/**
+ * Default cassette options from TEST_CONFIG.cassettes
+ * @returns Cassette options
+ */
+export function getDefaultCassetteOptions(): CassetteOptions {
+    return {
+        mode: parseCassetteMode(TEST_CONFIG.cassettes.mode),
+        dir: TEST_CONFIG.cassettes.dir,
+        redactor: getApiLogger().redactor
+    };
+}
+
+/**
+ * Path of a test's cassette
+ * @param dir - Root directory of the cassettes
+ * @param testInfo - Test
+ * @returns <dir>/<spec path without extension>/<slug of the test title>.json
+ */
+export function getCassettePath(dir: string, testInfo: Pick<TestInfo, 'file' | 'titlePath' | 'project'>): string {
+    const spec = path.relative(testInfo.project.testDir, testInfo.file).replace(/\.(spec|test)\.ts$/, '');
+    const title = testInfo.titlePath.slice(1).join(' ')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+        .slice(0, 120);
+    return path.join(dir, spec, `${title}.json`);
+}
+
+/**
+ * Record or replay the traffic of each test
+ * Requests sent outside a test, or with mode "off", go to the network untouched
+ * @param options - Mode, directory and redaction (defaults to TEST_CONFIG.cassettes)
+ * @returns Cassette middleware
+ */
+export function cassetteMiddleware(options: CassetteOptions = getDefaultCassetteOptions()): ApiMiddleware {
+    return {
+        name: 'cassette',
+        async handle(request, next) {
+            if (options.mode === 'off' || !isInsideTest()) return next(request);
+
+            const recorded: RecordedRequest = {
+                method: request.method,
+                url: options.redactor.text(appendParams(request.url, request.options.params)),
+                headers: options.redactor.headers(request.options.headers),
+                body: options.redactor.body(toJson(describeRequestBody(request.options)))
+            };
+
+            if (options.mode === 'replay') return replay(options, recorded);
+
+            const response = await next(request);
+            await record(options, recorded, response);
+            return response;
+        }
+    };
+}
+
+/**
+ * Serve the first unused recorded response whose request matches
+ * @param options - Cassette options
+ * @param request - Live request
+ * @returns Recorded response
+ * @throws Error if the cassette is missing, or with a diff against the closest recorded request on mismatch
+ */
+function replay(options: CassetteOptions, request: RecordedRequest): APIResponse {
+    const cassette = activate(options, file => {
+        if (!fs.existsSync(file)) {
+            throw new Error(`No cassette for this test at ${file}. Record it with API_CASSETTE_MODE=record`);
+        }
+        return parseJson<Cassette>(fs.readFileSync(file, 'utf-8'));
+    });
+
+    const lines = matchLines(request).join('\n');
+    const index = cassette.cassette.interactions.findIndex((interaction, position) =>
+        !cassette.replayed.has(position) && matchLines(interaction.request).join('\n') === lines
+    );
+    if (index >= 0) {
+        cassette.replayed.add(index);
+        return new RecordedResponse(cassette.cassette.interactions[index].response);
+    }
+
+    const unused = cassette.cassette.interactions.filter((_, position) => !cassette.replayed.has(position));
+    const closest = findClosestRequest(unused.map(interaction => interaction.request), request);
+    const message = [`Cassette mismatch: no unused recorded request matches ${request.method} ${request.url} (${cassette.file})`];
+    if (closest >= 0) {
+        message.push(
+            `Closest recorded request (- recorded, + sent):`,
+            ...diffLines(matchLines(unused[closest].request), matchLines(request))
+        );
+    } else {
+        message.push(`All ${cassette.cassette.interactions.length} recorded request(s) were already replayed`);
+    }
+    throw new Error(message.join('\n'));
+}
+
+/**
+ * Append an exchange to the test's cassette and save it
+ * @param options - Cassette options
+ * @param request - Request as recorded
+ * @param response - Network response
+ */
+async function record(options: CassetteOptions, request: RecordedRequest, response: APIResponse): Promise<void> {
+    const cassette = activate(options, () => ({
+        version: 1,
+        test: test.info().titlePath.join(' › '),
+        recordedAt: new Date().toISOString(),
+        interactions: []
+    }));
+
+    const headers = response.headers();
+    const body = await response.body();
+    const text = TEXT_CONTENT_TYPE.test(headers['content-type'] ?? 'text/plain');
+    const data: RecordedResponseData = {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: options.redactor.headers(headers),
+        url: options.redactor.text(response.url()),
+        body: text ? redactText(options.redactor, body.toString('utf-8')) : body.toString('base64'),
+        ...(text ? {} : { encoding: 'base64' as const })
+    };
+
+    cassette.cassette.interactions.push({ request, response: data });
+    fs.mkdirSync(path.dirname(cassette.file), { recursive: true });
+    fs.writeFileSync(cassette.file, `${stringifyJson(cassette.cassette, 2)}\n`);
+}
+
+/**
+ * Get the cassette of the running test, opening it on its first request (or when the mode or file changes)
+ * @param options - Cassette options
+ * @param open - Loads (replay) or creates (record) the cassette
+ * @returns Active cassette
+ */
+function activate(options: CassetteOptions, open: (file: string) => Cassette): NonNullable<typeof active> {
+    const testInfo = test.info();
+    const file = getCassettePath(options.dir, testInfo);
+    if (active?.testId !== testInfo.testId || active.mode !== options.mode || active.file !== file) {
+        active = { testId: testInfo.testId, mode: options.mode, file, cassette: open(file), replayed: new Set() };
+    }
+    return active;
+}
+
+/**
+ * Redact a text response body: sensitive fields of a JSON body and login session tokens
+ * @param redactor - Redactor
+ * @param text - Response body
+ * @returns Redacted body
+ */
+function redactText(redactor: Redactor, text: string): string {
+    let redacted = text;
+    try {
+        redacted = stringifyJson(redactor.body(parseJson(text)));
+    } catch {
+        // Not JSON: only the session token is masked
+    }
+    return redacted.replace(SESSION_TOKEN, `$1${REDACTED}`);
+}
+
+/**
+ * Normalize a request body to plain JSON (drops undefined, turns buffers into text)
+ * @param body - Described request body
+ * @returns JSON value, undefined without a body
+ */
+function toJson(body: unknown): unknown {
+    if (body === undefined) return undefined;
+    if (Buffer.isBuffer(body)) return body.toString('utf-8');
+    return parseJson(stringifyJson(body));
+}
@@ -0,0 +1,67 @@
+/**
+ * Cassette Types
+ * Format of the files holding the traffic recorded for one test
+ */
+
+/**
+ * Cassette modes (API_CASSETTE_MODE)
+ * - off: requests go to the network
+ * - record: requests go to the network and every exchange is saved to the test's cassette
+ * - replay: responses are served from the test's cassette, nothing is sent
+ */
+export const CASSETTE_MODES = ['off', 'record', 'replay'] as const;
+
+export type CassetteMode = typeof CASSETTE_MODES[number];
+
+/**
+ * Request as recorded; matching uses method, URL and body, headers are kept for reading only
+ */
+export interface RecordedRequest {
+    method: string;
+
+    /** URL as given to the service, relative to the base URL, followed by its query params (secrets redacted) */
+    url: string;
+
+    /** Headers with secrets redacted */
+    headers: Record<string, string>;
+
+    /** JSON data, form fields or multipart fields (files as name, type and size) */
+    body?: unknown;
+}
+
+/**
+ * Response as recorded
+ */
+export interface RecordedResponseData {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+
+    /** Absolute URL of the response */
+    url: string;
+
+    /** Body as UTF-8 text, or base64 for binary content */
+    body: string;
+    encoding?: 'base64';
+}
+
+/**
+ * One request and its response
+ */
+export interface RecordedInteraction {
+    request: RecordedRequest;
+    response: RecordedResponseData;
+}
+
+/**
+ * Traffic of one test
+ */
+export interface Cassette {
+    version: 1;
+
+    /** Title path of the test that recorded it */
+    test: string;
+
+    recordedAt: string;
+    interactions: RecordedInteraction[];
+}
@@ -0,0 +1,9 @@
+/**
+ * Cassettes
+ * Record-and-replay of service traffic, one cassette file per test
+ */
+
+export * from './cassette.types';
+export * from './RecordedResponse';
+export * from './requestMatching';
+export * from './cassette.middleware';
@@ -0,0 +1,86 @@
+/**
+ * Request Matching
+ * Compares live requests with recorded ones (method, URL and body; headers are ignored)
+ * and explains mismatches with a line diff
+ */
+
+import { stringifyJson } from '../json';
+import { RecordedRequest } from './cassette.types';
+
+/**
+ * Render the matched parts of a request, one line per URL and body line
+ * Object keys are sorted so property order does not matter
+ * @param request - Request to render
+ * @returns Lines compared when matching
+ */
+export function matchLines(request: RecordedRequest): string[] {
+    const lines = [`${request.method} ${request.url}`];
+    if (request.body !== undefined) {
+        lines.push(...stringifyJson(sortKeys(request.body), 2).split('\n'));
+    }
+    return lines;
+}
+
+/**
+ * Find the recorded request closest to a live one
+ * @param candidates - Recorded requests
+ * @param request - Live request
+ * @returns Index of the candidate with the fewest differing lines, or -1 without candidates
+ */
+export function findClosestRequest(candidates: readonly RecordedRequest[], request: RecordedRequest): number {
+    const actual = matchLines(request);
+    let closest = -1;
+    let fewest = Infinity;
+
+    candidates.forEach((candidate, index) => {
+        const changes = diffLines(matchLines(candidate), actual).filter(line => !line.startsWith(' ')).length;
+        if (changes < fewest) {
+            fewest = changes;
+            closest = index;
+        }
+    });
+    return closest;
+}
+
+/**
+ * Line diff (longest common subsequence)
+ * @param expected - Recorded lines
+ * @param actual - Live lines
+ * @returns Lines prefixed with "  " (same), "- " (recorded only) or "+ " (live only)
+ */
+export function diffLines(expected: readonly string[], actual: readonly string[]): string[] {
+    const common: number[][] = Array.from({ length: expected.length + 1 }, () => Array(actual.length + 1).fill(0));
+    for (let i = expected.length - 1; i >= 0; i--) {
+        for (let j = actual.length - 1; j >= 0; j--) {
+            common[i][j] = expected[i] === actual[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    const diff: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < expected.length || j < actual.length) {
+        if (i < expected.length && j < actual.length && expected[i] === actual[j]) {
+            diff.push(`  ${expected[i++]}`);
+            j++;
+        } else if (i < expected.length && (j === actual.length || common[i + 1][j] >= common[i][j + 1])) {
+            diff.push(`- ${expected[i++]}`);
+        } else {
+            diff.push(`+ ${actual[j++]}`);
+        }
+    }
+    return diff;
+}
+
+/**
+ * Copy a JSON value with object keys sorted
+ * @param value - JSON value
+ * @returns Value with deterministic key order
+ */
+function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+}
@@ -0,0 +1,145 @@
+/**
+ * AUTO-GENERATED from specs/petstore.swagger.json (Swagger Petstore 1.0.7).
+ * Do not edit by hand: run `npm run generate:api` after changing the spec.
+ */
+
+import { APIRequestContext } from '@playwright/test';
+import { BaseService, ServiceOptions } from '../services/base/BaseService';
+import { Int64, ServiceResponse } from '../types';
+import { buildUrl } from '../../config';
+import { PET_API_ENDPOINTS } from './endpoints.generated';
+import { ApiResponse, GeneratedFile, Pet } from './types.generated';
+
+/**
+ * PetApi class exposing every "pet" operation of the spec
+ * Extends BaseService to leverage APIRequestContext
+ */
+export class PetApi extends BaseService {
+    /**
+     * Constructor to initialize PetApi
+     * @param request - Playwright's APIRequestContext instance
+     * @param options - Optional per-instance middlewares
+     */
+    constructor(request: APIRequestContext, options?: ServiceOptions) {
+        super(request, options);
+    }
+
+    /**
+     * Update an existing pet
+     * PUT /pet
+     * Security: petstore_auth
+     * @param body - Pet object that needs to be added to the store
+     * @returns ServiceResponse (400: Invalid ID supplied, 404: Pet not found, 405: Validation exception)
+     */
+    async updatePet(body: Pet): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('PUT', buildUrl(PET_API_ENDPOINTS.updatePet.endpoint), {
+            data: body
+        });
+    }
+
+    /**
+     * Add a new pet to the store
+     * POST /pet
+     * Security: petstore_auth
+     * @param body - Pet object that needs to be added to the store
+     * @returns ServiceResponse (405: Invalid input)
+     */
+    async addPet(body: Pet): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('POST', buildUrl(PET_API_ENDPOINTS.addPet.endpoint), {
+            data: body
+        });
+    }
+
+    /**
+     * Find pet by ID
+     * Returns a single pet
+     * GET /pet/{petId}
+     * Security: api_key
+     * @param petId - ID of pet to return
+     * @returns ServiceResponse (200: Pet, 400: Invalid ID supplied, 404: Pet not found)
+     */
+    async getPetById(petId: Int64): Promise<ServiceResponse<Pet>> {
+        return await this.send<Pet>('GET', buildUrl(PET_API_ENDPOINTS.getPetById.endpoint, { petId }));
+    }
+
+    /**
+     * Updates a pet in the store with form data
+     * POST /pet/{petId}
+     * Security: petstore_auth
+     * @param petId - ID of pet that needs to be updated
+     * @param name - Updated name of the pet
+     * @param status - Updated status of the pet
+     * @returns ServiceResponse (405: Invalid input)
+     */
+    async updatePetWithForm(petId: Int64, name?: string, status?: string): Promise<ServiceResponse<unknown>> {
+        const form: Record<string, string> = {};
+        if (name !== undefined) form['name'] = String(name);
+        if (status !== undefined) form['status'] = String(status);
+
+        return await this.send<unknown>('POST', buildUrl(PET_API_ENDPOINTS.updatePetWithForm.endpoint, { petId }), {
+            form
+        });
+    }
+
+    /**
+     * Deletes a pet
+     * DELETE /pet/{petId}
+     * Security: petstore_auth
+     * @param petId - Pet id to delete
+     * @param apiKey - api_key
+     * @returns ServiceResponse (400: Invalid ID supplied, 404: Pet not found)
+     */
+    async deletePet(petId: Int64, apiKey?: string): Promise<ServiceResponse<unknown>> {
+        const headers: Record<string, string> = {};
+        if (apiKey !== undefined) headers['api_key'] = String(apiKey);
+
+        return await this.send<unknown>('DELETE', buildUrl(PET_API_ENDPOINTS.deletePet.endpoint, { petId }), {
+            headers
+        });
+    }
+
+    /**
+     * uploads an image
+     * POST /pet/{petId}/uploadImage
+     * Security: petstore_auth
+     * @param petId - ID of pet to update
+     * @param additionalMetadata - Additional data to pass to server
+     * @param file - file to upload
+     * @returns ServiceResponse (200: ApiResponse)
+     */
+    async uploadFile(petId: Int64, additionalMetadata?: string, file?: GeneratedFile): Promise<ServiceResponse<ApiResponse>> {
+        const multipart: Record<string, string | GeneratedFile> = {};
+        if (additionalMetadata !== undefined) multipart['additionalMetadata'] = String(additionalMetadata);
+        if (file !== undefined) multipart['file'] = file;
+
+        return await this.send<ApiResponse>('POST', buildUrl(PET_API_ENDPOINTS.uploadFile.endpoint, { petId }), {
+            multipart,
+            timeout: PET_API_ENDPOINTS.uploadFile.endpoint.timeoutMs
+        });
+    }
+
+    /**
+     * Finds Pets by status
+     * Multiple status values can be provided with comma separated strings
+     * GET /pet/findByStatus
+     * Security: petstore_auth
+     * @param status - Status values that need to be considered for filter
+     * @returns ServiceResponse (200: Pet[], 400: Invalid status value)
+     */
+    async findPetsByStatus(status: Array<'available' | 'pending' | 'sold'>): Promise<ServiceResponse<Pet[]>> {
+        return await this.send<Pet[]>('GET', buildUrl(PET_API_ENDPOINTS.findPetsByStatus.endpoint, { status }));
+    }
+
+    /**
+     * Finds Pets by tags
+     * Multiple tags can be provided with comma separated strings. Use tag1, tag2, tag3 for testing.
+     * GET /pet/findByTags
+     * Security: petstore_auth
+     * @deprecated Marked as deprecated in the spec
+     * @param tags - Tags to filter by
+     * @returns ServiceResponse (200: Pet[], 400: Invalid tag value)
+     */
+    async findPetsByTags(tags: string[]): Promise<ServiceResponse<Pet[]>> {
+        return await this.send<Pet[]>('GET', buildUrl(PET_API_ENDPOINTS.findPetsByTags.endpoint, { tags }));
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * AUTO-GENERATED from specs/petstore.swagger.json (Swagger Petstore 1.0.7).
+ * Do not edit by hand: run `npm run generate:api` after changing the spec.
+ */
+
+import { APIRequestContext } from '@playwright/test';
+import { BaseService, ServiceOptions } from '../services/base/BaseService';
+import { Int64, ServiceResponse } from '../types';
+import { buildUrl } from '../../config';
+import { STORE_API_ENDPOINTS } from './endpoints.generated';
+import { Order } from './types.generated';
+
+/**
+ * StoreApi class exposing every "store" operation of the spec
+ * Extends BaseService to leverage APIRequestContext
+ */
+export class StoreApi extends BaseService {
+    /**
+     * Constructor to initialize StoreApi
+     * @param request - Playwright's APIRequestContext instance
+     * @param options - Optional per-instance middlewares
+     */
+    constructor(request: APIRequestContext, options?: ServiceOptions) {
+        super(request, options);
+    }
+
+    /**
+     * Returns pet inventories by status
+     * Returns a map of status codes to quantities
+     * GET /store/inventory
+     * Security: api_key
+     * @returns ServiceResponse (200: Record<string, number>)
+     */
+    async getInventory(): Promise<ServiceResponse<Record<string, number>>> {
+        return await this.send<Record<string, number>>('GET', buildUrl(STORE_API_ENDPOINTS.getInventory.endpoint), {
+            timeout: STORE_API_ENDPOINTS.getInventory.endpoint.timeoutMs
+        });
+    }
+
+    /**
+     * Place an order for a pet
+     * POST /store/order
+     * @param body - order placed for purchasing the pet
+     * @returns ServiceResponse (200: Order, 400: Invalid Order)
+     */
+    async placeOrder(body: Order): Promise<ServiceResponse<Order>> {
+        return await this.send<Order>('POST', buildUrl(STORE_API_ENDPOINTS.placeOrder.endpoint), {
+            data: body
+        });
+    }
+
+    /**
+     * Find purchase order by ID
+     * For valid response try integer IDs with value >= 1 and <= 10. Other values will generated exceptions
+     * GET /store/order/{orderId}
+     * @param orderId - ID of pet that needs to be fetched
+     * @returns ServiceResponse (200: Order, 400: Invalid ID supplied, 404: Order not found)
+     */
+    async getOrderById(orderId: Int64): Promise<ServiceResponse<Order>> {
+        return await this.send<Order>('GET', buildUrl(STORE_API_ENDPOINTS.getOrderById.endpoint, { orderId }));
+    }
+
+    /**
+     * Delete purchase order by ID
+     * For valid response try integer IDs with positive integer value. Negative or non-integer values will generate API errors
+     * DELETE /store/order/{orderId}
+     * @param orderId - ID of the order that needs to be deleted
+     * @returns ServiceResponse (400: Invalid ID supplied, 404: Order not found)
+     */
+    async deleteOrder(orderId: Int64): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('DELETE', buildUrl(STORE_API_ENDPOINTS.deleteOrder.endpoint, { orderId }));
+    }
+}
@@ -0,0 +1,118 @@
+/**
+ * AUTO-GENERATED from specs/petstore.swagger.json (Swagger Petstore 1.0.7).
+ * Do not edit by hand: run `npm run generate:api` after changing the spec.
+ */
+
+import { APIRequestContext } from '@playwright/test';
+import { BaseService, ServiceOptions } from '../services/base/BaseService';
+import { ServiceResponse } from '../types';
+import { buildUrl } from '../../config';
+import { USER_API_ENDPOINTS } from './endpoints.generated';
+import { User } from './types.generated';
+
+/**
+ * UserApi class exposing every "user" operation of the spec
+ * Extends BaseService to leverage APIRequestContext
+ */
+export class UserApi extends BaseService {
+    /**
+     * Constructor to initialize UserApi
+     * @param request - Playwright's APIRequestContext instance
+     * @param options - Optional per-instance middlewares
+     */
+    constructor(request: APIRequestContext, options?: ServiceOptions) {
+        super(request, options);
+    }
+
+    /**
+     * Create user
+     * This can only be done by the logged in user.
+     * POST /user
+     * @param body - Created user object
+     * @returns ServiceResponse (default: successful operation)
+     */
+    async createUser(body: User): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('POST', buildUrl(USER_API_ENDPOINTS.createUser.endpoint), {
+            data: body
+        });
+    }
+
+    /**
+     * Get user by user name
+     * GET /user/{username}
+     * @param username - The name that needs to be fetched. Use user1 for testing.
+     * @returns ServiceResponse (200: User, 400: Invalid username supplied, 404: User not found)
+     */
+    async getUserByName(username: string): Promise<ServiceResponse<User>> {
+        return await this.send<User>('GET', buildUrl(USER_API_ENDPOINTS.getUserByName.endpoint, { username }));
+    }
+
+    /**
+     * Updated user
+     * This can only be done by the logged in user.
+     * PUT /user/{username}
+     * @param username - name that need to be updated
+     * @param body - Updated user object
+     * @returns ServiceResponse (400: Invalid user supplied, 404: User not found)
+     */
+    async updateUser(username: string, body: User): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('PUT', buildUrl(USER_API_ENDPOINTS.updateUser.endpoint, { username }), {
+            data: body
+        });
+    }
+
+    /**
+     * Delete user
+     * This can only be done by the logged in user.
+     * DELETE /user/{username}
+     * @param username - The name that needs to be deleted
+     * @returns ServiceResponse (400: Invalid username supplied, 404: User not found)
+     */
+    async deleteUser(username: string): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('DELETE', buildUrl(USER_API_ENDPOINTS.deleteUser.endpoint, { username }));
+    }
+
+    /**
+     * Creates list of users with given input array
+     * POST /user/createWithArray
+     * @param body - List of user object
+     * @returns ServiceResponse (default: successful operation)
+     */
+    async createUsersWithArrayInput(body: User[]): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('POST', buildUrl(USER_API_ENDPOINTS.createUsersWithArrayInput.endpoint), {
+            data: body
+        });
+    }
+
+    /**
+     * Creates list of users with given input array
+     * POST /user/createWithList
+     * @param body - List of user object
+     * @returns ServiceResponse (default: successful operation)
+     */
+    async createUsersWithListInput(body: User[]): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('POST', buildUrl(USER_API_ENDPOINTS.createUsersWithListInput.endpoint), {
+            data: body
+        });
+    }
+
+    /**
+     * Logs user into the system
+     * GET /user/login
+     * @param username - The user name for login
+     * @param password - The password for login in clear text
+     * @returns ServiceResponse (200: string, 400: Invalid username/password supplied)
+     */
+    async loginUser(username: string, password: string): Promise<ServiceResponse<string>> {
+        return await this.send<string>('GET', buildUrl(USER_API_ENDPOINTS.loginUser.endpoint, { username, password }));
+    }
+
+    /**
+     * Logs out current logged in user session
+     * GET /user/logout
+     * @returns ServiceResponse (default: successful operation)
+     */
+    async logoutUser(): Promise<ServiceResponse<unknown>> {
+        return await this.send<unknown>('GET', buildUrl(USER_API_ENDPOINTS.logoutUser.endpoint));
+    }
+}
@@ -0,0 +1,181 @@
+/**
+ * AUTO-GENERATED from specs/petstore.swagger.json (Swagger Petstore 1.0.7).
+ * Do not edit by hand: run `npm run generate:api` after changing the spec.
+ */
+
+import { EndpointDescriptor, PET_ENDPOINTS, STORE_ENDPOINTS, USER_ENDPOINTS } from '../../config';
+
+/**
+ * Generated endpoint descriptor
+ */
+export interface GeneratedEndpoint {
+    operationId: string;
+    method: 'GET' | 'PUT' | 'POST' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+
+    /** Path, params and timeout: the descriptor of src/config/endpoints.ts, or endpoint() for paths it lacks */
+    endpoint: EndpointDescriptor;
+
+    /** Documented response status codes */
+    responses: readonly string[];
+
+    /** Security schemes protecting the operation */
+    security: readonly string[];
+}
+
+/**
+ * Pet API endpoints
+ */
+export const PET_API_ENDPOINTS = {
+    updatePet: {
+        operationId: 'updatePet',
+        method: 'PUT',
+        endpoint: PET_ENDPOINTS.BASE,
+        responses: ['400', '404', '405'],
+        security: ['petstore_auth']
+    },
+    addPet: {
+        operationId: 'addPet',
+        method: 'POST',
+        endpoint: PET_ENDPOINTS.BASE,
+        responses: ['405'],
+        security: ['petstore_auth']
+    },
+    getPetById: {
+        operationId: 'getPetById',
+        method: 'GET',
+        endpoint: PET_ENDPOINTS.BY_ID,
+        responses: ['200', '400', '404'],
+        security: ['api_key']
+    },
+    updatePetWithForm: {
+        operationId: 'updatePetWithForm',
+        method: 'POST',
+        endpoint: PET_ENDPOINTS.BY_ID,
+        responses: ['405'],
+        security: ['petstore_auth']
+    },
+    deletePet: {
+        operationId: 'deletePet',
+        method: 'DELETE',
+        endpoint: PET_ENDPOINTS.BY_ID,
+        responses: ['400', '404'],
+        security: ['petstore_auth']
+    },
+    uploadFile: {
+        operationId: 'uploadFile',
+        method: 'POST',
+        endpoint: PET_ENDPOINTS.UPLOAD_IMAGE,
+        responses: ['200'],
+        security: ['petstore_auth']
+    },
+    findPetsByStatus: {
+        operationId: 'findPetsByStatus',
+        method: 'GET',
+        endpoint: PET_ENDPOINTS.BY_STATUS,
+        responses: ['200', '400'],
+        security: ['petstore_auth']
+    },
+    findPetsByTags: {
+        operationId: 'findPetsByTags',
+        method: 'GET',
+        endpoint: PET_ENDPOINTS.BY_TAGS,
+        responses: ['200', '400'],
+        security: ['petstore_auth']
+    }
+} as const satisfies Record<string, GeneratedEndpoint>;
+
+/**
+ * Store API endpoints
+ */
+export const STORE_API_ENDPOINTS = {
+    getInventory: {
+        operationId: 'getInventory',
+        method: 'GET',
+        endpoint: STORE_ENDPOINTS.INVENTORY,
+        responses: ['200'],
+        security: ['api_key']
+    },
+    placeOrder: {
+        operationId: 'placeOrder',
+        method: 'POST',
+        endpoint: STORE_ENDPOINTS.ORDER,
+        responses: ['200', '400'],
+        security: []
+    },
+    getOrderById: {
+        operationId: 'getOrderById',
+        method: 'GET',
+        endpoint: STORE_ENDPOINTS.ORDER_BY_ID,
+        responses: ['200', '400', '404'],
+        security: []
+    },
+    deleteOrder: {
+        operationId: 'deleteOrder',
+        method: 'DELETE',
+        endpoint: STORE_ENDPOINTS.ORDER_BY_ID,
+        responses: ['400', '404'],
+        security: []
+    }
+} as const satisfies Record<string, GeneratedEndpoint>;
+
+/**
+ * User API endpoints
+ */
+export const USER_API_ENDPOINTS = {
+    createUser: {
+        operationId: 'createUser',
+        method: 'POST',
+        endpoint: USER_ENDPOINTS.BASE,
+        responses: ['default'],
+        security: []
+    },
+    getUserByName: {
+        operationId: 'getUserByName',
+        method: 'GET',
+        endpoint: USER_ENDPOINTS.BY_USERNAME,
+        responses: ['200', '400', '404'],
+        security: []
+    },
+    updateUser: {
+        operationId: 'updateUser',
+        method: 'PUT',
+        endpoint: USER_ENDPOINTS.BY_USERNAME,
+        responses: ['400', '404'],
+        security: []
+    },
+    deleteUser: {
+        operationId: 'deleteUser',
+        method: 'DELETE',
+        endpoint: USER_ENDPOINTS.BY_USERNAME,
+        responses: ['400', '404'],
+        security: []
+    },
+    createUsersWithArrayInput: {
+        operationId: 'createUsersWithArrayInput',
+        method: 'POST',
+        endpoint: USER_ENDPOINTS.CREATE_WITH_ARRAY,
+        responses: ['default'],
+        security: []
+    },
+    createUsersWithListInput: {
+        operationId: 'createUsersWithListInput',
+        method: 'POST',
+        endpoint: USER_ENDPOINTS.CREATE_WITH_LIST,
+        responses: ['default'],
+        security: []
+    },
+    loginUser: {
+        operationId: 'loginUser',
+        method: 'GET',
+        endpoint: USER_ENDPOINTS.LOGIN,
+        responses: ['200', '400'],
+        security: []
+    },
+    logoutUser: {
+        operationId: 'logoutUser',
+        method: 'GET',
+        endpoint: USER_ENDPOINTS.LOGOUT,
+        responses: ['default'],
+        security: []
+    }
+} as const satisfies Record<string, GeneratedEndpoint>;
@@ -0,0 +1,10 @@
+/**
+ * AUTO-GENERATED from specs/petstore.swagger.json (Swagger Petstore 1.0.7).
+ * Do not edit by hand: run `npm run generate:api` after changing the spec.
+ */
+
+export * from './types.generated';
+export * from './endpoints.generated';
+export { PetApi } from './PetApi';
+export { StoreApi } from './StoreApi';
+export { UserApi } from './UserApi';
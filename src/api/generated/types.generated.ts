@@ -0,0 +1,102 @@
+/**
+ * AUTO-GENERATED from specs/petstore.swagger.json (Swagger Petstore 1.0.7).
+ * Do not edit by hand: run `npm run generate:api` after changing the spec.
+ */
+
+import { Int64 } from '../types';
+
+/**
+ * File part for multipart uploads
+ */
+export interface GeneratedFile {
+    name: string;
+    mimeType: string;
+    buffer: Buffer;
+}
+
+/**
+ * ApiResponse
+ */
+export interface ApiResponse {
+    code?: number;
+
+    type?: string;
+
+    message?: string;
+}
+
+/**
+ * Category
+ */
+export interface Category {
+    id?: Int64;
+
+    name?: string;
+}
+
+/**
+ * Order
+ */
+export interface Order {
+    id?: Int64;
+
+    petId?: Int64;
+
+    quantity?: number;
+
+    shipDate?: string;
+
+    /** Order Status */
+    status?: 'placed' | 'approved' | 'delivered';
+
+    complete?: boolean;
+}
+
+/**
+ * Pet
+ */
+export interface Pet {
+    id?: Int64;
+
+    category?: Category;
+
+    name: string;
+
+    photoUrls: string[];
+
+    tags?: Tag[];
+
+    /** pet status in the store */
+    status?: 'available' | 'pending' | 'sold';
+}
+
+/**
+ * Tag
+ */
+export interface Tag {
+    id?: Int64;
+
+    name?: string;
+}
+
+/**
+ * User
+ */
+export interface User {
+    id?: Int64;
+
+    username?: string;
+
+    firstName?: string;
+
+    lastName?: string;
+
+    email?: string;
+
+    password?: string;
+
+    phone?: string;
+
+    /** User Status */
+    userStatus?: number;
+}
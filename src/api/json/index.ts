@@ -0,0 +1,5 @@
+/**
+ * Barrel export file for lossless JSON handling
+ */
+
+export { parseJson, stringifyJson, toInt64, isInt64 } from './losslessJson';
@@ -0,0 +1,236 @@
+/**
+ * Lossless JSON
+ * Parses and serializes JSON without rounding integers beyond Number.MAX_SAFE_INTEGER
+ *
+ * JSON.parse turns 9223372036854775807 into 9223372036854775808, so a pet created with that id
+ * would be fetched, updated and deleted under the wrong one. Here such integers become bigints,
+ * and bigints are written back as plain JSON numbers.
+ */
+
+import type { Int64 } from '../types';
+
+/**
+ * Placeholder standing for a bigint while JSON.stringify runs
+ */
+const BIGINT_MARKER = '\u0000int64:';
+
+/**
+ * Marked bigints in JSON.stringify output (the NUL character is escaped as \u0000)
+ */
+const MARKED_BIGINT = /"\\u0000int64:(-?\d+)"/g;
+
+const STRING_TOKEN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const NUMBER_TOKEN = /-?(?:0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+const WHITESPACE = /[ \t\n\r]*/y;
+
+/**
+ * Normalize an integer to Int64
+ * @param value - Integer as a number, bigint or decimal string
+ * @returns A number if it is a safe integer, a bigint otherwise
+ * @throws Error if the value is not an integer
+ */
+export function toInt64(value: number | bigint | string): Int64 {
+    if (typeof value === 'number') {
+        if (!Number.isInteger(value)) throw new Error(`Expected an integer, got ${value}`);
+        return value;
+    }
+    if (typeof value === 'string' && !/^-?\d+$/.test(value.trim())) {
+        throw new Error(`Expected an integer, got "${value}"`);
+    }
+    const integer = BigInt(value);
+    const number = Number(integer);
+    return Number.isSafeInteger(number) ? number : integer;
+}
+
+/**
+ * Check whether a value is an Int64
+ * @param value - Any value
+ * @returns true for integer numbers and bigints
+ */
+export function isInt64(value: unknown): value is Int64 {
+    return typeof value === 'bigint' || Number.isInteger(value);
+}
+
+/**
+ * Parse JSON, keeping integers beyond Number.MAX_SAFE_INTEGER exact as bigints
+ * @param text - JSON text
+ * @returns Parsed value
+ * @throws SyntaxError if the text is not valid JSON
+ */
+export function parseJson<T = unknown>(text: string): T {
+    return new JsonParser(text).parse() as T;
+}
+
+/**
+ * Serialize to JSON, writing bigints as JSON numbers
+ * @param value - Value to serialize
+ * @param space - Indentation, as for JSON.stringify
+ * @returns JSON text
+ */
+export function stringifyJson(value: unknown, space?: number): string {
+    return JSON.stringify(
+        value,
+        (_key, item) => typeof item === 'bigint' ? `${BIGINT_MARKER}${item}` : item,
+        space
+    ).replace(MARKED_BIGINT, '$1');
+}
+
+/**
+ * Recursive descent JSON parser
+ */
+class JsonParser {
+    private position = 0;
+
+    /**
+     * Constructor to initialize the parser
+     * @param text - JSON text
+     */
+    constructor(private readonly text: string) {}
+
+    /**
+     * Parse the whole text as one JSON value
+     * @returns Parsed value
+     * @throws SyntaxError on invalid JSON or trailing content
+     */
+    parse(): unknown {
+        const value = this.value();
+        this.skipWhitespace();
+        if (this.position < this.text.length) this.fail();
+        return value;
+    }
+
+    /**
+     * Parse the value at the current position
+     */
+    private value(): unknown {
+        this.skipWhitespace();
+        switch (this.text[this.position]) {
+            case '{':
+                return this.object();
+            case '[':
+                return this.array();
+            case '"':
+                return this.string();
+            case 't':
+                return this.literal('true', true);
+            case 'f':
+                return this.literal('false', false);
+            case 'n':
+                return this.literal('null', null);
+            default:
+                return this.number();
+        }
+    }
+
+    /**
+     * Parse an object; the current character is "{"
+     */
+    private object(): Record<string, unknown> {
+        const object: Record<string, unknown> = {};
+        this.position++;
+        this.skipWhitespace();
+        if (this.text[this.position] === '}') {
+            this.position++;
+            return object;
+        }
+
+        for (;;) {
+            this.skipWhitespace();
+            if (this.text[this.position] !== '"') this.fail();
+            const key = this.string();
+            this.skipWhitespace();
+            this.expect(':');
+            // defineProperty keeps a "__proto__" key as data, like JSON.parse
+            Object.defineProperty(object, key, { value: this.value(), enumerable: true, writable: true, configurable: true });
+            this.skipWhitespace();
+            if (this.text[this.position] === '}') {
+                this.position++;
+                return object;
+            }
+            this.expect(',');
+        }
+    }
+
+    /**
+     * Parse an array; the current character is "["
+     */
+    private array(): unknown[] {
+        const array: unknown[] = [];
+        this.position++;
+        this.skipWhitespace();
+        if (this.text[this.position] === ']') {
+            this.position++;
+            return array;
+        }
+
+        for (;;) {
+            array.push(this.value());
+            this.skipWhitespace();
+            if (this.text[this.position] === ']') {
+                this.position++;
+                return array;
+            }
+            this.expect(',');
+        }
+    }
+
+    /**
+     * Parse a string literal
+     */
+    private string(): string {
+        return JSON.parse(this.token(STRING_TOKEN)[0]);
+    }
+
+    /**
+     * Parse a number; integers become Int64, others numbers
+     */
+    private number(): number | bigint {
+        const [literal, fraction, exponent] = this.token(NUMBER_TOKEN);
+        return fraction || exponent ? Number(literal) : toInt64(literal);
+    }
+
+    /**
+     * Parse true, false or null
+     */
+    private literal<T>(word: string, value: T): T {
+        if (!this.text.startsWith(word, this.position)) this.fail();
+        this.position += word.length;
+        return value;
+    }
+
+    /**
+     * Consume a token matching a sticky pattern
+     */
+    private token(pattern: RegExp): RegExpExecArray {
+        pattern.lastIndex = this.position;
+        const match = pattern.exec(this.text);
+        if (!match || match[0].length === 0) this.fail();
+        this.position = pattern.lastIndex;
+        return match;
+    }
+
+    /**
+     * Consume an expected punctuation character
+     */
+    private expect(char: string): void {
+        if (this.text[this.position] !== char) this.fail();
+        this.position++;
+    }
+
+    /**
+     * Skip insignificant whitespace
+     */
+    private skipWhitespace(): void {
+        WHITESPACE.lastIndex = this.position;
+        WHITESPACE.exec(this.text);
+        this.position = WHITESPACE.lastIndex;
+    }
+
+    /**
+     * Throw a SyntaxError for the current position
+     */
+    private fail(): never {
+        const found = this.position < this.text.length ? `token ${JSON.stringify(this.text[this.position])}` : 'end';
+        throw new SyntaxError(`Unexpected ${found} in JSON at position ${this.position}`);
+    }
+}
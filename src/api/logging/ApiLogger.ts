@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { APIResponse } from '@playwright/test';
+import { TEST_CONFIG } from '../../config';
+import type { ApiRequest } from '../middleware';
+import { ApiLogEntry, LOG_LEVELS, LogLevel, LogSink } from './logging.types';
+import { Redactor } from './redaction';
+import { describeRequestBody, requestBodySize } from './requestBody';
+import { parseJson, stringifyJson } from '../json';
+
+/**
+ * Logger construction options
+ */
+export interface ApiLoggerOptions {
+    level: LogLevel;
+
+    /** Field names masked in URLs, headers and bodies */
+    redactFields: readonly string[];
+
+    /** Destination of the lines (defaults to stdout) */
+    sink?: LogSink;
+}
+
+/**
+ * Identifies one attempt of a service call
+ */
+export interface ApiCallContext {
+    correlationId: string;
+    attempt: number;
+}
+
+/**
+ * ApiLogger class writing one JSON line per service request and response
+ * Used by BaseService for every call; secrets are redacted before anything is written
+ */
+export class ApiLogger {
+    readonly level: LogLevel;
+    readonly redactor: Redactor;
+    private readonly sink: LogSink;
+
+    /**
+     * Constructor to initialize ApiLogger
+     * @param options - Level, redacted fields and sink
+     */
+    constructor(options: ApiLoggerOptions) {
+        this.level = options.level;
+        this.redactor = new Redactor(options.redactFields);
+        this.sink = options.sink || (line => process.stdout.write(`${line}\n`));
+    }
+
+    /**
+     * Check whether entries of a level are written
+     * @param level - Entry level
+     * @returns true if the logger is at least that verbose
+     */
+    isEnabled(level: LogLevel): boolean {
+        return level !== 'silent' && LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level);
+    }
+
+    /**
+     * Log a request about to be sent (debug)
+     * @param request - Request after all middlewares
+     * @param call - Correlation id and attempt
+     */
+    request(request: ApiRequest, call: ApiCallContext): void {
+        if (!this.isEnabled('debug')) return;
+
+        this.write({
+            ...this.describe('debug', 'request', request, call),
+            requestBytes: requestBodySize(request.options),
+            headers: this.redactor.headers(request.options.headers),
+            body: this.redactor.body(describeRequestBody(request.options))
+        });
+    }
+
+    /**
+     * Log a response (info for 2xx/3xx, warn for 4xx, error for 5xx)
+     * @param request - Request after all middlewares
+     * @param response - Response received
+     * @param durationMs - Time until the response arrived
+     * @param call - Correlation id and attempt
+     */
+    async response(request: ApiRequest, response: APIResponse, durationMs: number, call: ApiCallContext): Promise<void> {
+        const status = response.status();
+        const level = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+        if (!this.isEnabled(level)) return;
+
+        const body = await response.body().catch(() => undefined);
+        const entry: ApiLogEntry = {
+            ...this.describe(level, 'response', request, call),
+            url: this.redactor.text(response.url()),
+            status,
+            durationMs,
+            requestBytes: requestBodySize(request.options),
+            responseBytes: body?.length
+        };
+        if (this.isEnabled('debug')) {
+            entry.headers = this.redactor.headers(response.headers());
+            entry.body = body && this.redactor.body(parseBody(body.toString('utf-8')));
+        }
+        this.write(entry);
+    }
+
+    /**
+     * Log a request that got no response (timeout, connection reset...)
+     * @param request - Request after all middlewares
+     * @param error - Error thrown while sending
+     * @param durationMs - Time until the failure
+     * @param call - Correlation id and attempt
+     */
+    failure(request: ApiRequest, error: unknown, durationMs: number, call: ApiCallContext): void {
+        if (!this.isEnabled('error')) return;
+
+        const message = error instanceof Error ? error.message : String(error);
+        this.write({
+            ...this.describe('error', 'failure', request, call),
+            durationMs,
+            requestBytes: requestBodySize(request.options),
+            error: this.redactor.text(message.split('\n')[0])
+        });
+    }
+
+    /**
+     * Common fields of an entry
+     */
+    private describe(level: ApiLogEntry['level'], event: ApiLogEntry['event'], request: ApiRequest, call: ApiCallContext): ApiLogEntry {
+        return {
+            time: new Date().toISOString(),
+            level,
+            event,
+            correlationId: call.correlationId,
+            attempt: call.attempt,
+            service: request.service,
+            method: request.method,
+            url: this.redactor.text(request.url)
+        };
+    }
+
+    /**
+     * Format and write an entry
+     */
+    private write(entry: ApiLogEntry): void {
+        this.sink(stringifyJson(entry));
+    }
+}
+
+/**
+ * Validate a verbosity level
+ * @param value - Level name (API_LOG_LEVEL)
+ * @returns Log level
+ * @throws Error if the name is not a known level
+ */
+export function parseLogLevel(value: string): LogLevel {
+    const level = value.toLowerCase() as LogLevel;
+    if (!LOG_LEVELS.includes(level)) {
+        throw new Error(`Unknown API_LOG_LEVEL "${value}". Expected one of: ${LOG_LEVELS.join(', ')}`);
+    }
+    return level;
+}
+
+/**
+ * Create a sink appending lines to a file (JSON lines), creating its directory
+ * @param file - Log file path
+ * @returns File sink
+ */
+export function fileLogSink(file: string): LogSink {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    return line => fs.appendFileSync(file, `${line}\n`);
+}
+
+let defaultLogger: ApiLogger | undefined;
+
+/**
+ * Get the logger used by services created without an explicit one
+ * Created once per worker from TEST_CONFIG.logging
+ * @returns Default logger
+ * @throws Error if API_LOG_LEVEL is invalid
+ */
+export function getApiLogger(): ApiLogger {
+    const { level, file, redactFields } = TEST_CONFIG.logging;
+    defaultLogger ??= new ApiLogger({
+        level: parseLogLevel(level),
+        redactFields,
+        sink: file ? fileLogSink(file) : undefined
+    });
+    return defaultLogger;
+}
+
+/**
+ * Parse a body as JSON when possible
+ * @param text - Body text
+ * @returns Parsed JSON, or the text itself
+ */
+function parseBody(text: string): unknown {
+    try {
+        return parseJson(text);
+    } catch {
+        return text;
+    }
+}
@@ -0,0 +1,9 @@
+/**
+ * Logging
+ * Structured, redacted logs of service requests
+ */
+
+export * from './logging.types';
+export * from './redaction';
+export * from './requestBody';
+export * from './ApiLogger';
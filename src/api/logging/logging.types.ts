@@ -0,0 +1,56 @@
+/**
+ * Logging Types
+ * Shape of the JSON lines written for every service request
+ */
+
+/**
+ * Verbosity levels, least verbose first
+ * - silent: nothing
+ * - error: 5xx responses and requests that failed without a response (timeouts, resets)
+ * - warn: 4xx responses too
+ * - info: every response
+ * - debug: every request and response with redacted headers and bodies
+ */
+export const LOG_LEVELS = ['silent', 'error', 'warn', 'info', 'debug'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Destination of the formatted JSON lines
+ */
+export type LogSink = (line: string) => void;
+
+/**
+ * One log line
+ */
+export interface ApiLogEntry {
+    time: string;
+    level: Exclude<LogLevel, 'silent'>;
+    event: 'request' | 'response' | 'failure';
+
+    /** Shared by every attempt of one service call (also sent as X-Correlation-Id) */
+    correlationId: string;
+
+    /** Attempt number, above 1 when a middleware such as retry sends the request again */
+    attempt: number;
+
+    service: string;
+    method: string;
+
+    /** URL with sensitive query parameters redacted */
+    url: string;
+
+    status?: number;
+    durationMs?: number;
+    requestBytes?: number;
+    responseBytes?: number;
+
+    /** Error message of a request that got no response */
+    error?: string;
+
+    /** Redacted headers (debug only) */
+    headers?: Record<string, string>;
+
+    /** Redacted body (debug only) */
+    body?: unknown;
+}
@@ -0,0 +1,84 @@
+/**
+ * Redaction
+ * Masks secrets (passwords, API keys, tokens) before request data is logged or reported
+ * Field names are matched case-insensitively in headers, JSON and form bodies, and query strings
+ */
+
+/**
+ * Replacement of redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Redacts the configured field names
+ */
+export class Redactor {
+    private readonly fields: Set<string>;
+
+    /**
+     * Constructor to initialize the redactor
+     * @param fields - Names of the fields to mask (e.g. password, api_key, Authorization)
+     */
+    constructor(fields: readonly string[]) {
+        this.fields = new Set(fields.map(field => field.toLowerCase()));
+    }
+
+    /**
+     * Check whether a field is redacted
+     * @param name - Header, property or query parameter name
+     * @returns true if its value must be masked
+     */
+    isSensitive(name: string): boolean {
+        return this.fields.has(name.toLowerCase());
+    }
+
+    /**
+     * Mask sensitive headers
+     * @param headers - Request or response headers
+     * @returns Copy with sensitive values replaced
+     */
+    headers(headers: Record<string, string>): Record<string, string> {
+        return Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+            [name, this.isSensitive(name) ? REDACTED : value]
+        ));
+    }
+
+    /**
+     * Mask sensitive properties of a JSON, form or multipart body, at any depth
+     * @param value - Body
+     * @returns Copy with sensitive values replaced
+     */
+    body(value: unknown): unknown {
+        if (Array.isArray(value)) return value.map(item => this.body(item));
+        if (value && typeof value === 'object' && !Buffer.isBuffer(value)) {
+            return Object.fromEntries(Object.entries(value).map(([name, item]) =>
+                [name, this.isSensitive(name) ? REDACTED : this.body(item)]
+            ));
+        }
+        return value;
+    }
+
+    /**
+     * Mask sensitive query parameters in a URL or in any text quoting one (e.g. an error message)
+     * @param text - URL or text
+     * @returns Text with the values of sensitive query parameters replaced
+     */
+    text(text: string): string {
+        return text.replace(/([?&])([^=&#\s]+)=([^&#\s]*)/g, (pair, separator: string, name: string) =>
+            this.isSensitive(safeDecode(name)) ? `${separator}${name}=${REDACTED}` : pair
+        );
+    }
+}
+
+/**
+ * Decode a URL component, keeping it as is when malformed
+ * @param component - Encoded component
+ * @returns Decoded component
+ */
+function safeDecode(component: string): string {
+    try {
+        return decodeURIComponent(component);
+    } catch {
+        return component;
+    }
+}
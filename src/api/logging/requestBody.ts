@@ -0,0 +1,61 @@
+/**
+ * Request Body
+ * Describes the body of an outgoing request for logs and request echoes
+ */
+
+import type { RequestOptions } from '../middleware';
+import { stringifyJson } from '../json';
+
+/**
+ * Describe the body of a request
+ * @param options - Request options
+ * @returns JSON data, form fields, or multipart fields with files replaced by name, type and size
+ */
+export function describeRequestBody(options: RequestOptions): unknown {
+    return options.data ?? options.form ?? describeMultipart(options.multipart);
+}
+
+/**
+ * Compute the size of a request body
+ * @param options - Request options
+ * @returns Size in bytes (0 without a body), undefined for streams and FormData
+ */
+export function requestBodySize(options: RequestOptions): number | undefined {
+    const { data, form, multipart } = options;
+    if (data !== undefined) {
+        if (Buffer.isBuffer(data)) return data.length;
+        return Buffer.byteLength(typeof data === 'string' ? data : stringifyJson(data));
+    }
+    if (form !== undefined) {
+        if (form instanceof FormData) return undefined;
+        return Buffer.byteLength(new URLSearchParams(Object.entries(form).map(([name, value]) => [name, String(value)])).toString());
+    }
+    if (multipart !== undefined) {
+        if (multipart instanceof FormData) return undefined;
+        let size = 0;
+        for (const value of Object.values(multipart)) {
+            if (value && typeof value === 'object' && 'buffer' in value) size += value.buffer.length;
+            else if (typeof value === 'object') return undefined;
+            else size += Buffer.byteLength(String(value));
+        }
+        return size;
+    }
+    return 0;
+}
+
+/**
+ * Describe a multipart payload without its file contents
+ * @param multipart - Multipart fields
+ * @returns Fields with files replaced by name, type and size
+ */
+function describeMultipart(multipart: RequestOptions['multipart']): Record<string, unknown> | undefined {
+    if (!multipart) return undefined;
+    if (multipart instanceof FormData) return { formData: '[FormData]' };
+
+    return Object.fromEntries(Object.entries(multipart).map(([name, value]) => {
+        if (value && typeof value === 'object' && 'buffer' in value) {
+            return [name, { name: value.name, mimeType: value.mimeType, size: value.buffer.length }];
+        }
+        return [name, typeof value === 'object' ? '[stream]' : value];
+    }));
+}
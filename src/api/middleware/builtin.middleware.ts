@@ -0,0 +1,46 @@
+/**
+ * Built-in Middlewares
+ * Generic plugins shipped with the framework
+ */
+
+import { recordApiCall } from '../../coverage';
+import { TEST_CONFIG } from '../../config';
+import { ApiMiddleware } from './middleware.types';
+
+/**
+ * Record every call to the configured target for the API coverage report
+ * Responses from other servers (fault proxy, local test servers) say nothing about the target and are skipped.
+ * Cassette replays are counted by the URL they were recorded from, so replaying a recording of the target covers it.
+ * @returns Coverage middleware
+ */
+export function coverageMiddleware(): ApiMiddleware {
+    return {
+        name: 'coverage',
+        async handle(request, next) {
+            const response = await next(request);
+            const url = response.url().split('?')[0];
+            if (url.startsWith(TEST_CONFIG.api.baseURL)) {
+                recordApiCall({ method: request.method, url, status: response.status() });
+            }
+            return response;
+        }
+    };
+}
+
+/**
+ * Add headers to every request, without overriding headers set by the call itself
+ * @param headers - Headers to inject
+ * @param name - Middleware name (defaults to "headers")
+ * @returns Header injection middleware
+ */
+export function headersMiddleware(headers: Record<string, string>, name: string = 'headers'): ApiMiddleware {
+    return {
+        name,
+        async handle(request, next) {
+            return next({
+                ...request,
+                options: { ...request.options, headers: { ...headers, ...request.options.headers } }
+            });
+        }
+    };
+}
@@ -0,0 +1,11 @@
+/**
+ * Middleware
+ * Request/response pipeline shared by all services
+ */
+
+export * from './middleware.types';
+export * from './pipeline';
+export * from './requestUrl';
+export * from './builtin.middleware';
+export * from './retry.middleware';
+export * from './registry';
@@ -0,0 +1,62 @@
+/**
+ * Middleware Types
+ * Contract between BaseService and the plugins of its request/response pipeline
+ */
+
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+
+/**
+ * HTTP methods sent by services
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
+/**
+ * Request options (Playwright fetch options without the method)
+ * Headers are always a plain record so middlewares can read and edit them
+ */
+export type RequestOptions = Omit<NonNullable<Parameters<APIRequestContext['fetch']>[1]>, 'method' | 'headers'> & {
+    headers?: Record<string, string>;
+};
+
+/**
+ * Outgoing request as seen by middlewares
+ */
+export interface ApiRequest {
+    method: HttpMethod;
+
+    /** URL relative to the base URL (or absolute) */
+    url: string;
+
+    options: RequestOptions & { headers: Record<string, string> };
+
+    /** Name of the service sending the request (e.g. "PetService") */
+    service: string;
+}
+
+/**
+ * Continue the pipeline with a (possibly modified) request
+ */
+export type NextMiddleware = (request: ApiRequest) => Promise<APIResponse>;
+
+/**
+ * Pipeline plugin
+ * A middleware may edit the request before calling next, inspect or replace the response it gets back,
+ * or answer without calling next at all
+ */
+export interface ApiMiddleware {
+    /** Name used in TEST_CONFIG.api.middlewares and in error messages */
+    name: string;
+
+    /**
+     * Handle one request
+     * @param request - Outgoing request
+     * @param next - Rest of the pipeline
+     * @returns Response to hand back to the previous middleware
+     */
+    handle(request: ApiRequest, next: NextMiddleware): Promise<APIResponse>;
+}
+
+/**
+ * Factory creating a fresh middleware instance per service
+ */
+export type ApiMiddlewareFactory = () => ApiMiddleware;
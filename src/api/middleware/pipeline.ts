@@ -0,0 +1,28 @@
+/**
+ * Middleware Pipeline
+ * Runs a request through an ordered chain of middlewares before it reaches the network
+ */
+
+import type { APIResponse } from '@playwright/test';
+import { ApiMiddleware, ApiRequest, NextMiddleware } from './middleware.types';
+
+/**
+ * Run a request through a middleware chain
+ * The first middleware is the outermost: it sees the request first and the response last
+ * @param middlewares - Ordered middlewares
+ * @param request - Outgoing request
+ * @param send - Terminal handler that actually sends the request
+ * @returns Response produced by the chain
+ */
+export async function runPipeline(
+    middlewares: readonly ApiMiddleware[],
+    request: ApiRequest,
+    send: NextMiddleware
+): Promise<APIResponse> {
+    const dispatch = (index: number, current: ApiRequest): Promise<APIResponse> => {
+        const middleware = middlewares[index];
+        if (!middleware) return send(current);
+        return middleware.handle(current, next => dispatch(index + 1, next));
+    };
+    return dispatch(0, request);
+}
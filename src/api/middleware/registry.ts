@@ -0,0 +1,53 @@
+/**
+ * Middleware Registry
+ * Maps the names listed in TEST_CONFIG.api.middlewares to middleware factories
+ */
+
+import { TEST_CONFIG } from '../../config';
+import { cassetteMiddleware } from '../cassettes/cassette.middleware';
+import { coverageMiddleware } from './builtin.middleware';
+import { retryMiddleware } from './retry.middleware';
+import { ApiMiddleware, ApiMiddlewareFactory } from './middleware.types';
+
+/**
+ * Registered middleware factories
+ */
+const MIDDLEWARE_REGISTRY = new Map<string, ApiMiddlewareFactory>([
+    ['coverage', coverageMiddleware],
+    ['retry', () => retryMiddleware()],
+    ['cassette', () => cassetteMiddleware()]
+]);
+
+/**
+ * Register a middleware so it can be enabled by name from TEST_CONFIG.api.middlewares
+ * Register from a module loaded before the services are created (e.g. the test fixtures)
+ * @param name - Name used in the configuration
+ * @param factory - Factory creating the middleware
+ */
+export function registerMiddleware(name: string, factory: ApiMiddlewareFactory): void {
+    MIDDLEWARE_REGISTRY.set(name, factory);
+}
+
+/**
+ * Create middlewares by name
+ * @param names - Registered middleware names, in pipeline order
+ * @returns Middleware instances
+ * @throws Error if a name is not registered
+ */
+export function resolveMiddlewares(names: readonly string[]): ApiMiddleware[] {
+    return names.map(name => {
+        const factory = MIDDLEWARE_REGISTRY.get(name);
+        if (!factory) {
+            throw new Error(`Unknown middleware "${name}". Expected one of: ${[...MIDDLEWARE_REGISTRY.keys()].join(', ')}`);
+        }
+        return factory();
+    });
+}
+
+/**
+ * Create the middlewares enabled globally
+ * @returns Middlewares listed in TEST_CONFIG.api.middlewares
+ */
+export function getGlobalMiddlewares(): ApiMiddleware[] {
+    return resolveMiddlewares(TEST_CONFIG.api.middlewares);
+}
@@ -0,0 +1,40 @@
+/**
+ * Request URL
+ * Full URL of an outgoing request, for the places that need it before (or without) a response
+ */
+
+import { TEST_CONFIG } from '../../config';
+import { ApiRequest, RequestOptions } from './middleware.types';
+
+/**
+ * Serialize query params the way Playwright sends them
+ * @param params - Query params of the request options
+ * @returns Query string without the leading "?", empty without params
+ */
+export function serializeParams(params: RequestOptions['params']): string {
+    if (params === undefined) return '';
+    if (typeof params === 'string' || params instanceof URLSearchParams) return new URLSearchParams(params).toString();
+    return new URLSearchParams(Object.entries(params).map(([name, value]) => [name, String(value)])).toString();
+}
+
+/**
+ * Append query params to a URL
+ * @param url - URL, possibly with a query already
+ * @param params - Query params of the request options
+ * @returns URL followed by the serialized params
+ */
+export function appendParams(url: string, params: RequestOptions['params']): string {
+    const query = serializeParams(params);
+    return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+}
+
+/**
+ * Resolve the URL a request is sent to: its URL against the base URL, followed by its query params
+ * @param request - Outgoing request
+ * @param baseURL - Base URL relative URLs are resolved against (defaults to TEST_CONFIG.api.baseURL)
+ * @returns Absolute URL, or the URL as given when there is no base URL to resolve it against
+ */
+export function resolveRequestUrl(request: ApiRequest, baseURL: string = TEST_CONFIG.api.baseURL): string {
+    const url = baseURL ? new URL(request.url, baseURL).toString() : request.url;
+    return appendParams(url, request.options.params);
+}
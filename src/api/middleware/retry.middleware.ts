@@ -0,0 +1,121 @@
+/**
+ * Retry Middleware
+ * Retries transient failures (5xx gateway errors, socket resets) with exponential backoff and jitter
+ * Only methods listed in the options are retried; POST must be opted in explicitly
+ */
+
+import { APIResponse } from '@playwright/test';
+import { TEST_CONFIG } from '../../config';
+import { wait } from '../../utils';
+import { getApiLogger } from '../logging';
+import { runAsStep } from '../reporting';
+import { ApiMiddleware, ApiRequest, HttpMethod } from './middleware.types';
+
+/**
+ * Retry options
+ */
+export interface RetryOptions {
+    /** Retries after the first attempt */
+    retries: number;
+
+    baseDelayMs: number;
+    maxDelayMs: number;
+    retryableStatuses: readonly number[];
+
+    /** Methods safe to replay */
+    methods: readonly HttpMethod[];
+}
+
+/**
+ * Network errors worth retrying (connection dropped mid-request)
+ */
+const TRANSIENT_ERROR = /ECONNRESET|socket hang up|EPIPE|ETIMEDOUT|EAI_AGAIN/i;
+
+/**
+ * Default retry options from TEST_CONFIG.api
+ * @returns Retry options
+ */
+export function getDefaultRetryOptions(): RetryOptions {
+    const { retries, retry } = TEST_CONFIG.api;
+    return {
+        retries,
+        baseDelayMs: retry.baseDelayMs,
+        maxDelayMs: retry.maxDelayMs,
+        retryableStatuses: retry.retryableStatuses,
+        methods: retry.methods as readonly HttpMethod[]
+    };
+}
+
+/**
+ * Compute the delay before a retry
+ * Exponential backoff with "equal jitter": half the delay is fixed, the other half random
+ * @param attempt - Retry number, starting at 1
+ * @param options - Retry options
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>): number {
+    const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Retry transient failures of idempotent requests
+ * @param overrides - Options replacing the TEST_CONFIG defaults (e.g. { methods: [...IDEMPOTENT, 'POST'] })
+ * @returns Retry middleware
+ */
+export function retryMiddleware(overrides: Partial<RetryOptions> = {}): ApiMiddleware {
+    const options: RetryOptions = { ...getDefaultRetryOptions(), ...overrides };
+
+    return {
+        name: 'retry',
+        async handle(request, next) {
+            if (!options.methods.includes(request.method) || options.retries <= 0) {
+                return next(request);
+            }
+
+            let outcome = await attempt(request, next);
+            for (let retry = 1; retry <= options.retries && isRetryable(outcome, options); retry++) {
+                const delay = computeBackoffDelay(retry, options);
+                const reason = outcome instanceof Error ? outcome.message.split('\n')[0] : `status ${outcome.status()}`;
+
+                // Redacted like the step title of BaseService.send: login URLs carry the password
+                const title = `Retry ${retry}/${options.retries}: ${request.method} ${request.url} after ${reason} (waited ${delay}ms)`;
+                outcome = await runAsStep(
+                    getApiLogger().redactor.text(title),
+                    async () => {
+                        await wait(delay);
+                        return attempt(request, next);
+                    }
+                );
+            }
+
+            if (outcome instanceof Error) throw outcome;
+            return outcome;
+        }
+    };
+}
+
+/**
+ * Send one attempt, capturing network errors instead of throwing
+ * @param request - Outgoing request
+ * @param next - Rest of the pipeline
+ * @returns Response, or the error thrown by the attempt
+ */
+async function attempt(request: ApiRequest, next: (request: ApiRequest) => Promise<APIResponse>): Promise<APIResponse | Error> {
+    try {
+        return await next(request);
+    } catch (error) {
+        return error instanceof Error ? error : new Error(String(error));
+    }
+}
+
+/**
+ * Check whether an attempt failed transiently
+ * @param outcome - Response or error of the attempt
+ * @param options - Retry options
+ * @returns true if the attempt should be retried
+ */
+function isRetryable(outcome: APIResponse | Error, options: RetryOptions): boolean {
+    if (outcome instanceof Error) return TRANSIENT_ERROR.test(outcome.message);
+    return options.retryableStatuses.includes(outcome.status());
+}
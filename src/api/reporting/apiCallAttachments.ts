@@ -0,0 +1,152 @@
+/**
+ * API Call Attachments
+ * Attaches the request and response of a service call to the current test step, as readable HTTP messages
+ * Secrets are redacted and bodies larger than TEST_CONFIG.reporting.apiCalls.maxBodyBytes are truncated
+ */
+
+import { test, APIResponse } from '@playwright/test';
+import { TEST_CONFIG } from '../../config';
+import type { ApiRequest } from '../middleware';
+import { Redactor, describeRequestBody } from '../logging';
+import { parseJson, stringifyJson } from '../json';
+import { isInsideTest } from './testStep';
+
+/**
+ * Service call to attach
+ */
+export interface ApiCallRecord {
+    /** Request as sent, after all middlewares */
+    request: ApiRequest;
+
+    /** Response, undefined if the request failed without one */
+    response?: APIResponse;
+
+    /** Error thrown while sending, if any */
+    error?: unknown;
+
+    durationMs: number;
+}
+
+/**
+ * Attachment settings
+ */
+export interface ApiCallAttachmentOptions {
+    redactor: Redactor;
+
+    /** Bodies longer than this are cut, with a note giving the full size */
+    maxBodyBytes: number;
+}
+
+/**
+ * Content types rendered as text; other bodies are summarized by their size
+ */
+const TEXT_CONTENT_TYPE = /json|text|xml|x-www-form-urlencoded|javascript/i;
+
+/**
+ * Attach a service call to the current test step ("Request" and "Response", or "Error")
+ * Does nothing outside a test or when TEST_CONFIG.reporting.apiCalls.attach is off
+ * @param call - Request, response or error, and duration
+ * @param options - Redaction and truncation settings
+ */
+export async function attachApiCall(call: ApiCallRecord, options: ApiCallAttachmentOptions): Promise<void> {
+    if (!TEST_CONFIG.reporting.apiCalls.attach || !isInsideTest()) return;
+
+    const info = test.info();
+    const url = call.response?.url() ?? call.request.url;
+    await info.attach('Request', { body: formatRequest(call.request, url, options), contentType: 'text/plain' });
+
+    if (call.response) {
+        await info.attach('Response', { body: await formatResponse(call.response, call.durationMs, options), contentType: 'text/plain' });
+    } else {
+        const message = call.error instanceof Error ? call.error.message : String(call.error);
+        await info.attach('Error', {
+            body: `No response after ${call.durationMs} ms\n\n${options.redactor.text(message)}`,
+            contentType: 'text/plain'
+        });
+    }
+}
+
+/**
+ * Render a request as an HTTP message
+ * @param request - Request as sent
+ * @param url - Absolute URL when known
+ * @param options - Redaction and truncation settings
+ * @returns Request line, headers and body
+ */
+export function formatRequest(request: ApiRequest, url: string, options: ApiCallAttachmentOptions): string {
+    const { redactor } = options;
+    const body = redactor.body(describeRequestBody(request.options));
+    const text = body === undefined ? '' : typeof body === 'string' ? body : stringifyJson(body, 2);
+
+    return [
+        `${request.method} ${redactor.text(url)}`,
+        formatHeaders(redactor.headers(request.options.headers)),
+        '',
+        truncateBody(text, options.maxBodyBytes)
+    ].join('\n').trimEnd();
+}
+
+/**
+ * Render a response as an HTTP message
+ * @param response - Response received
+ * @param durationMs - Time until the response arrived
+ * @param options - Redaction and truncation settings
+ * @returns Status line with timing, headers and body
+ */
+export async function formatResponse(response: APIResponse, durationMs: number, options: ApiCallAttachmentOptions): Promise<string> {
+    const { redactor } = options;
+    const headers = response.headers();
+    const buffer = await response.body().catch(() => undefined);
+
+    let text = '';
+    if (buffer && buffer.length > 0) {
+        if (!TEXT_CONTENT_TYPE.test(headers['content-type'] ?? 'text/plain')) {
+            text = `[${headers['content-type']} body: ${buffer.length} bytes]`;
+        } else {
+            const raw = buffer.toString('utf-8');
+            text = truncateBody(prettyJson(raw, redactor) ?? raw, options.maxBodyBytes);
+        }
+    }
+
+    return [
+        `HTTP ${[response.status(), response.statusText()].filter(Boolean).join(' ')} (${durationMs} ms)`,
+        formatHeaders(redactor.headers(headers)),
+        '',
+        text
+    ].join('\n').trimEnd();
+}
+
+/**
+ * Cut a body longer than the limit
+ * @param text - Body text
+ * @param maxBytes - Largest size kept, in UTF-8 bytes
+ * @returns The body, or its beginning followed by a note with the full size
+ */
+export function truncateBody(text: string, maxBytes: number): string {
+    const buffer = Buffer.from(text, 'utf-8');
+    if (buffer.length <= maxBytes) return text;
+    return `${buffer.subarray(0, maxBytes).toString('utf-8')}\n… [truncated: first ${maxBytes} of ${buffer.length} bytes shown]`;
+}
+
+/**
+ * Render headers one per line
+ * @param headers - Headers
+ * @returns "name: value" lines
+ */
+function formatHeaders(headers: Record<string, string>): string {
+    return Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+}
+
+/**
+ * Redact and indent a JSON body
+ * @param text - Body text
+ * @param redactor - Redaction rules
+ * @returns Indented JSON, or undefined if the body is not JSON
+ */
+function prettyJson(text: string, redactor: Redactor): string | undefined {
+    try {
+        return stringifyJson(redactor.body(parseJson(text)), 2);
+    } catch {
+        return undefined;
+    }
+}
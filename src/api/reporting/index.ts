@@ -0,0 +1,8 @@
+/**
+ * Reporting
+ * Test steps and report attachments of service calls
+ */
+
+export * from './testStep';
+export * from './apiCallAttachments';
+export * from './requestExport';
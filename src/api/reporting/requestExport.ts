@@ -0,0 +1,203 @@
+/**
+ * Request Export
+ * Renders the requests sent by services as copy-pasteable curl commands and .http snippets
+ * (VS Code REST Client / JetBrains HTTP Client), and keeps the ones sent by the running test
+ */
+
+import { test } from '@playwright/test';
+import type { ApiRequest, HttpMethod } from '../middleware';
+import { resolveRequestUrl } from '../middleware/requestUrl';
+import { Redactor } from '../logging';
+import { stringifyJson } from '../json';
+import { isInsideTest } from './testStep';
+
+/**
+ * File of a multipart request, described without its contents
+ */
+export interface MultipartFileSummary {
+    name: string;
+    mimeType: string;
+    size: number;
+}
+
+/**
+ * Request as sent by a service, in a form that can be rendered
+ */
+export interface SentRequest {
+    /** Service that sent the request (e.g. "PetService") */
+    service: string;
+    method: HttpMethod;
+
+    /** Absolute URL, query params included */
+    url: string;
+
+    headers: Record<string, string>;
+
+    /** JSON (or raw string) body */
+    data?: unknown;
+
+    /** application/x-www-form-urlencoded fields */
+    form?: Record<string, string | number | boolean>;
+
+    /** multipart/form-data fields; files are sent as @<name> and need to exist to replay the command */
+    multipart?: Record<string, string | number | boolean | MultipartFileSummary>;
+}
+
+/**
+ * Boundary of the multipart bodies written in .http snippets
+ */
+const HTTP_SNIPPET_BOUNDARY = 'ApiTestsBoundary';
+
+/**
+ * Snapshot a request as sent
+ * Streams and FormData bodies cannot be replayed and are left out
+ * @param request - Request after all middlewares
+ * @param url - Absolute URL reported by the response (defaults to the request URL resolved against the base URL,
+ * for calls that got no response)
+ * @returns Renderable request
+ */
+export function toSentRequest(request: ApiRequest, url: string = resolveRequestUrl(request)): SentRequest {
+    const { data, form, multipart, headers } = request.options;
+    const sent: SentRequest = { service: request.service, method: request.method, url, headers: { ...headers } };
+
+    if (data !== undefined) sent.data = Buffer.isBuffer(data) ? data.toString('utf-8') : data;
+    if (form && !(form instanceof FormData)) sent.form = { ...form };
+    if (multipart && !(multipart instanceof FormData)) {
+        sent.multipart = {};
+        for (const [name, value] of Object.entries(multipart)) {
+            if (value && typeof value === 'object' && 'buffer' in value) {
+                sent.multipart[name] = { name: value.name, mimeType: value.mimeType, size: value.buffer.length };
+            } else if (typeof value !== 'object') {
+                sent.multipart[name] = value;
+            }
+        }
+    }
+    return sent;
+}
+
+/**
+ * Render a request as a curl command
+ * @param sent - Request as sent
+ * @param redactor - Masks secrets when the command is shared (omit to keep real credentials)
+ * @returns Multi-line shell command
+ */
+export function renderCurl(sent: SentRequest, redactor?: Redactor): string {
+    const request = redact(sent, redactor);
+    const args = [`curl${methodFlag(request.method)} ${shellQuote(request.url)}`];
+
+    for (const [name, value] of Object.entries(request.headers)) {
+        args.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+    }
+    if (request.data !== undefined) {
+        args.push(`--data-raw ${shellQuote(typeof request.data === 'string' ? request.data : stringifyJson(request.data))}`);
+    }
+    for (const [name, value] of Object.entries(request.form ?? {})) {
+        args.push(`--data-urlencode ${shellQuote(`${name}=${value}`)}`);
+    }
+    for (const [name, value] of Object.entries(request.multipart ?? {})) {
+        args.push(`-F ${shellQuote(isFile(value) ? `${name}=@${value.name};type=${value.mimeType}` : `${name}=${value}`)}`);
+    }
+    return args.join(' \\\n  ');
+}
+
+/**
+ * Render a request as an .http file snippet
+ * @param sent - Request as sent
+ * @param redactor - Masks secrets when the snippet is shared (omit to keep real credentials)
+ * @returns Snippet starting with a "###" separator naming the service
+ */
+export function renderHttpSnippet(sent: SentRequest, redactor?: Redactor): string {
+    const request = redact(sent, redactor);
+    const headers = { ...request.headers };
+    let body: string | undefined;
+
+    if (request.data !== undefined) {
+        body = typeof request.data === 'string' ? request.data : stringifyJson(request.data, 2);
+    } else if (request.form) {
+        headers['Content-Type'] = 'application/x-www-form-urlencoded';
+        body = new URLSearchParams(Object.entries(request.form).map(([name, value]) => [name, String(value)])).toString();
+    } else if (request.multipart) {
+        headers['Content-Type'] = `multipart/form-data; boundary=${HTTP_SNIPPET_BOUNDARY}`;
+        body = Object.entries(request.multipart).map(([name, value]) => [
+            `--${HTTP_SNIPPET_BOUNDARY}`,
+            ...(isFile(value)
+                ? [`Content-Disposition: form-data; name="${name}"; filename="${value.name}"`, `Content-Type: ${value.mimeType}`, '', `< ./${value.name}`]
+                : [`Content-Disposition: form-data; name="${name}"`, '', String(value)])
+        ].join('\n')).concat(`--${HTTP_SNIPPET_BOUNDARY}--`).join('\n');
+    }
+
+    return [
+        `### ${request.service}: ${request.method} ${request.url}`,
+        `${request.method} ${request.url}`,
+        ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+        ...(body === undefined ? [] : ['', body])
+    ].join('\n');
+}
+
+let testRequests: { testId: string; requests: SentRequest[] } | undefined;
+
+/**
+ * Remember a request sent by the running test (ignored outside tests)
+ * Only the current test's requests are kept, so workers do not accumulate history
+ * @param sent - Request as sent
+ */
+export function recordSentRequest(sent: SentRequest): void {
+    if (!isInsideTest()) return;
+
+    const { testId } = test.info();
+    if (testRequests?.testId !== testId) testRequests = { testId, requests: [] };
+    testRequests.requests.push(sent);
+}
+
+/**
+ * Requests sent by services during a test
+ * @param testId - Test id (testInfo.testId)
+ * @returns Requests in sending order
+ */
+export function getSentRequests(testId: string): readonly SentRequest[] {
+    return testRequests?.testId === testId ? testRequests.requests : [];
+}
+
+/**
+ * Mask secrets in a request
+ * @param sent - Request as sent
+ * @param redactor - Redaction rules, if any
+ * @returns Copy with secrets masked, or the request itself without a redactor
+ */
+function redact(sent: SentRequest, redactor?: Redactor): SentRequest {
+    if (!redactor) return sent;
+    return {
+        ...sent,
+        url: redactor.text(sent.url),
+        headers: redactor.headers(sent.headers),
+        data: redactor.body(sent.data),
+        form: redactor.body(sent.form) as SentRequest['form'],
+        multipart: redactor.body(sent.multipart) as SentRequest['multipart']
+    };
+}
+
+/**
+ * curl option selecting the method
+ * @param method - HTTP method
+ * @returns Flag with a leading space, empty for GET
+ */
+function methodFlag(method: HttpMethod): string {
+    if (method === 'GET') return '';
+    return method === 'HEAD' ? ' --head' : ` -X ${method}`;
+}
+
+/**
+ * Quote a value for POSIX shells
+ * @param value - Raw value
+ * @returns Single-quoted value
+ */
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Check whether a multipart field is a file
+ */
+function isFile(value: NonNullable<SentRequest['multipart']>[string]): value is MultipartFileSummary {
+    return typeof value === 'object';
+}
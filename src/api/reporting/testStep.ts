@@ -0,0 +1,30 @@
+/**
+ * Test Steps
+ * Runs work as a Playwright step (an Allure step) when called from a test, and directly otherwise
+ */
+
+import { test } from '@playwright/test';
+
+/**
+ * Check whether the code runs inside a test (body, hook or fixture)
+ * @returns true if test.info() is available
+ */
+export function isInsideTest(): boolean {
+    try {
+        test.info();
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Run work as a test step when called inside a test, so it shows up in the HTML and Allure reports
+ * @param title - Step title
+ * @param body - Work to run
+ * @param box - Report errors at the caller instead of inside the step
+ * @returns Result of the work
+ */
+export async function runAsStep<T>(title: string, body: () => Promise<T>, box: boolean = false): Promise<T> {
+    return isInsideTest() ? test.step(title, body, { box }) : body();
+}
@@ -0,0 +1,30 @@
+/**
+ * Barrel export file for runtime payload schemas
+ * Provides centralized import point for schemas and the schema validator
+ */
+
+// Schema definitions
+export type {
+    JsonSchema,
+    SchemaType,
+    SchemaFormat,
+    SchemaValidationIssue,
+    SchemaValidationResult
+} from './schema.types';
+
+// Pet schemas
+export { PET_SCHEMA, PET_LIST_SCHEMA, PET_CATEGORY_SCHEMA, PET_TAG_SCHEMA } from './pet.schema';
+
+// Store schemas
+export { ORDER_SCHEMA, INVENTORY_SCHEMA } from './store.schema';
+
+// User schemas
+export { USER_SCHEMA, LOGIN_RESPONSE_SCHEMA } from './user.schema';
+
+// Validator
+export {
+    SchemaValidationError,
+    validateSchema,
+    assertSchema,
+    formatSchemaIssues
+} from './schema.validator';
@@ -0,0 +1,59 @@
+/**
+ * Pet Schemas
+ * Runtime schemas matching the Pet types in src/api/types/pet.types.ts
+ */
+
+import { Pet, PetCategory, PetTag } from '../types';
+import { JsonSchema } from './schema.types';
+
+/**
+ * Pet category schema
+ */
+export const PET_CATEGORY_SCHEMA: JsonSchema<PetCategory> = {
+    title: 'PetCategory',
+    type: 'object',
+    required: ['id', 'name'],
+    properties: {
+        id: { type: 'integer', format: 'int64' },
+        name: { type: 'string' }
+    }
+};
+
+/**
+ * Pet tag schema
+ */
+export const PET_TAG_SCHEMA: JsonSchema<PetTag> = {
+    title: 'PetTag',
+    type: 'object',
+    required: ['id', 'name'],
+    properties: {
+        id: { type: 'integer', format: 'int64' },
+        name: { type: 'string' }
+    }
+};
+
+/**
+ * Pet schema
+ */
+export const PET_SCHEMA: JsonSchema<Pet> = {
+    title: 'Pet',
+    type: 'object',
+    required: ['name', 'photoUrls', 'status'],
+    properties: {
+        id: { type: 'integer', format: 'int64' },
+        category: PET_CATEGORY_SCHEMA,
+        name: { type: 'string' },
+        photoUrls: { type: 'array', items: { type: 'string' } },
+        tags: { type: 'array', items: PET_TAG_SCHEMA },
+        status: { type: 'string', enum: ['available', 'pending', 'sold'] }
+    }
+};
+
+/**
+ * Pet list schema (findByStatus, findByTags)
+ */
+export const PET_LIST_SCHEMA: JsonSchema<Pet[]> = {
+    title: 'Pet[]',
+    type: 'array',
+    items: PET_SCHEMA
+};
@@ -0,0 +1,58 @@
+/**
+ * Schema Types
+ * Minimal JSON-schema subset used to validate API payloads at runtime
+ */
+
+/**
+ * Primitive JSON schema types supported by the validator
+ */
+export type SchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+
+/**
+ * Supported string/number formats
+ * - int64: integer within the signed 64-bit range
+ * - int32: integer within the signed 32-bit range
+ * - date-time: ISO 8601 timestamp
+ */
+export type SchemaFormat = 'int64' | 'int32' | 'date-time';
+
+/**
+ * JSON schema definition
+ * The phantom type parameter ties a schema to the TypeScript type it describes
+ */
+export interface JsonSchema<T = unknown> {
+    /** Schema name used in error reports */
+    title?: string;
+    type: SchemaType;
+    format?: SchemaFormat;
+    enum?: readonly (string | number | boolean)[];
+    properties?: Record<string, JsonSchema>;
+    required?: readonly string[];
+    items?: JsonSchema;
+    additionalProperties?: JsonSchema;
+
+    /** Compile-time only marker for the described type */
+    readonly __type?: T;
+}
+
+/**
+ * Single schema mismatch
+ */
+export interface SchemaValidationIssue {
+    /** JSON path of the offending value (e.g. "$.tags[0].name") */
+    path: string;
+
+    /** What the schema expected */
+    expected: string;
+
+    /** What the payload contained */
+    actual: string;
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export interface SchemaValidationResult {
+    valid: boolean;
+    issues: SchemaValidationIssue[];
+}
@@ -0,0 +1,164 @@
+/**
+ * Schema Validator
+ * Validates JSON payloads against JsonSchema definitions and reports path-by-path mismatches
+ */
+
+import { JsonSchema, SchemaValidationIssue, SchemaValidationResult } from './schema.types';
+
+/**
+ * Integer bounds per numeric format
+ */
+const INTEGER_BOUNDS = {
+    int32: { min: -(2n ** 31n), max: 2n ** 31n - 1n },
+    int64: { min: -(2n ** 63n), max: 2n ** 63n - 1n }
+} as const;
+
+/**
+ * ISO 8601 date-time, accepting both "Z" and numeric offsets with or without a colon
+ */
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * Error thrown when a payload does not match its schema
+ */
+export class SchemaValidationError extends Error {
+    readonly issues: SchemaValidationIssue[];
+
+    /**
+     * Constructor to initialize the error with a readable diff
+     * @param schema - Schema that was violated
+     * @param issues - All mismatches found
+     */
+    constructor(schema: JsonSchema, issues: SchemaValidationIssue[]) {
+        super(formatSchemaIssues(schema, issues));
+        this.name = 'SchemaValidationError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Describe a JSON value for error messages
+ * @param value - Any JSON value
+ * @returns Short description including the value when it is a primitive
+ */
+function describe(value: unknown): string {
+    if (value === undefined) return 'undefined';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return `array(${value.length})`;
+    if (typeof value === 'object') return 'object';
+    if (typeof value === 'bigint') return `bigint ${value}`;
+    return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Check the runtime type of a value
+ * @param value - Value to check
+ * @param schema - Schema with the expected type
+ * @returns true if the value has the schema type
+ */
+function matchesType(value: unknown, schema: JsonSchema): boolean {
+    switch (schema.type) {
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return typeof value === 'bigint' || (typeof value === 'number' && Number.isInteger(value));
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        default:
+            return typeof value === schema.type;
+    }
+}
+
+/**
+ * Recursively validate a value, collecting issues
+ * @param value - Value to validate
+ * @param schema - Expected schema
+ * @param path - JSON path of the value
+ * @param issues - Accumulator for mismatches
+ */
+function validateValue(value: unknown, schema: JsonSchema, path: string, issues: SchemaValidationIssue[]): void {
+    if (!matchesType(value, schema)) {
+        const expected = schema.format ? `${schema.type} (${schema.format})` : schema.type;
+        issues.push({ path, expected, actual: describe(value) });
+        return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+        issues.push({ path, expected: `one of ${JSON.stringify(schema.enum)}`, actual: describe(value) });
+    }
+
+    if (schema.format === 'int32' || schema.format === 'int64') {
+        const bounds = INTEGER_BOUNDS[schema.format];
+        const integer = value as number | bigint;
+        if (integer < bounds.min || integer > bounds.max) {
+            issues.push({ path, expected: `${schema.format} in range`, actual: describe(value) });
+        }
+    }
+
+    if (schema.format === 'date-time' && !ISO_DATE_TIME.test(value as string)) {
+        issues.push({ path, expected: 'ISO 8601 date-time', actual: describe(value) });
+    }
+
+    if (schema.type === 'array' && schema.items) {
+        (value as unknown[]).forEach((item, index) => {
+            validateValue(item, schema.items!, `${path}[${index}]`, issues);
+        });
+    }
+
+    if (schema.type === 'object') {
+        const record = value as Record<string, unknown>;
+
+        for (const key of schema.required || []) {
+            if (record[key] === undefined) {
+                issues.push({ path: `${path}.${key}`, expected: 'required property', actual: 'missing' });
+            }
+        }
+
+        for (const [key, propertyValue] of Object.entries(record)) {
+            const propertySchema = schema.properties?.[key] ?? schema.additionalProperties;
+            if (propertySchema && propertyValue !== undefined) {
+                validateValue(propertyValue, propertySchema, `${path}.${key}`, issues);
+            }
+        }
+    }
+}
+
+/**
+ * Validate a value against a schema
+ * @param value - Value to validate (usually a parsed response body)
+ * @param schema - Expected schema
+ * @returns Validation result with every mismatch found
+ */
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaValidationResult {
+    const issues: SchemaValidationIssue[] = [];
+    validateValue(value, schema, '$', issues);
+    return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Assert that a value matches a schema
+ * @param value - Value to validate
+ * @param schema - Expected schema
+ * @returns The value, typed as the schema's type
+ * @throws SchemaValidationError listing every mismatch
+ */
+export function assertSchema<T>(value: unknown, schema: JsonSchema<T>): T {
+    const { valid, issues } = validateSchema(value, schema);
+    if (!valid) {
+        throw new SchemaValidationError(schema, issues);
+    }
+    return value as T;
+}
+
+/**
+ * Format schema issues as a readable path-by-path diff
+ * @param schema - Schema that was violated
+ * @param issues - Mismatches to format
+ * @returns Multi-line report
+ */
+export function formatSchemaIssues(schema: JsonSchema, issues: SchemaValidationIssue[]): string {
+    const lines = issues.map(issue => `  ${issue.path}: expected ${issue.expected}, got ${issue.actual}`);
+    return [`Response body does not match schema "${schema.title || schema.type}":`, ...lines].join('\n');
+}
@@ -0,0 +1,32 @@
+/**
+ * Store Schemas
+ * Runtime schemas matching the Store types in src/api/types/store.types.ts
+ */
+
+import { Inventory, Order } from '../types';
+import { JsonSchema } from './schema.types';
+
+/**
+ * Order schema
+ */
+export const ORDER_SCHEMA: JsonSchema<Order> = {
+    title: 'Order',
+    type: 'object',
+    properties: {
+        id: { type: 'integer', format: 'int64' },
+        petId: { type: 'integer', format: 'int64' },
+        quantity: { type: 'integer', format: 'int32' },
+        shipDate: { type: 'string', format: 'date-time' },
+        status: { type: 'string', enum: ['placed', 'approved', 'delivered'] },
+        complete: { type: 'boolean' }
+    }
+};
+
+/**
+ * Inventory schema - map of status to pet count
+ */
+export const INVENTORY_SCHEMA: JsonSchema<Inventory> = {
+    title: 'Inventory',
+    type: 'object',
+    additionalProperties: { type: 'integer', format: 'int32' }
+};
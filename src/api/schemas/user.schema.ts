@@ -0,0 +1,39 @@
+/**
+ * User Schemas
+ * Runtime schemas matching the User types in src/api/types/user.types.ts
+ */
+
+import { LoginResponse, User } from '../types';
+import { JsonSchema } from './schema.types';
+
+/**
+ * User schema
+ */
+export const USER_SCHEMA: JsonSchema<User> = {
+    title: 'User',
+    type: 'object',
+    properties: {
+        id: { type: 'integer', format: 'int64' },
+        username: { type: 'string' },
+        firstName: { type: 'string' },
+        lastName: { type: 'string' },
+        email: { type: 'string' },
+        password: { type: 'string' },
+        phone: { type: 'string' },
+        userStatus: { type: 'integer', format: 'int32' }
+    }
+};
+
+/**
+ * Login response schema
+ */
+export const LOGIN_RESPONSE_SCHEMA: JsonSchema<LoginResponse> = {
+    title: 'LoginResponse',
+    type: 'object',
+    required: ['code', 'message'],
+    properties: {
+        code: { type: 'integer', format: 'int32' },
+        type: { type: 'string' },
+        message: { type: 'string' }
+    }
+};
@@ -0,0 +1,48 @@
+import { HttpMethod } from '../../middleware';
+
+/**
+ * Pattern of the error thrown by APIRequestContext.fetch when its timeout elapses
+ */
+const PLAYWRIGHT_TIMEOUT_PATTERN = /Timeout \d+ms exceeded/;
+
+/**
+ * Error thrown when a service request gets no response within its timeout
+ * Not matched by the retry middleware: a hung endpoint is reported instead of being replayed
+ */
+export class ApiTimeoutError extends Error {
+    readonly method: HttpMethod;
+
+    /** URL of the request, secrets redacted (the message ends up in reports and CI logs) */
+    readonly url: string;
+
+    /** Time spent waiting before the request was aborted */
+    readonly elapsedMs: number;
+
+    /** Timeout the request was sent with */
+    readonly timeoutMs: number;
+
+    /**
+     * Constructor to initialize the error
+     * @param method - HTTP method of the request
+     * @param url - URL of the request, secrets redacted
+     * @param elapsedMs - Time spent waiting
+     * @param timeoutMs - Timeout the request was sent with
+     */
+    constructor(method: HttpMethod, url: string, elapsedMs: number, timeoutMs: number) {
+        super(`${method} ${url} timed out after ${elapsedMs}ms (timeout ${timeoutMs}ms)`);
+        this.name = 'ApiTimeoutError';
+        this.method = method;
+        this.url = url;
+        this.elapsedMs = elapsedMs;
+        this.timeoutMs = timeoutMs;
+    }
+
+    /**
+     * Check whether an error thrown by APIRequestContext.fetch is a timeout
+     * @param error - Thrown value
+     * @returns true if the request timed out
+     */
+    static isPlaywrightTimeout(error: unknown): boolean {
+        return error instanceof Error && PLAYWRIGHT_TIMEOUT_PATTERN.test(error.message);
+    }
+}
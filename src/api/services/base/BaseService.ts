@@ -1,18 +1,79 @@
-import { APIRequestContext } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { JsonSchema } from '../../schemas';
+import { ApiRequestEcho, ServiceResponse } from '../../types';
+import { ApiMiddleware, ApiRequest, HttpMethod, RequestOptions, getGlobalMiddlewares, runPipeline } from '../../middleware';
+import { AuthProvider, authMiddleware, getDefaultAuthProvider } from '../../auth';
+import { ApiLogger, describeRequestBody, getApiLogger } from '../../logging';
+import { SentRequest, attachApiCall, recordSentRequest, runAsStep, toSentRequest } from '../../reporting';
+import { stringifyJson } from '../../json';
+import { TEST_CONFIG } from '../../../config';
+import { toServiceResponse } from './apiResult';
+import { ApiTimeoutError } from './ApiTimeoutError';
+
+export type { HttpMethod, RequestOptions } from '../../middleware';
+
+/**
+ * Header carrying the id shared by the log lines of one call
+ */
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+/**
+ * Number of sent requests each service keeps for sentRequests
+ */
+const SENT_REQUEST_HISTORY = 50;
+
+/**
+ * Service construction options
+ */
+export interface ServiceOptions {
+    /** Middlewares for this instance, run after the global ones */
+    middlewares?: ApiMiddleware[];
+
+    /** Do not apply the middlewares listed in TEST_CONFIG.api.middlewares */
+    skipGlobalMiddlewares?: boolean;
+
+    /** Credentials to send (defaults to the providers listed in TEST_CONFIG.auth.providers) */
+    auth?: AuthProvider;
+
+    /** Timeout of every request of this instance, replacing the endpoint and TEST_CONFIG.api.timeout defaults */
+    timeoutMs?: number;
+
+    /** Logger of the requests (defaults to the one configured by TEST_CONFIG.logging) */
+    logger?: ApiLogger;
+}
 
 /**
  * BaseService class that provides foundation for all API services
  * Implements common API request handling using Playwright's APIRequestContext
+ * Every request goes through the middleware pipeline: global middlewares from TEST_CONFIG first, then instance ones,
+ * then the auth provider's credentials
+ * Request timeout: the instance's timeoutMs, else the endpoint's, else TEST_CONFIG.api.timeout
+ * Each attempt is logged as JSON lines sharing the call's correlation id (sent as X-Correlation-Id)
+ * Inside a test, each call is a report step with the request and response attached
  */
 export class BaseService {
     protected request: APIRequestContext;
+    private readonly middlewares: ApiMiddleware[];
+    private readonly auth: AuthProvider;
+    private readonly timeoutMs?: number;
+    private readonly logger: ApiLogger;
+    private readonly history: SentRequest[] = [];
 
     /**
      * Constructor to initialize the service with APIRequestContext
      * @param request - Playwright's APIRequestContext instance
+     * @param options - Optional per-instance middlewares, auth provider, timeout and logger
      */
-    constructor(request: APIRequestContext) {
+    constructor(request: APIRequestContext, options: ServiceOptions = {}) {
         this.request = request;
+        this.middlewares = [
+            ...(options.skipGlobalMiddlewares ? [] : getGlobalMiddlewares()),
+            ...(options.middlewares || [])
+        ];
+        this.auth = options.auth || getDefaultAuthProvider();
+        this.timeoutMs = options.timeoutMs;
+        this.logger = options.logger || getApiLogger();
     }
 
     /**
@@ -22,4 +83,155 @@ export class BaseService {
     protected getRequestContext(): APIRequestContext {
         return this.request;
     }
+
+    /**
+     * Requests sent by this service, oldest first (the last 50)
+     * Render them with renderCurl() or renderHttpSnippet() to replay a call by hand
+     */
+    get sentRequests(): readonly SentRequest[] {
+        return this.history;
+    }
+
+    /**
+     * Append middlewares to this instance's pipeline
+     * @param middlewares - Middlewares to run after the existing ones
+     * @returns This service, for chaining
+     */
+    use(...middlewares: ApiMiddleware[]): this {
+        this.middlewares.push(...middlewares);
+        return this;
+    }
+
+    /**
+     * Copy of this service with extra middlewares, leaving this instance unchanged
+     * @param middlewares - Middlewares to run after the existing ones in the copy
+     * @returns Service of the same class and credentials
+     */
+    withMiddlewares(...middlewares: ApiMiddleware[]): this {
+        return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+            middlewares: [...this.middlewares, ...middlewares]
+        });
+    }
+
+    /**
+     * Copy of this service sending other credentials
+     * Use ANONYMOUS to check that protected operations reject unauthenticated calls
+     * @param auth - Auth provider for the copy
+     * @returns Service of the same class and middlewares, with the given credentials
+     */
+    withAuth(auth: AuthProvider): this {
+        return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+            middlewares: [...this.middlewares],
+            auth
+        });
+    }
+
+    /**
+     * Copy of this service sending its requests with another timeout
+     * @param timeoutMs - Timeout of every request of the copy, endpoint overrides included
+     * @returns Service of the same class, middlewares and credentials
+     */
+    withTimeout(timeoutMs: number): this {
+        return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+            middlewares: [...this.middlewares],
+            timeoutMs
+        });
+    }
+
+    /**
+     * Send a request through the middleware pipeline, time it, log it and attach it to the report
+     * Accept (and Content-Type for JSON bodies) default to application/json unless the call sets them
+     * @param method - HTTP method
+     * @param url - URL relative to the base URL
+     * @param options - Body, form, multipart, headers, query params and the endpoint's timeout
+     * @param schema - Optional schema a 2xx body must match in result()
+     * @returns APIResponse with result() giving the typed view of the call
+     * @throws ApiTimeoutError if no response arrives within the timeout
+     */
+    protected async send<T>(
+        method: HttpMethod,
+        url: string,
+        options: RequestOptions = {},
+        schema?: JsonSchema<T>
+    ): Promise<ServiceResponse<T>> {
+        const correlationId = randomUUID();
+        const headers: Record<string, string> = { 'Accept': 'application/json', [CORRELATION_ID_HEADER]: correlationId };
+        if (options.data !== undefined) headers['Content-Type'] = 'application/json';
+
+        const request: ApiRequest = {
+            method,
+            url,
+            options: {
+                ...options,
+                headers: { ...headers, ...options.headers },
+                timeout: this.timeoutMs ?? options.timeout ?? TEST_CONFIG.api.timeout
+            },
+            service: this.constructor.name
+        };
+
+        return runAsStep(`${request.service}: ${method} ${this.logger.redactor.text(url)}`, async () => {
+            let sent = request;
+            let elapsedMs = 0;
+            let attempt = 0;
+            const attachments = { redactor: this.logger.redactor, maxBodyBytes: TEST_CONFIG.reporting.apiCalls.maxBodyBytes };
+
+            let response: APIResponse;
+            try {
+                response = await runPipeline([...this.middlewares, authMiddleware(this.auth)], request, async (final): Promise<APIResponse> => {
+                    sent = final;
+                    const call = { correlationId, attempt: ++attempt };
+                    this.logger.request(final, call);
+
+                    const startedAt = Date.now();
+                    let received: APIResponse;
+                    try {
+                        received = await this.request.fetch(final.url, { ...final.options, data: serializeData(final.options.data), method: final.method });
+                    } catch (error) {
+                        elapsedMs = Date.now() - startedAt;
+                        const failure = ApiTimeoutError.isPlaywrightTimeout(error)
+                            ? new ApiTimeoutError(final.method, this.logger.redactor.text(final.url), elapsedMs, final.options.timeout ?? 0)
+                            : error;
+                        this.logger.failure(final, failure, elapsedMs, call);
+                        throw failure;
+                    }
+                    elapsedMs = Date.now() - startedAt;
+                    await this.logger.response(final, received, elapsedMs, call);
+                    return received;
+                });
+            } catch (error) {
+                this.remember(toSentRequest(sent));
+                await attachApiCall({ request: sent, error, durationMs: elapsedMs }, attachments);
+                throw error;
+            }
+            this.remember(toSentRequest(sent, response.url()));
+            await attachApiCall({ request: sent, response, durationMs: elapsedMs }, attachments);
+
+            const echo: ApiRequestEcho = {
+                method: sent.method,
+                url: response.url(),
+                headers: sent.options.headers,
+                body: describeRequestBody(sent.options)
+            };
+            return toServiceResponse(response, echo, elapsedMs, schema);
+        }, true);
+    }
+
+    /**
+     * Keep a sent request in this service's history and in the running test's list
+     * @param sent - Request as sent
+     */
+    private remember(sent: SentRequest): void {
+        this.history.push(sent);
+        if (this.history.length > SENT_REQUEST_HISTORY) this.history.shift();
+        recordSentRequest(sent);
+    }
+}
+
+/**
+ * Serialize a JSON request body, writing bigint ids as exact JSON numbers (Playwright rejects bigints)
+ * @param data - Request data
+ * @returns JSON text for objects and arrays; strings, buffers and undefined unchanged
+ */
+function serializeData(data: RequestOptions['data']): RequestOptions['data'] {
+    return data === undefined || typeof data === 'string' || Buffer.isBuffer(data) ? data : stringifyJson(data);
 }
@@ -0,0 +1,91 @@
+/**
+ * API Result Builder
+ * Turns a raw APIResponse into the typed ApiResult exposed by ServiceResponse.result()
+ */
+
+import { APIResponse } from '@playwright/test';
+import { JsonSchema, assertSchema } from '../../schemas';
+import { parseJson } from '../../json';
+import { ApiMessage, ApiRequestEcho, ApiResult, ServiceResponse } from '../../types';
+
+/**
+ * Parse a response body as JSON, falling back to the raw text
+ * @param response - API response object
+ * @returns Parsed JSON, the text if it is not JSON, or undefined for an empty body
+ */
+async function readBody(response: APIResponse): Promise<unknown> {
+    const text = await response.text();
+    if (text.length === 0) return undefined;
+
+    try {
+        return parseJson(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Read the Petstore message of an error response
+ * @param body - Parsed error body
+ * @returns Message body; non-JSON bodies become the message text
+ */
+function toApiMessage(body: unknown): ApiMessage {
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+        const { code, type, message } = body as ApiMessage;
+        return { code, type, message };
+    }
+    return { message: body === undefined ? undefined : String(body) };
+}
+
+/**
+ * Build the typed result of a response
+ * @param response - API response object
+ * @param request - Echo of the request that produced the response
+ * @param elapsedMs - Time the request took, in milliseconds
+ * @param schema - Optional schema a 2xx body must match
+ * @returns Typed result
+ * @throws SchemaValidationError if a 2xx body does not match the schema
+ */
+export async function createApiResult<T>(
+    response: APIResponse,
+    request: ApiRequestEcho,
+    elapsedMs: number,
+    schema?: JsonSchema<T>
+): Promise<ApiResult<T>> {
+    const body = await readBody(response);
+    const base = {
+        status: response.status(),
+        headers: response.headers(),
+        elapsedMs,
+        request,
+        response
+    };
+
+    if (response.ok()) {
+        return { ...base, ok: true, body: schema ? assertSchema(body, schema) : body as T };
+    }
+    return { ...base, ok: false, error: toApiMessage(body) };
+}
+
+/**
+ * Attach result() to a response, and replace json() by the lossless parser
+ * The typed result is built on first use so callers that only need the APIResponse pay nothing
+ * @param response - API response object
+ * @param request - Echo of the request that produced the response
+ * @param elapsedMs - Time the request took, in milliseconds
+ * @param schema - Optional schema a 2xx body must match
+ * @returns The same response, typed as ServiceResponse
+ */
+export function toServiceResponse<T>(
+    response: APIResponse,
+    request: ApiRequestEcho,
+    elapsedMs: number,
+    schema?: JsonSchema<T>
+): ServiceResponse<T> {
+    let result: Promise<ApiResult<T>> | undefined;
+    const text = response.text.bind(response);
+    return Object.assign(response, {
+        json: async () => parseJson(await text()),
+        result: () => (result ??= createApiResult(response, request, elapsedMs, schema))
+    });
+}
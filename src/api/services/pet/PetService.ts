@@ -1,7 +1,8 @@
-import { APIRequestContext, APIResponse } from '@playwright/test';
-import { BaseService } from '../base/BaseService';
-import { Pet } from '../../types';
-import { PET_ENDPOINTS } from '../../../config';
+import { APIRequestContext } from '@playwright/test';
+import { BaseService, ServiceOptions } from '../base/BaseService';
+import { ApiMessage, Int64, InvalidPayload, Pet, PetStatus, ServiceResponse } from '../../types';
+import { PET_LIST_SCHEMA, PET_SCHEMA } from '../../schemas';
+import { PET_ENDPOINTS, buildUrl } from '../../../config';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -13,24 +14,21 @@ export class PetService extends BaseService {
     /**
      * Constructor to initialize PetService
      * @param request - Playwright's APIRequestContext instance
+     * @param options - Optional per-instance middlewares
      */
-    constructor(request: APIRequestContext) {
-        super(request);
+    constructor(request: APIRequestContext, options?: ServiceOptions) {
+        super(request, options);
     }
 
     /**
      * Create a new pet in the store
-     * @param petData - Pet data to create
+     * @param petData - Pet data to create, or an invalid payload for negative tests
      * @returns APIResponse containing the created pet
      */
-    async createPet(petData: Pet): Promise<APIResponse> {
-        return await this.request.post(PET_ENDPOINTS.BASE, {
-            data: petData,
-            headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-            }
-        });
+    async createPet(petData: Pet | InvalidPayload<Pet>): Promise<ServiceResponse<Pet>> {
+        return await this.send('POST', buildUrl(PET_ENDPOINTS.BASE), {
+            data: petData
+        }, PET_SCHEMA);
     }
 
     /**
@@ -38,27 +36,19 @@ export class PetService extends BaseService {
      * @param petId - The ID of the pet to retrieve
      * @returns APIResponse containing the pet data
      */
-    async getPet(petId: number): Promise<APIResponse> {
-        return await this.request.get(PET_ENDPOINTS.BY_ID(petId), {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async getPet(petId: Int64): Promise<ServiceResponse<Pet>> {
+        return await this.send('GET', buildUrl(PET_ENDPOINTS.BY_ID, { petId }), {}, PET_SCHEMA);
     }
 
     /**
      * Update an existing pet
-     * @param petData - Updated pet data (must include ID)
+     * @param petData - Updated pet data (must include ID), or an invalid payload for negative tests
      * @returns APIResponse containing the updated pet
      */
-    async updatePet(petData: Pet): Promise<APIResponse> {
-        return await this.request.put(PET_ENDPOINTS.BASE, {
-            data: petData,
-            headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-            }
-        });
+    async updatePet(petData: Pet | InvalidPayload<Pet>): Promise<ServiceResponse<Pet>> {
+        return await this.send('PUT', buildUrl(PET_ENDPOINTS.BASE), {
+            data: petData
+        }, PET_SCHEMA);
     }
 
     /**
@@ -66,28 +56,34 @@ export class PetService extends BaseService {
      * @param petId - The ID of the pet to delete
      * @returns APIResponse confirming deletion
      */
-    async deletePet(petId: number): Promise<APIResponse> {
-        return await this.request.delete(PET_ENDPOINTS.BY_ID(petId), {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async deletePet(petId: Int64): Promise<ServiceResponse<ApiMessage>> {
+        return await this.send('DELETE', buildUrl(PET_ENDPOINTS.BY_ID, { petId }));
     }
 
     /**
      * Find pets by status
-     * @param status - Pet status to filter by
+     * @param status - Pet status to filter by (any string, to allow negative tests)
      * @returns APIResponse containing array of pets
      */
-    async findPetsByStatus(status: string): Promise<APIResponse> {
-        return await this.request.get(PET_ENDPOINTS.BY_STATUS(status), {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async findPetsByStatus(status: string): Promise<ServiceResponse<Pet[]>>;
+    /**
+     * Find pets matching any of several statuses
+     * @param statuses - Statuses, sent as repeated query parameters (status=available&status=sold)
+     * @returns APIResponse containing array of pets
+     */
+    async findPetsByStatus(statuses: PetStatus[]): Promise<ServiceResponse<Pet[]>>;
+    async findPetsByStatus(status: string | PetStatus[]): Promise<ServiceResponse<Pet[]>> {
+        return await this.send('GET', buildUrl(PET_ENDPOINTS.BY_STATUS, { status }), {}, PET_LIST_SCHEMA);
     }
 
-
+    /**
+     * Find pets having any of the given tags
+     * @param tags - Tag names, sent as repeated URL-encoded query parameters (tags=a&tags=b)
+     * @returns APIResponse containing array of pets
+     */
+    async findPetsByTags(tags: string[]): Promise<ServiceResponse<Pet[]>> {
+        return await this.send('GET', buildUrl(PET_ENDPOINTS.BY_TAGS, { tags }), {}, PET_LIST_SCHEMA);
+    }
 
     /**
      * Upload an image for a pet
@@ -96,7 +92,7 @@ export class PetService extends BaseService {
      * @param additionalMetadata - Optional metadata about the image
      * @returns APIResponse confirming upload
      */
-    async uploadImage(petId: number, filePath: string, additionalMetadata?: string): Promise<APIResponse> {
+    async uploadImage(petId: Int64, filePath: string, additionalMetadata?: string): Promise<ServiceResponse<ApiMessage>> {
         let fileBuffer: Buffer;
         let fileName: string;
 
@@ -128,8 +124,9 @@ export class PetService extends BaseService {
             multipartPayload.additionalMetadata = additionalMetadata;
         }
 
-        return await this.request.post(`${PET_ENDPOINTS.BY_ID(petId)}/uploadImage`, {
-            multipart: multipartPayload
+        return await this.send('POST', buildUrl(PET_ENDPOINTS.UPLOAD_IMAGE, { petId }), {
+            multipart: multipartPayload,
+            timeout: PET_ENDPOINTS.UPLOAD_IMAGE.timeoutMs
         });
     }
 
@@ -140,16 +137,13 @@ export class PetService extends BaseService {
      * @param status - Updated status
      * @returns APIResponse confirming update
      */
-    async updatePetWithForm(petId: number, name?: string, status?: string): Promise<APIResponse> {
+    async updatePetWithForm(petId: Int64, name?: string, status?: string): Promise<ServiceResponse<ApiMessage>> {
         const formData: Record<string, string> = {};
         if (name) formData.name = name;
         if (status) formData.status = status;
 
-        return await this.request.post(PET_ENDPOINTS.BY_ID(petId), {
-            form: formData,
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded'
-            }
+        return await this.send('POST', buildUrl(PET_ENDPOINTS.BY_ID, { petId }), {
+            form: formData
         });
     }
 }
@@ -1,7 +1,8 @@
-import { APIRequestContext, APIResponse } from '@playwright/test';
-import { BaseService } from '../base/BaseService';
-import { Order } from '../../types';
-import { STORE_ENDPOINTS } from '../../../config';
+import { APIRequestContext } from '@playwright/test';
+import { BaseService, ServiceOptions } from '../base/BaseService';
+import { ApiMessage, Int64, Inventory, InvalidPayload, Order, ServiceResponse } from '../../types';
+import { INVENTORY_SCHEMA, ORDER_SCHEMA } from '../../schemas';
+import { STORE_ENDPOINTS, buildUrl } from '../../../config';
 
 /**
  * StoreService class implementing operations for Store resources
@@ -12,9 +13,10 @@ export class StoreService extends BaseService {
     /**
      * Constructor to initialize StoreService
      * @param request - Playwright's APIRequestContext instance
+     * @param options - Optional per-instance middlewares
      */
-    constructor(request: APIRequestContext) {
-        super(request);
+    constructor(request: APIRequestContext, options?: ServiceOptions) {
+        super(request, options);
     }
 
     /**
@@ -22,27 +24,21 @@ export class StoreService extends BaseService {
      * Returns a map of status codes to quantities
      * @returns APIResponse containing inventory data
      */
-    async getInventory(): Promise<APIResponse> {
-        return await this.request.get(STORE_ENDPOINTS.INVENTORY, {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async getInventory(): Promise<ServiceResponse<Inventory>> {
+        return await this.send('GET', buildUrl(STORE_ENDPOINTS.INVENTORY), {
+            timeout: STORE_ENDPOINTS.INVENTORY.timeoutMs
+        }, INVENTORY_SCHEMA);
     }
 
     /**
      * Place an order for a pet
-     * @param orderData - Order data to create
+     * @param orderData - Order data to create, or an invalid payload for negative tests
      * @returns APIResponse containing the created order
      */
-    async placeOrder(orderData: Order): Promise<APIResponse> {
-        return await this.request.post(STORE_ENDPOINTS.ORDER, {
-            data: orderData,
-            headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-            }
-        });
+    async placeOrder(orderData: Order | InvalidPayload<Order>): Promise<ServiceResponse<Order>> {
+        return await this.send('POST', buildUrl(STORE_ENDPOINTS.ORDER), {
+            data: orderData
+        }, ORDER_SCHEMA);
     }
 
     /**
@@ -51,12 +47,8 @@ export class StoreService extends BaseService {
      * @param orderId - The ID of the order to retrieve
      * @returns APIResponse containing the order data
      */
-    async getOrderById(orderId: number): Promise<APIResponse> {
-        return await this.request.get(STORE_ENDPOINTS.ORDER_BY_ID(orderId), {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async getOrderById(orderId: Int64): Promise<ServiceResponse<Order>> {
+        return await this.send('GET', buildUrl(STORE_ENDPOINTS.ORDER_BY_ID, { orderId }), {}, ORDER_SCHEMA);
     }
 
     /**
@@ -65,11 +57,7 @@ export class StoreService extends BaseService {
      * @param orderId - The ID of the order to delete
      * @returns APIResponse confirming deletion
      */
-    async deleteOrder(orderId: number): Promise<APIResponse> {
-        return await this.request.delete(STORE_ENDPOINTS.ORDER_BY_ID(orderId), {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async deleteOrder(orderId: Int64): Promise<ServiceResponse<ApiMessage>> {
+        return await this.send('DELETE', buildUrl(STORE_ENDPOINTS.ORDER_BY_ID, { orderId }));
     }
 }
@@ -1,7 +1,9 @@
-import { APIRequestContext, APIResponse } from '@playwright/test';
-import { BaseService } from '../base/BaseService';
-import { User } from '../../types';
-import { USER_ENDPOINTS } from '../../../config';
+import { APIRequestContext } from '@playwright/test';
+import { BaseService, ServiceOptions } from '../base/BaseService';
+import { ApiMessage, InvalidPayload, LoginResponse, ServiceResponse, User } from '../../types';
+import { LOGIN_RESPONSE_SCHEMA, USER_SCHEMA } from '../../schemas';
+import { USER_ENDPOINTS, buildUrl } from '../../../config';
+import { LoginServiceResponse, UserSession } from './UserSession';
 
 /**
  * UserService class implementing operations for User resources
@@ -9,26 +11,43 @@ import { USER_ENDPOINTS } from '../../../config';
  * Extends BaseService to leverage APIRequestContext
  */
 export class UserService extends BaseService {
+    private session?: UserSession;
+
     /**
      * Constructor to initialize UserService
      * @param request - Playwright's APIRequestContext instance
+     * @param options - Optional per-instance middlewares
      */
-    constructor(request: APIRequestContext) {
-        super(request);
+    constructor(request: APIRequestContext, options?: ServiceOptions) {
+        super(request, options);
+    }
+
+    /**
+     * Session this service sends requests for, if bound with asUser()
+     */
+    get currentSession(): UserSession | undefined {
+        return this.session;
+    }
+
+    /**
+     * Copy of this service sending requests for a logged-in user
+     * @param session - Session returned by login()
+     * @returns UserService carrying the session token on every request
+     */
+    asUser(session: UserSession): UserService {
+        const bound = this.withMiddlewares(session.middleware());
+        bound.session = session;
+        return bound;
     }
 
     /**
      * Create a new user
-     * @param userData - User data to create
+     * @param userData - User data to create, or an invalid payload for negative tests
      * @returns APIResponse confirming user creation
      */
-    async createUser(userData: User): Promise<APIResponse> {
-        return await this.request.post(USER_ENDPOINTS.BASE, {
-            data: userData,
-            headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-            }
+    async createUser(userData: User | InvalidPayload<User>): Promise<ServiceResponse<ApiMessage>> {
+        return await this.send('POST', buildUrl(USER_ENDPOINTS.BASE), {
+            data: userData
         });
     }
 
@@ -37,13 +56,9 @@ export class UserService extends BaseService {
      * @param users - Array of users to create
      * @returns APIResponse confirming users creation
      */
-    async createUsersWithArray(users: User[]): Promise<APIResponse> {
-        return await this.request.post(USER_ENDPOINTS.CREATE_WITH_ARRAY, {
-            data: users,
-            headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-            }
+    async createUsersWithArray(users: User[]): Promise<ServiceResponse<ApiMessage>> {
+        return await this.send('POST', buildUrl(USER_ENDPOINTS.CREATE_WITH_ARRAY), {
+            data: users
         });
     }
 
@@ -52,13 +67,9 @@ export class UserService extends BaseService {
      * @param users - Array of users to create
      * @returns APIResponse confirming users creation
      */
-    async createUsersWithList(users: User[]): Promise<APIResponse> {
-        return await this.request.post(USER_ENDPOINTS.CREATE_WITH_LIST, {
-            data: users,
-            headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-            }
+    async createUsersWithList(users: User[]): Promise<ServiceResponse<ApiMessage>> {
+        return await this.send('POST', buildUrl(USER_ENDPOINTS.CREATE_WITH_LIST), {
+            data: users
         });
     }
 
@@ -67,27 +78,19 @@ export class UserService extends BaseService {
      * @param username - Username to retrieve
      * @returns APIResponse containing user data
      */
-    async getUserByUsername(username: string): Promise<APIResponse> {
-        return await this.request.get(USER_ENDPOINTS.BY_USERNAME(username), {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async getUserByUsername(username: string): Promise<ServiceResponse<User>> {
+        return await this.send('GET', buildUrl(USER_ENDPOINTS.BY_USERNAME, { username }), {}, USER_SCHEMA);
     }
 
     /**
      * Update user information
      * @param username - Username to update
-     * @param userData - Updated user data
+     * @param userData - Updated user data, or an invalid payload for negative tests
      * @returns APIResponse confirming update
      */
-    async updateUser(username: string, userData: User): Promise<APIResponse> {
-        return await this.request.put(USER_ENDPOINTS.BY_USERNAME(username), {
-            data: userData,
-            headers: {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-            }
+    async updateUser(username: string, userData: User | InvalidPayload<User>): Promise<ServiceResponse<ApiMessage>> {
+        return await this.send('PUT', buildUrl(USER_ENDPOINTS.BY_USERNAME, { username }), {
+            data: userData
         });
     }
 
@@ -96,37 +99,37 @@ export class UserService extends BaseService {
      * @param username - Username to delete
      * @returns APIResponse confirming deletion
      */
-    async deleteUser(username: string): Promise<APIResponse> {
-        return await this.request.delete(USER_ENDPOINTS.BY_USERNAME(username), {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async deleteUser(username: string): Promise<ServiceResponse<ApiMessage>> {
+        return await this.send('DELETE', buildUrl(USER_ENDPOINTS.BY_USERNAME, { username }));
     }
 
     /**
      * User login
      * @param username - Username for login
      * @param password - Password for login
-     * @returns APIResponse containing login session info
+     * @returns APIResponse containing login session info, with the opened session when the login succeeded
+     * @throws Error if a successful login carries no session token
      */
-    async login(username: string, password: string): Promise<APIResponse> {
-        return await this.request.get(`${USER_ENDPOINTS.LOGIN}?username=${username}&password=${password}`, {
-            headers: {
-                'Accept': 'application/json'
-            }
+    async login(username: string, password: string): Promise<LoginServiceResponse> {
+        const response = await this.send('GET', buildUrl(USER_ENDPOINTS.LOGIN, { username, password }), {}, LOGIN_RESPONSE_SCHEMA);
+        return Object.assign(response, {
+            session: response.ok() ? await UserSession.fromLoginResponse(username, response) : undefined
         });
     }
 
     /**
      * User logout
+     * Invalidates the session once the server confirms the logout
+     * @param session - Session to close (defaults to the session bound with asUser())
      * @returns APIResponse confirming logout
      */
-    async logout(): Promise<APIResponse> {
-        return await this.request.get(USER_ENDPOINTS.LOGOUT, {
-            headers: {
-                'Accept': 'application/json'
-            }
-        });
+    async logout(session: UserSession | undefined = this.session): Promise<ServiceResponse<ApiMessage>> {
+        if (session && session !== this.session) {
+            return await this.asUser(session).logout();
+        }
+
+        const response = await this.send<ApiMessage>('GET', buildUrl(USER_ENDPOINTS.LOGOUT));
+        if (response.ok()) session?.invalidate();
+        return response;
     }
 }
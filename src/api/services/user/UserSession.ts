@@ -0,0 +1,122 @@
+import { APIResponse } from '@playwright/test';
+import { getApiLogger } from '../../logging';
+import { ApiMiddleware } from '../../middleware';
+import { LoginResponse, ServiceResponse } from '../../types';
+
+/**
+ * Header carrying the session token on requests sent for a logged-in user
+ */
+export const SESSION_TOKEN_HEADER = 'X-Session-Token';
+
+/**
+ * Pattern of the Petstore login message ("logged in user session:1697031234567")
+ */
+const SESSION_MESSAGE_PATTERN = /logged in user session:\s*(\S+)/;
+
+/**
+ * Login response giving access to the session it opened
+ */
+export interface LoginServiceResponse extends ServiceResponse<LoginResponse> {
+    /** Session opened by the login, undefined if the login failed */
+    session?: UserSession;
+}
+
+/**
+ * UserSession class holding the state of one logged-in user
+ * Built from the login response: token from the message, limits from the X-Rate-Limit and X-Expires-After headers.
+ * Several sessions can be open at once; bind one to a service with UserService.asUser(session).
+ */
+export class UserSession {
+    readonly username: string;
+    readonly token: string;
+
+    /** Calls per hour allowed for the session (X-Rate-Limit), if advertised */
+    readonly rateLimit?: number;
+
+    /** Expiry of the session (X-Expires-After), if advertised */
+    readonly expiresAt?: Date;
+
+    private loggedOut = false;
+
+    /**
+     * Constructor to initialize UserSession
+     * @param username - User who logged in
+     * @param token - Session token
+     * @param rateLimit - Calls per hour allowed, if known
+     * @param expiresAt - Expiry time, if known
+     */
+    constructor(username: string, token: string, rateLimit?: number, expiresAt?: Date) {
+        this.username = username;
+        this.token = token;
+        this.rateLimit = rateLimit;
+        this.expiresAt = expiresAt;
+    }
+
+    /**
+     * Open a session from a successful login response
+     * @param username - User who logged in
+     * @param response - Login response
+     * @returns Session of the user
+     * @throws Error if the login message carries no session token
+     */
+    static async fromLoginResponse(username: string, response: APIResponse): Promise<UserSession> {
+        const body = await response.json().catch(() => undefined) as LoginResponse | undefined;
+        const token = SESSION_MESSAGE_PATTERN.exec(body?.message || '')?.[1];
+        if (!token) {
+            throw new Error(`Login of "${username}" returned no session token (message: ${JSON.stringify(body?.message)})`);
+        }
+
+        const headers = response.headers();
+        const rateLimit = Number.parseInt(headers['x-rate-limit'] ?? '', 10);
+        const expiresAt = new Date(headers['x-expires-after'] ?? '');
+
+        return new UserSession(
+            username,
+            token,
+            Number.isNaN(rateLimit) ? undefined : rateLimit,
+            Number.isNaN(expiresAt.getTime()) ? undefined : expiresAt
+        );
+    }
+
+    /**
+     * Whether the session expired (false when the server gave no expiry)
+     */
+    get expired(): boolean {
+        return this.expiresAt !== undefined && this.expiresAt.getTime() <= Date.now();
+    }
+
+    /**
+     * Whether requests can still be sent for this session
+     */
+    get active(): boolean {
+        return !this.loggedOut && !this.expired;
+    }
+
+    /**
+     * Mark the session as logged out
+     */
+    invalidate(): void {
+        this.loggedOut = true;
+    }
+
+    /**
+     * Create the middleware sending the session token with every request
+     * @returns Session middleware
+     * @throws Error from the middleware if the session is logged out or expired
+     */
+    middleware(): ApiMiddleware {
+        return {
+            name: 'session',
+            handle: async (request, next) => {
+                if (!this.active) {
+                    const url = getApiLogger().redactor.text(request.url);
+                    throw new Error(`Session of "${this.username}" is ${this.loggedOut ? 'logged out' : 'expired'}: ${request.method} ${url} not sent`);
+                }
+                return next({
+                    ...request,
+                    options: { ...request.options, headers: { ...request.options.headers, [SESSION_TOKEN_HEADER]: this.token } }
+                });
+            }
+        };
+    }
+}
@@ -3,6 +3,12 @@
  * Provides centralized import point for type definitions
  */
 
+// Int64 ids
+export type { Int64 } from './int64.types';
+
+// Deliberately invalid request bodies
+export type { InvalidPayload } from './payload.types';
+
 // Pet-related types
 export type {
     Pet,
@@ -25,3 +31,13 @@ export type {
     User,
     LoginResponse
 } from './user.types';
+
+// Service call results
+export type {
+    ApiMessage,
+    ApiRequestEcho,
+    ApiSuccess,
+    ApiFailure,
+    ApiResult,
+    ServiceResponse
+} from './result.types';
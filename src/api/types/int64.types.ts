@@ -0,0 +1,10 @@
+/**
+ * Int64 Type
+ * Type of the ids the Petstore declares as int64
+ */
+
+/**
+ * Signed 64-bit integer: a number when it fits Number.MAX_SAFE_INTEGER, a bigint otherwise
+ * Service responses are parsed this way (see src/api/json), so ids such as 9223372036854775807 are not rounded
+ */
+export type Int64 = number | bigint;
@@ -0,0 +1,15 @@
+/**
+ * Payload Types
+ * Types of request bodies sent on purpose in the wrong shape
+ */
+
+/**
+ * Type-only brand; no payload carries it at runtime
+ */
+declare const invalidPayload: unique symbol;
+
+/**
+ * Body that deliberately breaks the schema of T (missing required field, value outside an enum, ...)
+ * Only the fixture builders' buildInvalid() produces it; services taking T accept it for negative tests
+ */
+export type InvalidPayload<T> = Record<string, unknown> & { readonly [invalidPayload]: T };
@@ -3,11 +3,13 @@
  * Contains all interfaces and types related to Pet resources
  */
 
+import type { Int64 } from './int64.types';
+
 /**
  * Pet category interface
  */
 export interface PetCategory {
-    id: number;
+    id: Int64;
     name: string;
 }
 
@@ -15,7 +17,7 @@ export interface PetCategory {
  * Pet tag interface
  */
 export interface PetTag {
-    id: number;
+    id: Int64;
     name: string;
 }
 
@@ -28,7 +30,7 @@ export type PetStatus = 'available' | 'pending' | 'sold';
  * Pet interface - main data structure for Pet resource
  */
 export interface Pet {
-    id?: number;
+    id?: Int64;
     category?: PetCategory;
     name: string;
     photoUrls: string[];
@@ -40,7 +42,7 @@ export interface Pet {
  * Pet creation payload - data required to create a new pet
  */
 export interface CreatePetPayload {
-    id?: number;
+    id?: Int64;
     name: string;
     photoUrls: string[];
     status: PetStatus;
@@ -52,5 +54,5 @@ export interface CreatePetPayload {
  * Pet update payload - data for updating an existing pet
  */
 export interface UpdatePetPayload extends Pet {
-    id: number; // ID is required for updates
+    id: Int64; // ID is required for updates
 }
@@ -0,0 +1,87 @@
+/**
+ * API Result Types
+ * Typed view of a service call: status, headers, parsed body or error body, timing and request echo
+ */
+
+import type { APIResponse } from '@playwright/test';
+
+/**
+ * Petstore message body ({ code, type, message }) returned by writes and by most errors
+ */
+export interface ApiMessage {
+    /** Response code */
+    code?: number;
+
+    /** Response type (e.g. "unknown", "error") */
+    type?: string;
+
+    /** Human readable message */
+    message?: string;
+}
+
+/**
+ * Echo of the request that produced a result
+ */
+export interface ApiRequestEcho {
+    method: string;
+
+    /** Resolved request URL, including the query string */
+    url: string;
+
+    headers: Record<string, string>;
+
+    /** JSON, form or multipart payload (file contents replaced by name, type and size) */
+    body?: unknown;
+}
+
+/**
+ * Fields shared by successful and failed results
+ */
+interface ApiResultBase {
+    status: number;
+    headers: Record<string, string>;
+
+    /** Time between sending the request and receiving the response headers, in milliseconds */
+    elapsedMs: number;
+
+    request: ApiRequestEcho;
+
+    /** Underlying Playwright response */
+    response: APIResponse;
+}
+
+/**
+ * Result of a 2xx response; body is parsed as the operation's type
+ */
+export interface ApiSuccess<T> extends ApiResultBase {
+    ok: true;
+    body: T;
+    error?: undefined;
+}
+
+/**
+ * Result of a non-2xx response; error is the parsed Petstore message body
+ */
+export interface ApiFailure extends ApiResultBase {
+    ok: false;
+    body?: undefined;
+    error: ApiMessage;
+}
+
+/**
+ * Typed result of a service call, discriminated by `ok`
+ */
+export type ApiResult<T> = ApiSuccess<T> | ApiFailure;
+
+/**
+ * APIResponse returned by service methods
+ * Still a plain APIResponse for existing callers, with result() giving the typed view;
+ * json() parses losslessly, so int64 ids beyond Number.MAX_SAFE_INTEGER come back as exact bigints
+ */
+export interface ServiceResponse<T> extends APIResponse {
+    /**
+     * Build the typed result of the call (parsed once, then cached)
+     * @throws SchemaValidationError if a 2xx body does not match the operation's schema
+     */
+    result(): Promise<ApiResult<T>>;
+}
@@ -3,6 +3,8 @@
  * TypeScript type definitions for Store domain (Orders and Inventory)
  */
 
+import type { Int64 } from './int64.types';
+
 /**
  * Order status values
  */
@@ -13,10 +15,10 @@ export type OrderStatus = 'placed' | 'approved' | 'delivered';
  */
 export interface Order {
     /** Order ID */
-    id?: number;
+    id?: Int64;
 
     /** Pet ID being ordered */
-    petId?: number;
+    petId?: Int64;
 
     /** Quantity of pets ordered */
     quantity?: number;
@@ -3,12 +3,14 @@
  * TypeScript type definitions for User domain
  */
 
+import type { Int64 } from './int64.types';
+
 /**
  * User interface representing a system user
  */
 export interface User {
     /** User ID */
-    id?: number;
+    id?: Int64;
 
     /** Username for login */
     username?: string;
@@ -0,0 +1,104 @@
+/**
+ * Target Behavior Profiles
+ * Describes how the API under test responds to invalid or edge-case requests
+ */
+
+/**
+ * Available behavior profile names
+ * - swagger-public: the public petstore.swagger.io server (lenient, known quirks)
+ * - spec-strict: a server that follows the Petstore v2 specification
+ */
+export type BehaviorProfileName = 'swagger-public' | 'spec-strict';
+
+/**
+ * Expected HTTP status for each negative scenario that differs between targets
+ */
+export interface NegativeScenarioStatuses {
+    /** POST /pet without the required name field */
+    createPetWithoutName: number;
+
+    /** POST /pet without the required photoUrls field */
+    createPetWithoutPhotoUrls: number;
+
+    /** POST /pet with a status outside the PetStatus enum */
+    createPetWithInvalidStatus: number;
+
+    /** PUT /pet for an ID that does not exist */
+    updateNonExistentPet: number;
+
+    /** DELETE /pet/{petId} for an ID that does not exist */
+    deleteNonExistentPet: number;
+
+    /** GET /pet/findByStatus with a status outside the PetStatus enum */
+    findPetsByInvalidStatus: number;
+
+    /** PUT /user/{username} for a username that does not exist */
+    updateNonExistentUser: number;
+
+    /** Protected operation (api_key or petstore_auth) called without credentials */
+    requestWithoutCredentials: number;
+
+    /** Protected operation called with an unknown api_key or access token */
+    requestWithInvalidCredentials: number;
+}
+
+/**
+ * Behavior profile interface
+ */
+export interface BehaviorProfile {
+    name: BehaviorProfileName;
+    description: string;
+    expectedStatus: NegativeScenarioStatuses;
+}
+
+/**
+ * Behavior profile definitions
+ */
+export const BEHAVIOR_PROFILES: Record<BehaviorProfileName, BehaviorProfile> = {
+    'swagger-public': {
+        name: 'swagger-public',
+        description: 'Public petstore.swagger.io: accepts invalid payloads, upserts unknown resources and ignores credentials',
+        expectedStatus: {
+            createPetWithoutName: 200,
+            createPetWithoutPhotoUrls: 200,
+            createPetWithInvalidStatus: 200,
+            updateNonExistentPet: 200,
+            deleteNonExistentPet: 200,
+            findPetsByInvalidStatus: 200,
+            updateNonExistentUser: 200,
+            requestWithoutCredentials: 200,
+            requestWithInvalidCredentials: 200
+        }
+    },
+    'spec-strict': {
+        name: 'spec-strict',
+        description: 'Petstore v2 specification: validates input, rejects unknown resources and enforces credentials',
+        expectedStatus: {
+            createPetWithoutName: 405,
+            createPetWithoutPhotoUrls: 405,
+            createPetWithInvalidStatus: 405,
+            updateNonExistentPet: 404,
+            deleteNonExistentPet: 404,
+            findPetsByInvalidStatus: 400,
+            updateNonExistentUser: 404,
+            requestWithoutCredentials: 401,
+            requestWithInvalidCredentials: 403
+        }
+    }
+};
+
+/**
+ * Look up a behavior profile by name
+ * @param name - Profile name
+ * @returns The matching behavior profile
+ * @throws Error if the name is not a known profile
+ */
+export function getBehaviorProfile(name: string): BehaviorProfile {
+    const profile = BEHAVIOR_PROFILES[name as BehaviorProfileName];
+    if (!profile) {
+        throw new Error(
+            `Unknown behavior profile "${name}". Expected one of: ${Object.keys(BEHAVIOR_PROFILES).join(', ')}`
+        );
+    }
+    return profile;
+}
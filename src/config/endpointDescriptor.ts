@@ -0,0 +1,123 @@
+/**
+ * Endpoint Descriptors
+ * Declares path and query parameters of each endpoint and builds safely encoded URLs
+ *
+ * Usage:
+ *   const BY_ID = endpoint('pet/{petId}');
+ *   buildUrl(BY_ID, { petId: 42 });                                   // 'pet/42'
+ *   buildUrl(endpoint('user/login', ['username', 'password']), { username: 'a&b', password: 'p w' });
+ *                                                                     // 'user/login?username=a%26b&password=p%20w'
+ *   endpoint('pet/{petId}/uploadImage', [], { timeoutMs: 60_000 });   // slower than the default request timeout
+ */
+
+/**
+ * Names of the `{param}` placeholders of a path template
+ */
+export type PathParamNames<Path extends string> =
+    Path extends `${string}{${infer Param}}${infer Rest}` ? Param | PathParamNames<Rest> : never;
+
+/**
+ * Value accepted for a path parameter
+ */
+export type PathParamValue = string | number | bigint;
+
+/**
+ * Value accepted for a query parameter; arrays are sent as repeated parameters, undefined is omitted
+ */
+export type QueryParamValue = string | number | bigint | boolean | readonly (string | number | bigint | boolean)[] | undefined;
+
+/**
+ * Endpoint descriptor: a path template with its declared parameters
+ */
+export interface EndpointDescriptor<Path extends string = string, Query extends string = string> {
+    /** Path template relative to the base URL, e.g. "pet/{petId}" */
+    readonly path: Path;
+
+    /** Placeholders of the path template, all required */
+    readonly pathParams: readonly PathParamNames<Path>[];
+
+    /** Accepted query parameters, all optional */
+    readonly queryParams: readonly Query[];
+
+    /** Request timeout of the endpoint, replacing TEST_CONFIG.api.timeout (undefined = default) */
+    readonly timeoutMs?: number;
+}
+
+/**
+ * Per-endpoint settings
+ */
+export interface EndpointOptions {
+    /** Request timeout replacing TEST_CONFIG.api.timeout for this endpoint */
+    timeoutMs?: number;
+}
+
+/**
+ * Parameters accepted by an endpoint
+ */
+export type EndpointParams<E extends EndpointDescriptor> =
+    E extends EndpointDescriptor<infer Path, infer Query>
+        ? { [K in PathParamNames<Path>]: PathParamValue } & { [K in Query]?: QueryParamValue }
+        : never;
+
+/**
+ * Declare an endpoint
+ * @param path - Path template relative to the base URL, placeholders written as {name}
+ * @param queryParams - Query parameters the endpoint accepts
+ * @param options - Per-endpoint settings such as a timeout override
+ * @returns Endpoint descriptor
+ */
+export function endpoint<Path extends string, Query extends string = never>(
+    path: Path,
+    queryParams: readonly Query[] = [],
+    options: EndpointOptions = {}
+): EndpointDescriptor<Path, Query> {
+    const pathParams = [...path.matchAll(/\{([^}]+)\}/g)].map(match => match[1] as PathParamNames<Path>);
+    return { path, pathParams, queryParams, ...options };
+}
+
+/**
+ * Build the relative URL of an endpoint
+ * Path parameters are encoded as a single segment ("/", "#", "&" and spaces included);
+ * query parameters are URL-encoded, repeated for arrays and sent in declaration order.
+ * @param descriptor - Endpoint to call
+ * @param params - Path and query parameter values (optional when the endpoint has no path parameters)
+ * @returns URL relative to the base URL
+ * @throws Error if a path parameter is missing or a parameter is not declared by the endpoint
+ */
+export function buildUrl<E extends EndpointDescriptor>(
+    descriptor: E,
+    ...[params]: E['pathParams'] extends readonly never[] ? [params?: EndpointParams<E>] : [params: EndpointParams<E>]
+): string {
+    const values: Record<string, QueryParamValue> = params ?? {};
+
+    const undeclared = Object.keys(values).filter(name =>
+        !(descriptor.pathParams as readonly string[]).includes(name) && !descriptor.queryParams.includes(name)
+    );
+    if (undeclared.length > 0) {
+        throw new Error(`Undeclared parameter(s) ${undeclared.map(name => `"${name}"`).join(', ')} for endpoint "${descriptor.path}"`);
+    }
+
+    const path = descriptor.path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+        const value = values[name];
+        if (value === undefined || value === '' || Array.isArray(value)) {
+            throw new Error(`Missing path parameter "${name}" for endpoint "${descriptor.path}"`);
+        }
+        return encodeURIComponent(String(value));
+    });
+
+    const query = descriptor.queryParams
+        .flatMap(name => toArray(values[name]).map(value => `${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`))
+        .join('&');
+
+    return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Normalize a query value to the list of values to send
+ * @param value - Query parameter value
+ * @returns Values, empty when the parameter is omitted
+ */
+function toArray(value: QueryParamValue): readonly (string | number | bigint | boolean)[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value as string | number | bigint | boolean];
+}
@@ -1,48 +1,44 @@
 /**
  * API Endpoints Configuration
  * Centralized management of all API endpoints
+ * Build request URLs with buildUrl() so parameters are always encoded
+ * Endpoints that are slower or faster than the rest declare their own timeoutMs
+ * The generated clients (src/api/generated) reuse these descriptors; npm run generate:api checks them against the spec
  */
 
-import * as dotenv from 'dotenv';
-dotenv.config();
-
-/**
- * Base API configuration
- */
-export const API_CONFIG = {
-    BASE_URL: process.env.API_BASE_URL || 'https://petstore.swagger.io/v2/',
-    VERSION: 'v2'
-} as const;
+import { endpoint } from './endpointDescriptor';
 
 /**
  * Pet API endpoints
  */
 export const PET_ENDPOINTS = {
-    BASE: 'pet',
-    BY_ID: (id: number) => `pet/${id}`,
-    BY_STATUS: (status: string) => `pet/findByStatus?status=${status}`,
-    BY_TAGS: (tags: string[]) => `pet/findByTags?tags=${tags.join(',')}`
+    BASE: endpoint('pet'),
+    BY_ID: endpoint('pet/{petId}'),
+    // Multipart uploads take longer than plain JSON calls
+    UPLOAD_IMAGE: endpoint('pet/{petId}/uploadImage', [], { timeoutMs: 60_000 }),
+    BY_STATUS: endpoint('pet/findByStatus', ['status']),
+    BY_TAGS: endpoint('pet/findByTags', ['tags'])
 } as const;
 
 /**
- * Store API endpoints (for future expansion)
+ * Store API endpoints
  */
 export const STORE_ENDPOINTS = {
-    BASE: 'store',
-    INVENTORY: 'store/inventory',
-    ORDER: 'store/order',
-    ORDER_BY_ID: (id: number) => `store/order/${id}`
+    BASE: endpoint('store'),
+    // Cheap read used as a health probe: fail fast when it hangs
+    INVENTORY: endpoint('store/inventory', [], { timeoutMs: 5_000 }),
+    ORDER: endpoint('store/order'),
+    ORDER_BY_ID: endpoint('store/order/{orderId}')
 } as const;
 
 /**
- * User API endpoints (for future expansion)
+ * User API endpoints
  */
 export const USER_ENDPOINTS = {
-    BASE: 'user',
-    LOGIN: 'user/login',
-    LOGOUT: 'user/logout',
-    BY_USERNAME: (username: string) => `user/${username}`,
-    CREATE_WITH_ARRAY: 'user/createWithArray',
-    CREATE_WITH_LIST: 'user/createWithList'
+    BASE: endpoint('user'),
+    LOGIN: endpoint('user/login', ['username', 'password']),
+    LOGOUT: endpoint('user/logout'),
+    BY_USERNAME: endpoint('user/{username}'),
+    CREATE_WITH_ARRAY: endpoint('user/createWithArray'),
+    CREATE_WITH_LIST: endpoint('user/createWithList')
 } as const;
-
@@ -0,0 +1,297 @@
+/**
+ * Environment Profiles
+ * Loads and validates the target environment from src/config/environments/<name>.json
+ *
+ * Selected with TEST_ENV (default: local-mock when USE_MOCK_SERVER=true, public-swagger otherwise).
+ * String values may reference environment variables: "${NAME}" (required) or "${NAME:-fallback}".
+ * Both playwright.config.ts and TEST_CONFIG read the active environment from this module, so an invalid
+ * profile fails the run before any test starts.
+ */
+
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BEHAVIOR_PROFILES, BehaviorProfileName } from './behaviorProfiles';
+dotenv.config();
+
+/**
+ * Directory holding the environment profile files
+ */
+export const ENVIRONMENTS_DIR = path.join(__dirname, 'environments');
+
+/**
+ * Auth provider names accepted in profiles (see src/api/auth/registry.ts)
+ */
+const AUTH_PROVIDER_NAMES = ['none', 'api-key', 'bearer', 'oauth2'];
+
+/**
+ * Target environment profile
+ */
+export interface EnvironmentProfile {
+    /** Profile name (file name without .json) */
+    name: string;
+    description: string;
+
+    /** API base URL ending with "/"; undefined when the mock server provides it */
+    baseURL?: string;
+
+    /** Start the in-memory mock server and target it */
+    mockServer: boolean;
+
+    /** Behavior quirks of the target (expected statuses of negative scenarios) */
+    behaviorProfile: BehaviorProfileName;
+
+    auth: {
+        providers: string[];
+        apiKey?: string;
+        bearerToken?: string;
+        oauth2?: { tokenUrl: string; clientId: string; clientSecret: string; scopes: string[] };
+    };
+
+    timeouts: {
+        /** Default timeout of one API request */
+        requestMs: number;
+
+        /** Playwright test timeout */
+        testMs: number;
+    };
+
+    /** Retry middleware settings */
+    retries: { count: number; baseDelayMs: number; maxDelayMs: number };
+
+    /** Tags to run (empty = all) and to skip */
+    tags: { include: string[]; exclude: string[] };
+}
+
+/**
+ * List the available environment profiles
+ * @param dir - Directory holding the profiles
+ * @returns Profile names, sorted
+ */
+export function listEnvironments(dir: string = ENVIRONMENTS_DIR): string[] {
+    return fs.readdirSync(dir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length))
+        .sort();
+}
+
+/**
+ * Load and validate an environment profile
+ * @param name - Profile name
+ * @param env - Variables used for "${NAME}" references (defaults to process.env)
+ * @param dir - Directory holding the profiles
+ * @returns Validated profile
+ * @throws Error listing every invalid or missing value, or if the profile does not exist
+ */
+export function loadEnvironment(
+    name: string,
+    env: NodeJS.ProcessEnv = process.env,
+    dir: string = ENVIRONMENTS_DIR
+): EnvironmentProfile {
+    const available = listEnvironments(dir);
+    if (!available.includes(name)) {
+        throw new Error(`Unknown environment "${name}" (TEST_ENV). Expected one of: ${available.join(', ')}`);
+    }
+
+    const file = path.join(dir, `${name}.json`);
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Environment "${name}": cannot parse ${file}: ${(error as Error).message}`);
+    }
+
+    const errors: string[] = [];
+    const profile = parseProfile(name, substituteVariables(raw, '', env, errors), errors);
+    if (errors.length > 0) {
+        throw new Error(`Invalid environment "${name}" (${file}):\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+    return profile;
+}
+
+/**
+ * Name of the environment selected for this run
+ * @param env - Process environment
+ * @returns TEST_ENV, or the default for USE_MOCK_SERVER
+ */
+export function getSelectedEnvironmentName(env: NodeJS.ProcessEnv = process.env): string {
+    return env.TEST_ENV || (env.USE_MOCK_SERVER === 'true' ? 'local-mock' : 'public-swagger');
+}
+
+/**
+ * Read a numeric environment variable override
+ * @param name - Variable name
+ * @param fallback - Value used when the variable is unset or empty
+ * @param min - Smallest accepted value
+ * @returns Parsed integer
+ * @throws Error if the variable is set to something other than an integer >= min
+ */
+export function readIntegerVariable(name: string, fallback: number, min: number = 0): number {
+    const value = process.env[name];
+    if (value === undefined || value.trim() === '') return fallback;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+        throw new Error(`Invalid ${name}="${value}": expected an integer >= ${min}`);
+    }
+    return parsed;
+}
+
+/**
+ * Replace "${NAME}" and "${NAME:-fallback}" references in every string of a parsed profile
+ * @param value - Parsed JSON value
+ * @param at - Path of the value, for error messages
+ * @param env - Variables to substitute
+ * @param errors - Collected errors (unset required variables)
+ * @returns Value with references resolved
+ */
+function substituteVariables(value: unknown, at: string, env: NodeJS.ProcessEnv, errors: string[]): unknown {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{(\w+)(?::-([^}]*))?\}/g, (_, variable: string, fallback?: string) => {
+            const resolved = env[variable] || fallback;
+            if (resolved === undefined) {
+                errors.push(`${at}: environment variable ${variable} is not set`);
+                return '';
+            }
+            return resolved;
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, index) => substituteVariables(item, `${at}[${index}]`, env, errors));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+            [key, substituteVariables(item, at ? `${at}.${key}` : key, env, errors)]
+        ));
+    }
+    return value;
+}
+
+/**
+ * Validate a parsed profile
+ * @param name - Profile name
+ * @param raw - Parsed profile with variables resolved
+ * @param errors - Collected errors
+ * @returns Profile (only meaningful when no error was collected)
+ */
+function parseProfile(name: string, raw: unknown, errors: string[]): EnvironmentProfile {
+    const root = asObject(raw, '(root)', errors);
+    const mockServer = optionalBoolean(root.mockServer, 'mockServer', errors) ?? false;
+
+    let baseURL: string | undefined;
+    if (root.baseURL !== undefined || !mockServer) {
+        baseURL = requiredString(root.baseURL, 'baseURL', errors);
+        if (baseURL && !/^https?:\/\/.+\/$/.test(baseURL)) {
+            errors.push(`baseURL: "${baseURL}" must be an absolute http(s) URL ending with "/"`);
+        }
+    }
+
+    const behaviorProfile = requiredString(root.behaviorProfile, 'behaviorProfile', errors);
+    if (behaviorProfile && !(behaviorProfile in BEHAVIOR_PROFILES)) {
+        errors.push(`behaviorProfile: "${behaviorProfile}" is not one of ${Object.keys(BEHAVIOR_PROFILES).join(', ')}`);
+    }
+
+    const auth = asObject(root.auth, 'auth', errors);
+    const providers = stringArray(auth.providers, 'auth.providers', errors);
+    providers.filter(provider => !AUTH_PROVIDER_NAMES.includes(provider)).forEach(provider =>
+        errors.push(`auth.providers: "${provider}" is not one of ${AUTH_PROVIDER_NAMES.join(', ')}`)
+    );
+    const needs = (provider: string) => providers.includes(provider);
+    const oauth2 = auth.oauth2 === undefined && !needs('oauth2') ? undefined : asObject(auth.oauth2, 'auth.oauth2', errors);
+
+    const timeouts = asObject(root.timeouts, 'timeouts', errors);
+    const retries = asObject(root.retries, 'retries', errors);
+    const tags = asObject(root.tags, 'tags', errors);
+
+    return {
+        name,
+        description: requiredString(root.description, 'description', errors),
+        baseURL,
+        mockServer,
+        behaviorProfile: behaviorProfile as BehaviorProfileName,
+        auth: {
+            providers,
+            apiKey: needs('api-key') ? requiredString(auth.apiKey, 'auth.apiKey', errors) : auth.apiKey as string | undefined,
+            bearerToken: needs('bearer') ? requiredString(auth.bearerToken, 'auth.bearerToken', errors) : auth.bearerToken as string | undefined,
+            oauth2: oauth2 && {
+                tokenUrl: requiredString(oauth2.tokenUrl, 'auth.oauth2.tokenUrl', errors),
+                clientId: requiredString(oauth2.clientId, 'auth.oauth2.clientId', errors),
+                clientSecret: requiredString(oauth2.clientSecret, 'auth.oauth2.clientSecret', errors),
+                scopes: oauth2.scopes === undefined ? [] : stringArray(oauth2.scopes, 'auth.oauth2.scopes', errors)
+            }
+        },
+        timeouts: {
+            requestMs: integer(timeouts.requestMs, 'timeouts.requestMs', 1, errors),
+            testMs: integer(timeouts.testMs, 'timeouts.testMs', 1, errors)
+        },
+        retries: {
+            count: integer(retries.count, 'retries.count', 0, errors),
+            baseDelayMs: integer(retries.baseDelayMs, 'retries.baseDelayMs', 0, errors),
+            maxDelayMs: integer(retries.maxDelayMs, 'retries.maxDelayMs', 0, errors)
+        },
+        tags: {
+            include: tagArray(tags.include, 'tags.include', errors),
+            exclude: tagArray(tags.exclude, 'tags.exclude', errors)
+        }
+    };
+}
+
+/**
+ * Read an object value
+ * @returns The object, or an empty one after recording an error
+ */
+function asObject(value: unknown, at: string, errors: string[]): Record<string, unknown> {
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value as Record<string, unknown>;
+    errors.push(`${at}: expected an object`);
+    return {};
+}
+
+/**
+ * Read a required non-empty string
+ * @returns The string, or "" after recording an error (unless an unset variable was already reported there)
+ */
+function requiredString(value: unknown, at: string, errors: string[]): string {
+    if (typeof value === 'string' && value.trim() !== '') return value;
+    if (!errors.some(error => error.startsWith(`${at}:`))) errors.push(`${at}: expected a non-empty string`);
+    return '';
+}
+
+/**
+ * Read an optional boolean
+ * @returns The boolean, or undefined if absent or invalid (recording an error)
+ */
+function optionalBoolean(value: unknown, at: string, errors: string[]): boolean | undefined {
+    if (value === undefined || typeof value === 'boolean') return value;
+    errors.push(`${at}: expected true or false`);
+    return undefined;
+}
+
+/**
+ * Read an integer of at least min
+ * @returns The integer, or min after recording an error
+ */
+function integer(value: unknown, at: string, min: number, errors: string[]): number {
+    if (typeof value === 'number' && Number.isInteger(value) && value >= min) return value;
+    errors.push(`${at}: expected an integer >= ${min}, got ${JSON.stringify(value)}`);
+    return min;
+}
+
+/**
+ * Read an array of strings
+ * @returns The array, or an empty one after recording an error
+ */
+function stringArray(value: unknown, at: string, errors: string[]): string[] {
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value;
+    errors.push(`${at}: expected an array of strings`);
+    return [];
+}
+
+/**
+ * Read an array of test tags ("@smoke")
+ * @returns The tags; malformed ones are recorded as errors
+ */
+function tagArray(value: unknown, at: string, errors: string[]): string[] {
+    const tags = stringArray(value, at, errors);
+    tags.filter(tag => !/^@[\w-]+$/.test(tag)).forEach(tag => errors.push(`${at}: "${tag}" is not a tag like "@smoke"`));
+    return tags;
+}
@@ -1,9 +1,32 @@
 /**
  * Configuration Management
  * Central configuration for the entire test framework
+ * Values come from the active environment profile (src/config/environments, selected by TEST_ENV);
+ * the environment variables below override them for a single run.
  */
 
-import { API_CONFIG } from './endpoints';
+import { BehaviorProfile, getBehaviorProfile } from './behaviorProfiles';
+import { getSelectedEnvironmentName, loadEnvironment, readIntegerVariable } from './environment';
+import { HTTP_STATUS } from '../constants/httpStatus';
+
+/**
+ * Environment profile of this run, validated at load time
+ */
+export const ACTIVE_ENVIRONMENT = loadEnvironment(getSelectedEnvironmentName());
+
+/**
+ * Split a comma-separated environment variable
+ * @param value - Variable value
+ * @returns Trimmed, non-empty items
+ */
+function parseList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Cassette mode of the run (API_CASSETTE_MODE)
+ */
+const CASSETTE_MODE = process.env.API_CASSETTE_MODE || 'off';
 
 /**
  * Test configuration
@@ -11,31 +34,130 @@ import { API_CONFIG } from './endpoints';
 export const TEST_CONFIG = {
     // API settings
     api: {
-        baseURL: API_CONFIG.BASE_URL,
-        timeout: 30000,
-        retries: 2
+        // Set by the global setup when the mock server is used
+        baseURL: process.env.API_BASE_URL || ACTIVE_ENVIRONMENT.baseURL || '',
+        timeout: readIntegerVariable('API_TIMEOUT', ACTIVE_ENVIRONMENT.timeouts.requestMs, 1),
+        retries: readIntegerVariable('API_RETRIES', ACTIVE_ENVIRONMENT.retries.count),
+
+        // Backoff between retries: baseDelayMs * 2^(attempt - 1), capped at maxDelayMs, with jitter
+        retry: {
+            baseDelayMs: ACTIVE_ENVIRONMENT.retries.baseDelayMs,
+            maxDelayMs: ACTIVE_ENVIRONMENT.retries.maxDelayMs,
+            retryableStatuses: [HTTP_STATUS.BAD_GATEWAY, HTTP_STATUS.SERVICE_UNAVAILABLE, HTTP_STATUS.GATEWAY_TIMEOUT],
+            // POST is not idempotent; add it here (or per service) only for endpoints safe to replay
+            methods: ['GET', 'PUT', 'DELETE', 'HEAD']
+        },
+
+        // Middlewares applied to every service, outermost first (see src/api/middleware/registry.ts)
+        // "cassette" is appended when API_CASSETTE_MODE is record or replay
+        middlewares: [
+            ...(process.env.API_MIDDLEWARES !== undefined ? parseList(process.env.API_MIDDLEWARES) : ['coverage', 'retry']),
+            ...(CASSETTE_MODE !== 'off' ? ['cassette'] : [])
+        ]
+    },
+
+    // Record-and-replay of service traffic, one file per test (see src/api/cassettes)
+    cassettes: {
+        // off | record | replay
+        mode: CASSETTE_MODE,
+        dir: process.env.API_CASSETTE_DIR || 'tests/cassettes'
+    },
+
+    // Credentials sent by services created without an explicit provider (see src/api/auth)
+    auth: {
+        // Providers combined on every request: api-key, bearer, oauth2 ("none" sends no credentials)
+        providers: process.env.API_AUTH !== undefined
+            ? parseList(process.env.API_AUTH)
+            : ACTIVE_ENVIRONMENT.auth.providers,
+        apiKey: process.env.API_KEY || ACTIVE_ENVIRONMENT.auth.apiKey || '',
+        bearerToken: process.env.API_BEARER_TOKEN || ACTIVE_ENVIRONMENT.auth.bearerToken || '',
+        // Client credentials grant; the mock server serves the token endpoint at <base URL>/oauth/token
+        oauth2: {
+            tokenUrl: process.env.OAUTH_TOKEN_URL || ACTIVE_ENVIRONMENT.auth.oauth2?.tokenUrl || 'oauth/token',
+            clientId: process.env.OAUTH_CLIENT_ID || ACTIVE_ENVIRONMENT.auth.oauth2?.clientId || '',
+            clientSecret: process.env.OAUTH_CLIENT_SECRET || ACTIVE_ENVIRONMENT.auth.oauth2?.clientSecret || '',
+            scopes: ACTIVE_ENVIRONMENT.auth.oauth2?.scopes || []
+        }
+    },
+
+    // Structured request logs written by BaseService (see src/api/logging)
+    logging: {
+        // silent, error (5xx and failed requests), warn (+ 4xx), info (every response), debug (+ requests, headers, bodies)
+        level: process.env.API_LOG_LEVEL || 'error',
+        // JSON lines file; stdout when empty
+        file: process.env.API_LOG_FILE || '',
+        // Field names masked in URLs, headers and bodies (case-insensitive); API_LOG_REDACT adds more
+        redactFields: [
+            'password', 'api_key', 'Authorization', 'X-Session-Token', 'client_secret', 'access_token', 'Cookie', 'Set-Cookie',
+            ...parseList(process.env.API_LOG_REDACT || '')
+        ]
     },
 
     // Test data settings
     testData: {
-        useDynamicIds: true,
-        cleanupAfterTests: true
+        // Factory ids and names unique per worker and run (see src/utils/idAllocator.ts);
+        // USE_DYNAMIC_IDS=false uses the fixed ids of src/fixtures/data instead
+        useDynamicIds: process.env.USE_DYNAMIC_IDS !== 'false',
+        // Delete resources created through the fixture services after each test (CLEANUP_AFTER_TESTS=false keeps them)
+        cleanupAfterTests: process.env.CLEANUP_AFTER_TESTS !== 'false'
+    },
+
+    // Local mock server settings
+    mockServer: {
+        enabled: process.env.USE_MOCK_SERVER === 'true' || ACTIVE_ENVIRONMENT.mockServer,
+        port: readIntegerVariable('MOCK_SERVER_PORT', 0)
+    },
+
+    // API coverage settings (percent thresholds; 0 disables the check)
+    coverage: {
+        enabled: process.env.API_COVERAGE !== 'false',
+        specPath: process.env.API_COVERAGE_SPEC || 'specs/petstore.swagger.json',
+        outputDir: 'coverage/api',
+        minOperationCoverage: readIntegerVariable('API_COVERAGE_MIN_OPERATIONS', 0),
+        minResponseCoverage: readIntegerVariable('API_COVERAGE_MIN_RESPONSES', 0),
+        failBelowThreshold: process.env.API_COVERAGE_FAIL === 'true'
     },
 
     // Reporting settings
     reporting: {
         allureResultsDir: 'allure-results',
-        allureReportDir: 'allure-report'
+        allureReportDir: 'allure-report',
+        // Every service call is a report step with its request and response attached (redacted like the logs)
+        apiCalls: {
+            attach: process.env.REPORT_API_CALLS !== 'false',
+            maxBodyBytes: readIntegerVariable('REPORT_MAX_BODY_BYTES', 16384, 1)
+        }
     }
 } as const;
 
 /**
- * Environment configuration (can be extended for different environments)
+ * Environment configuration
  */
 export const ENV_CONFIG = {
-    current: process.env.TEST_ENV || 'default',
-    isCI: !!process.env.CI
+    current: ACTIVE_ENVIRONMENT.name,
+    isCI: !!process.env.CI,
+    behaviorProfile: process.env.BEHAVIOR_PROFILE || ACTIVE_ENVIRONMENT.behaviorProfile,
+
+    // Playwright test timeout and tag filters of the environment
+    testTimeout: ACTIVE_ENVIRONMENT.timeouts.testMs,
+    includeTags: ACTIVE_ENVIRONMENT.tags.include,
+    excludeTags: ACTIVE_ENVIRONMENT.tags.exclude
 } as const;
 
-// Re-export endpoints for convenience
+// Fail before any test starts if BEHAVIOR_PROFILE names an unknown profile
+getBehaviorProfile(ENV_CONFIG.behaviorProfile);
+
+/**
+ * Get the behavior profile of the current target
+ * @returns Behavior profile selected by ENV_CONFIG.behaviorProfile
+ * @throws Error if BEHAVIOR_PROFILE names an unknown profile
+ */
+export function getActiveBehaviorProfile(): BehaviorProfile {
+    return getBehaviorProfile(ENV_CONFIG.behaviorProfile);
+}
+
+// Re-export endpoints, environments and profiles for convenience
 export * from './endpoints';
+export * from './environment';
+export * from './endpointDescriptor';
+export * from './behaviorProfiles';
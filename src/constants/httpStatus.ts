@@ -13,8 +13,11 @@ export const HTTP_STATUS = {
     NOT_FOUND: 404,
     METHOD_NOT_ALLOWED: 405,
     UNSUPPORTED_MEDIA_TYPE: 415,
+    TOO_MANY_REQUESTS: 429,
     INTERNAL_SERVER_ERROR: 500,
-    SERVICE_UNAVAILABLE: 503
+    BAD_GATEWAY: 502,
+    SERVICE_UNAVAILABLE: 503,
+    GATEWAY_TIMEOUT: 504
 } as const;
 
 export type HttpStatus = typeof HTTP_STATUS[keyof typeof HTTP_STATUS];
@@ -1,2 +1,3 @@
 export * from './httpStatus';
 export * from './messages';
+export * from './knownBugs';
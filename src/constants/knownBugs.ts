@@ -0,0 +1,50 @@
+/**
+ * Known API Bugs
+ * Registry of confirmed defects in the API under test
+ * Tests covering a registered bug are marked as expected-to-fail where the bug is active
+ */
+
+/**
+ * Annotation type added to tests whose known bug is active
+ */
+export const KNOWN_BUG_ANNOTATION = 'known-bug';
+
+/**
+ * Known bug interface
+ */
+export interface KnownBug {
+    /** Stable bug identifier shown in reports */
+    id: string;
+
+    /** Affected endpoint as "METHOD /path" */
+    endpoint: string;
+
+    /** What the API does wrong */
+    description: string;
+
+    /** Environments (ENV_CONFIG.current values) where the bug reproduces */
+    environments: readonly string[];
+
+    /** Optional link to the upstream issue */
+    url?: string;
+}
+
+/**
+ * Registered known bugs
+ */
+export const KNOWN_BUGS = {
+    PET_GET_NON_EXISTENT_RETURNS_200: {
+        id: 'PETSTORE-001',
+        endpoint: 'GET /pet/{petId}',
+        description: 'Returns 200 instead of 404 for a pet ID that does not exist',
+        environments: ['public-swagger']
+    },
+    ORDER_NOT_READABLE_AFTER_CREATE: {
+        id: 'PETSTORE-002',
+        endpoint: 'GET /store/order/{orderId}',
+        description: 'Returns 404 for an order that was just placed (read-after-write consistency)',
+        environments: ['public-swagger']
+    }
+} as const satisfies Record<string, KnownBug>;
+
+export type KnownBugKey = keyof typeof KNOWN_BUGS;
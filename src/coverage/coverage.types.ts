@@ -0,0 +1,76 @@
+/**
+ * API Coverage Types
+ * Shapes shared by the request recorder, the coverage matrix and the coverage reporter
+ */
+
+/**
+ * One request sent through a BaseService subclass
+ */
+export interface ApiCallRecord {
+    method: string;
+
+    /** Absolute request URL as sent (query string excluded) */
+    url: string;
+
+    status: number;
+}
+
+/**
+ * Hits of one documented response code
+ */
+export interface ResponseCoverage {
+    /** Documented status code, or "default" */
+    status: string;
+
+    description: string;
+    hits: number;
+}
+
+/**
+ * Coverage of one spec operation
+ */
+export interface OperationCoverage {
+    operationId: string;
+    tag: string;
+    method: string;
+    path: string;
+    calls: number;
+    responses: ResponseCoverage[];
+
+    /** Status codes received but not documented in the spec */
+    undocumented: { status: string; hits: number }[];
+}
+
+/**
+ * Request that matched no spec operation
+ */
+export interface UnmatchedCall {
+    method: string;
+    path: string;
+    status: number;
+    hits: number;
+}
+
+/**
+ * Covered/total counter
+ */
+export interface CoverageRatio {
+    covered: number;
+    total: number;
+    percent: number;
+}
+
+/**
+ * Full coverage report written as coverage.json
+ */
+export interface CoverageReport {
+    generatedAt: string;
+    spec: { path: string; title: string; version: string };
+    summary: {
+        operations: CoverageRatio;
+        responses: CoverageRatio;
+        requests: number;
+    };
+    operations: OperationCoverage[];
+    unmatched: UnmatchedCall[];
+}
@@ -0,0 +1,118 @@
+/**
+ * API Coverage HTML
+ * Renders the coverage report as a standalone operations × status codes matrix
+ */
+
+import { CoverageRatio, CoverageReport, OperationCoverage } from './coverage.types';
+
+/**
+ * Escape text for HTML
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Sort status codes numerically with "default" last
+ * @param a - Status code
+ * @param b - Status code
+ * @returns Sort order
+ */
+function compareStatus(a: string, b: string): number {
+    if (a === 'default') return 1;
+    if (b === 'default') return -1;
+    return Number(a) - Number(b);
+}
+
+/**
+ * Render a summary ratio
+ * @param label - Ratio label
+ * @param value - Ratio
+ * @returns HTML fragment
+ */
+function renderRatio(label: string, value: CoverageRatio): string {
+    return `<li><strong>${label}:</strong> ${value.covered}/${value.total} (${value.percent}%)</li>`;
+}
+
+/**
+ * Render one matrix row
+ * @param operation - Operation coverage
+ * @param columns - Status code columns
+ * @returns HTML table row
+ */
+function renderRow(operation: OperationCoverage, columns: string[]): string {
+    const cells = columns.map(status => {
+        const response = operation.responses.find(candidate => candidate.status === status);
+        if (!response) return '<td class="na">–</td>';
+        return `<td class="${response.hits > 0 ? 'hit' : 'miss'}" title="${escapeHtml(response.description)}">${response.hits}</td>`;
+    });
+    const undocumented = operation.undocumented.map(entry => `${entry.status} ×${entry.hits}`).join(', ');
+
+    return [
+        `<tr class="${operation.calls > 0 ? '' : 'uncalled'}">`,
+        `<td>${escapeHtml(operation.tag)}</td>`,
+        `<td><code>${operation.method} /${escapeHtml(operation.path)}</code><br><small>${escapeHtml(operation.operationId)}</small></td>`,
+        `<td>${operation.calls}</td>`,
+        ...cells,
+        `<td class="undocumented">${escapeHtml(undocumented)}</td>`,
+        '</tr>'
+    ].join('');
+}
+
+/**
+ * Render the coverage report as HTML
+ * @param report - Coverage report
+ * @returns Standalone HTML document
+ */
+export function renderCoverageHtml(report: CoverageReport): string {
+    const columns = [...new Set(report.operations.flatMap(operation => operation.responses.map(response => response.status)))]
+        .sort(compareStatus);
+    const unmatched = report.unmatched.length === 0 ? '' : [
+        '<h2>Requests matching no spec operation</h2>',
+        '<table><tr><th>Method</th><th>Path</th><th>Status</th><th>Hits</th></tr>',
+        ...report.unmatched.map(call =>
+            `<tr><td>${call.method}</td><td><code>/${escapeHtml(call.path)}</code></td><td>${call.status}</td><td>${call.hits}</td></tr>`
+        ),
+        '</table>'
+    ].join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>API Coverage - ${escapeHtml(report.spec.title)}</title>
+<style>
+    body { font-family: sans-serif; margin: 2rem; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: center; }
+    td:nth-child(2) { text-align: left; }
+    .hit { background: #c8e6c9; }
+    .miss { background: #ffcdd2; }
+    .na { color: #999; }
+    .uncalled td:nth-child(2) { color: #b71c1c; }
+    .undocumented { color: #e65100; }
+</style>
+</head>
+<body>
+<h1>API Coverage - ${escapeHtml(report.spec.title)} ${escapeHtml(report.spec.version)}</h1>
+<p>Spec: <code>${escapeHtml(report.spec.path)}</code> · Generated ${escapeHtml(report.generatedAt)}</p>
+<ul>
+${renderRatio('Operations called', report.summary.operations)}
+${renderRatio('Documented responses received', report.summary.responses)}
+<li><strong>Requests recorded:</strong> ${report.summary.requests}</li>
+</ul>
+<table>
+<tr><th>Tag</th><th>Operation</th><th>Calls</th>${columns.map(status => `<th>${status}</th>`).join('')}<th>Undocumented</th></tr>
+${report.operations.map(operation => renderRow(operation, columns)).join('\n')}
+</table>
+${unmatched}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,131 @@
+/**
+ * API Coverage Matrix
+ * Matches recorded calls to spec operations and counts hits per documented status code
+ */
+
+import { ApiModel, ApiOperation } from '../openapi';
+import { ApiCallRecord, CoverageRatio, CoverageReport, OperationCoverage, UnmatchedCall } from './coverage.types';
+
+/**
+ * Strip the server base path from a request URL
+ * @param url - Absolute request URL
+ * @param basePath - Spec base path (e.g. "/v2")
+ * @returns Path relative to the base path without slashes at either end (e.g. "pet/123")
+ */
+function relativePath(url: string, basePath: string): string {
+    let pathname = new URL(url).pathname;
+    if (basePath && (pathname === basePath || pathname.startsWith(`${basePath}/`))) {
+        pathname = pathname.slice(basePath.length);
+    }
+    return pathname.replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Find the operation serving a request
+ * Literal segments win over templated ones, so "pet/findByStatus" is not read as "pet/{petId}"
+ * @param operations - Spec operations
+ * @param method - Request method
+ * @param requestPath - Path relative to the base path
+ * @returns Best matching operation, or undefined
+ */
+export function matchOperation(operations: ApiOperation[], method: string, requestPath: string): ApiOperation | undefined {
+    const segments = requestPath.split('/');
+    let best: { operation: ApiOperation; literals: number } | undefined;
+
+    for (const operation of operations) {
+        if (operation.method !== method.toUpperCase()) continue;
+
+        const template = operation.path.split('/');
+        if (template.length !== segments.length) continue;
+
+        let literals = 0;
+        const matches = template.every((part, index) => {
+            if (/^\{.+\}$/.test(part)) return segments[index].length > 0;
+            literals++;
+            return part === segments[index];
+        });
+
+        if (matches && (!best || literals > best.literals)) {
+            best = { operation, literals };
+        }
+    }
+    return best?.operation;
+}
+
+/**
+ * Compute a covered/total ratio
+ * @param covered - Covered items
+ * @param total - Total items
+ * @returns Ratio with a percentage rounded to one decimal
+ */
+function ratio(covered: number, total: number): CoverageRatio {
+    return { covered, total, percent: total === 0 ? 100 : Math.round((covered / total) * 1000) / 10 };
+}
+
+/**
+ * Build the coverage report of a run
+ * Statuses that are not documented count towards the "default" response when the operation declares one
+ * @param model - Normalized spec model
+ * @param specPath - Spec path shown in the report
+ * @param records - Recorded API calls
+ * @returns Coverage report
+ */
+export function buildCoverageReport(model: ApiModel, specPath: string, records: ApiCallRecord[]): CoverageReport {
+    const coverage = new Map<ApiOperation, OperationCoverage>(model.operations.map(operation => [operation, {
+        operationId: operation.operationId,
+        tag: operation.tag,
+        method: operation.method,
+        path: operation.path,
+        calls: 0,
+        responses: operation.responses.map(response => ({ status: response.status, description: response.description, hits: 0 })),
+        undocumented: []
+    }]));
+    const unmatched = new Map<string, UnmatchedCall>();
+
+    for (const record of records) {
+        const requestPath = relativePath(record.url, model.basePath);
+        const operation = matchOperation(model.operations, record.method, requestPath);
+
+        if (!operation) {
+            const key = `${record.method} ${requestPath} ${record.status}`;
+            const call = unmatched.get(key) || { method: record.method, path: requestPath, status: record.status, hits: 0 };
+            call.hits++;
+            unmatched.set(key, call);
+            continue;
+        }
+
+        const entry = coverage.get(operation)!;
+        const status = String(record.status);
+        entry.calls++;
+
+        const response = entry.responses.find(candidate => candidate.status === status)
+            || entry.responses.find(candidate => candidate.status === 'default');
+        if (response) {
+            response.hits++;
+            continue;
+        }
+
+        const undocumented = entry.undocumented.find(candidate => candidate.status === status);
+        if (undocumented) {
+            undocumented.hits++;
+        } else {
+            entry.undocumented.push({ status, hits: 1 });
+        }
+    }
+
+    const operations = [...coverage.values()];
+    operations.forEach(entry => entry.undocumented.sort((a, b) => a.status.localeCompare(b.status)));
+    const responses = operations.flatMap(entry => entry.responses);
+
+    return {
+        generatedAt: new Date().toISOString(),
+        spec: { path: specPath, title: model.title, version: model.version },
+        summary: {
+            operations: ratio(operations.filter(entry => entry.calls > 0).length, operations.length),
+            responses: ratio(responses.filter(response => response.hits > 0).length, responses.length),
+            requests: records.length
+        },
+        operations,
+        unmatched: [...unmatched.values()].sort((a, b) => `${a.path} ${a.method}`.localeCompare(`${b.path} ${b.method}`))
+    };
+}
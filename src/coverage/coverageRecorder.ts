@@ -0,0 +1,52 @@
+/**
+ * API Coverage Recorder
+ * Appends every service request to a per-worker JSON-lines file read back by ApiCoverageReporter
+ * Workers run in separate processes, so records go through the file system rather than memory
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TEST_CONFIG } from '../config';
+import { ApiCallRecord } from './coverage.types';
+
+/**
+ * Directory holding the raw per-worker records
+ * @returns Absolute path of the records directory
+ */
+export function getCoverageRecordsDir(): string {
+    return path.resolve(TEST_CONFIG.coverage.outputDir, '.records');
+}
+
+/**
+ * Record one API call
+ * @param record - Method, URL and status of the call
+ */
+export function recordApiCall(record: ApiCallRecord): void {
+    if (!TEST_CONFIG.coverage.enabled) return;
+
+    const dir = getCoverageRecordsDir();
+    fs.mkdirSync(dir, { recursive: true });
+    fs.appendFileSync(path.join(dir, `${process.pid}.jsonl`), `${JSON.stringify(record)}\n`);
+}
+
+/**
+ * Read all records written by the workers of the run
+ * @returns Recorded API calls
+ */
+export function readApiCallRecords(): ApiCallRecord[] {
+    const dir = getCoverageRecordsDir();
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter(name => name.endsWith('.jsonl'))
+        .flatMap(name => fs.readFileSync(path.join(dir, name), 'utf-8').split('\n'))
+        .filter(line => line.trim().length > 0)
+        .map(line => JSON.parse(line) as ApiCallRecord);
+}
+
+/**
+ * Remove records left by a previous run
+ */
+export function clearApiCallRecords(): void {
+    fs.rmSync(getCoverageRecordsDir(), { recursive: true, force: true });
+}
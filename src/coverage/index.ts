@@ -0,0 +1,9 @@
+/**
+ * API Coverage
+ * Records service requests and measures them against the OpenAPI spec
+ */
+
+export * from './coverage.types';
+export * from './coverageRecorder';
+export * from './coverageMatrix';
+export * from './coverageHtml';
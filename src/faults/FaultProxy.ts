@@ -0,0 +1,286 @@
+import * as http from 'http';
+import * as https from 'https';
+import { AddressInfo } from 'net';
+import { Fault, FaultRule, ProxiedRequest } from './fault.types';
+
+/**
+ * Options for the fault proxy
+ */
+export interface FaultProxyOptions {
+    /** Base URL of the API to forward to (e.g. TEST_CONFIG.api.baseURL) */
+    target: string;
+
+    /** Host interface to bind (defaults to 127.0.0.1) */
+    host?: string;
+
+    /** Random source in [0, 1) used for rule probabilities (defaults to Math.random) */
+    random?: () => number;
+}
+
+/**
+ * Rule with its remaining number of faults
+ */
+interface ActiveRule {
+    rule: FaultRule;
+    matches: (method: string, path: string) => boolean;
+    remaining: number;
+}
+
+/**
+ * Upstream response, fully read
+ */
+interface UpstreamResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+/**
+ * Hop-by-hop and length headers not copied between the client and the target
+ */
+const SKIPPED_HEADERS = new Set(['host', 'connection', 'keep-alive', 'transfer-encoding', 'content-length', 'accept-encoding']);
+
+/**
+ * FaultProxy class forwarding requests to the target API and disturbing the ones matching its rules
+ * Point an APIRequestContext at baseURL to send service calls through it
+ */
+export class FaultProxy {
+    /** Requests received since the last reset, in order */
+    readonly requests: ProxiedRequest[] = [];
+
+    private readonly target: URL;
+    private readonly host: string;
+    private readonly random: () => number;
+    private rules: ActiveRule[] = [];
+    private server?: http.Server;
+
+    /**
+     * Constructor to initialize the fault proxy
+     * @param options - Target URL, host and random source
+     * @throws Error if the target is not an http(s) URL
+     */
+    constructor(options: FaultProxyOptions) {
+        if (!/^https?:\/\//.test(options.target)) {
+            throw new Error(`Fault proxy target must be an http(s) URL, got "${options.target}"`);
+        }
+        this.target = new URL(options.target.endsWith('/') ? options.target : `${options.target}/`);
+        this.host = options.host || '127.0.0.1';
+        this.random = options.random || Math.random;
+    }
+
+    /**
+     * Start listening for requests
+     * @param port - Port to bind (0 picks a free port)
+     * @returns Base URL of the proxy, with the same base path as the target
+     */
+    async start(port: number = 0): Promise<string> {
+        if (this.server) return this.baseURL;
+
+        const server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                if (res.headersSent || res.destroyed) return;
+                res.writeHead(502, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ code: 502, type: 'error', message: `Fault proxy: ${String(error)}` }));
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, this.host, () => resolve());
+        });
+
+        this.server = server;
+        return this.baseURL;
+    }
+
+    /**
+     * Stop the proxy and close open connections
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+
+        this.server = undefined;
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    /**
+     * Base URL of the running proxy
+     * @throws Error if the proxy has not been started
+     */
+    get baseURL(): string {
+        if (!this.server) {
+            throw new Error('Fault proxy is not running');
+        }
+        const { port } = this.server.address() as AddressInfo;
+        return `http://${this.host}:${port}${this.target.pathname}`;
+    }
+
+    /**
+     * Add a fault rule; rules apply in the order they were added
+     * @param rule - Requests to disturb and the fault to apply
+     * @throws Error if times, probability, status or a size is out of range
+     */
+    addRule(rule: FaultRule): void {
+        const { times, probability, fault } = rule;
+        if (times !== undefined && (!Number.isInteger(times) || times < 1)) {
+            throw new Error(`Fault rule times must be a positive integer, got ${times}`);
+        }
+        if (probability !== undefined && !(probability >= 0 && probability <= 1)) {
+            throw new Error(`Fault rule probability must be between 0 and 1, got ${probability}`);
+        }
+        if (fault.type === 'status' && !(Number.isInteger(fault.status) && fault.status >= 100 && fault.status <= 599)) {
+            throw new Error(`Fault status must be an HTTP status code, got ${fault.status}`);
+        }
+        if (fault.type === 'latency' && !(fault.delayMs >= 0)) {
+            throw new Error(`Fault delayMs must not be negative, got ${fault.delayMs}`);
+        }
+        if (fault.type === 'truncate' && fault.bytes !== undefined && !(Number.isInteger(fault.bytes) && fault.bytes >= 0)) {
+            throw new Error(`Fault bytes must be a non-negative integer, got ${fault.bytes}`);
+        }
+
+        this.rules.push({ rule, matches: matcher(rule), remaining: times ?? Infinity });
+    }
+
+    /**
+     * Remove every rule and forget the requests received
+     */
+    reset(): void {
+        this.rules = [];
+        this.requests.length = 0;
+    }
+
+    /**
+     * Apply the first matching rule to a request, or forward it untouched
+     * @param req - Client request
+     * @param res - Client response
+     */
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await readBody(req);
+        const method = (req.method || 'GET').toUpperCase();
+        const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+        const path = pathname.startsWith(this.target.pathname)
+            ? pathname.slice(this.target.pathname.length).replace(/\/+$/, '')
+            : pathname;
+
+        const fault = this.takeFault(method, path);
+        this.requests.push({ method, path, fault: fault?.type });
+
+        switch (fault?.type) {
+            case 'reset':
+                req.socket.destroy();
+                return;
+            case 'status': {
+                const text = typeof fault.body === 'string';
+                return send(res, {
+                    status: fault.status,
+                    headers: { 'content-type': text ? 'text/plain' : 'application/json' },
+                    body: Buffer.from(text
+                        ? fault.body as string
+                        : JSON.stringify(fault.body ?? { code: fault.status, type: 'error', message: 'Injected fault' }))
+                });
+            }
+            case 'latency':
+                await new Promise(resolve => setTimeout(resolve, fault.delayMs));
+                if (res.destroyed) return;
+                break;
+        }
+
+        const upstream = await this.forward(req, body);
+        if (fault?.type === 'truncate') {
+            upstream.body = upstream.body.subarray(0, fault.bytes ?? Math.floor(upstream.body.length / 2));
+        } else if (fault?.type === 'contentType') {
+            upstream.headers['content-type'] = fault.contentType;
+        }
+        send(res, upstream);
+    }
+
+    /**
+     * Find the fault for a request and count it against its rule
+     * @param method - HTTP method
+     * @param path - Path relative to the base path
+     * @returns Fault to apply, or undefined to forward untouched
+     */
+    private takeFault(method: string, path: string): Fault | undefined {
+        const active = this.rules.find(candidate => candidate.remaining > 0 && candidate.matches(method, path));
+        if (!active || this.random() >= (active.rule.probability ?? 1)) return undefined;
+
+        active.remaining--;
+        return active.rule.fault;
+    }
+
+    /**
+     * Send a request to the target
+     * @param req - Client request
+     * @param body - Client request body
+     * @returns Target response
+     */
+    private forward(req: http.IncomingMessage, body: Buffer): Promise<UpstreamResponse> {
+        const url = new URL(req.url || '/', this.target);
+        const headers: http.OutgoingHttpHeaders = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+            if (!SKIPPED_HEADERS.has(name)) headers[name] = value;
+        }
+        headers['content-length'] = body.length;
+
+        const transport = url.protocol === 'https:' ? https : http;
+        return new Promise((resolve, reject) => {
+            const upstream = transport.request(url, { method: req.method, headers }, response => {
+                readBody(response)
+                    .then(data => resolve({ status: response.statusCode || 502, headers: response.headers, body: data }))
+                    .catch(reject);
+            });
+            upstream.once('error', reject);
+            upstream.end(body);
+        });
+    }
+}
+
+/**
+ * Build the request matcher of a rule
+ * @param rule - Fault rule
+ * @returns Function telling whether a request matches
+ */
+function matcher(rule: FaultRule): (method: string, path: string) => boolean {
+    const method = rule.method?.toUpperCase();
+    const pattern = typeof rule.path === 'string'
+        ? new RegExp(`^${rule.path
+            .replace(/^\/+|\/+$/g, '')
+            .split(/\{\w+\}/)
+            .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('[^/]+')}$`)
+        : rule.path;
+
+    return (requestMethod, path) => (!method || method === requestMethod) && pattern.test(path);
+}
+
+/**
+ * Read a full message body
+ * @param message - Incoming request or response
+ * @returns Body buffer
+ */
+async function readBody(message: http.IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of message) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Write a response to the client
+ * @param res - Client response
+ * @param response - Status, headers and body to send
+ */
+function send(res: http.ServerResponse, response: UpstreamResponse): void {
+    if (res.destroyed) return;
+
+    const headers: http.OutgoingHttpHeaders = {};
+    for (const [name, value] of Object.entries(response.headers)) {
+        if (!SKIPPED_HEADERS.has(name) && value !== undefined) headers[name] = value;
+    }
+    headers['content-length'] = response.body.length;
+    res.writeHead(response.status, headers);
+    res.end(response.body);
+}
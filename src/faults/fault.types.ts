@@ -0,0 +1,54 @@
+/**
+ * Fault Injection Types
+ * Rules telling the fault proxy which requests to disturb and how
+ */
+
+/**
+ * Fault applied to a matching request
+ * - latency: waits delayMs, then forwards the request
+ * - status: answers with the status without forwarding; the body defaults to a Petstore-style error,
+ *   a string body is sent as text/plain
+ * - truncate: forwards, then sends only the first bytes of the response body (half by default)
+ * - contentType: forwards, then replaces the Content-Type of the response
+ * - reset: closes the connection without answering
+ */
+export type Fault =
+    | { type: 'latency'; delayMs: number }
+    | { type: 'status'; status: number; body?: unknown }
+    | { type: 'truncate'; bytes?: number }
+    | { type: 'contentType'; contentType: string }
+    | { type: 'reset' };
+
+export type FaultType = Fault['type'];
+
+/**
+ * Fault rule; the first active rule matching a request applies
+ */
+export interface FaultRule {
+    /** HTTP method (any method when omitted) */
+    method?: string;
+
+    /** Path relative to the API base path: a template such as "pet/{petId}", or a pattern */
+    path: string | RegExp;
+
+    fault: Fault;
+
+    /** Number of matching requests to disturb (every one when omitted) */
+    times?: number;
+
+    /** Chance (0 to 1) that a matching request is disturbed; spared requests do not count towards times */
+    probability?: number;
+}
+
+/**
+ * Request seen by the fault proxy
+ */
+export interface ProxiedRequest {
+    method: string;
+
+    /** Path relative to the API base path */
+    path: string;
+
+    /** Fault applied, undefined if the request was forwarded untouched */
+    fault?: FaultType;
+}
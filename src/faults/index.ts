@@ -0,0 +1,7 @@
+/**
+ * Barrel export file for the fault injection proxy
+ */
+
+export { FaultProxy } from './FaultProxy';
+export type { FaultProxyOptions } from './FaultProxy';
+export type { Fault, FaultType, FaultRule, ProxiedRequest } from './fault.types';
@@ -0,0 +1,175 @@
+/**
+ * Resource Tracker
+ * Remembers pets, orders and users created through tracked services and deletes them after the test
+ */
+
+import { APIRequestContext } from '@playwright/test';
+import { ApiMiddleware, ApiRequest } from '../api/middleware';
+import { PetService } from '../api/services/pet/PetService';
+import { StoreService } from '../api/services/store/StoreService';
+import { UserService } from '../api/services/user/UserService';
+import { PET_ENDPOINTS, STORE_ENDPOINTS, USER_ENDPOINTS, buildUrl } from '../config';
+import { HTTP_STATUS } from '../constants';
+import { Int64, Order, Pet, User } from '../api/types';
+import { isInt64, parseJson } from '../api/json';
+
+/**
+ * Resource created during a test
+ */
+export type TrackedResource =
+    | { type: 'pet'; id: Int64 }
+    | { type: 'order'; id: Int64 }
+    | { type: 'user'; id: string };
+
+/**
+ * ResourceTracker class recording created resources for teardown
+ * Attach middleware() to a service: every successful create is tracked,
+ * every successful delete of a tracked resource removes it from the list.
+ */
+export class ResourceTracker {
+    private readonly resources: TrackedResource[] = [];
+
+    /**
+     * Resources still to be cleaned up, oldest first
+     */
+    get tracked(): readonly TrackedResource[] {
+        return this.resources;
+    }
+
+    /**
+     * Track a resource explicitly (e.g. one created outside the tracked services)
+     * @param resource - Resource to delete in cleanup
+     */
+    track(resource: TrackedResource): void {
+        if (!this.resources.some(existing => isSame(existing, resource))) {
+            this.resources.push(resource);
+        }
+    }
+
+    /**
+     * Stop tracking a resource
+     * @param resource - Resource that no longer needs cleanup
+     */
+    untrack(resource: TrackedResource): void {
+        const index = this.resources.findIndex(existing => isSame(existing, resource));
+        if (index >= 0) this.resources.splice(index, 1);
+    }
+
+    /**
+     * Create the middleware recording creates and deletes of the service it is attached to
+     * @returns Tracking middleware
+     */
+    middleware(): ApiMiddleware {
+        return {
+            name: 'resource-tracker',
+            handle: async (request, next) => {
+                const response = await next(request);
+                if (response.ok()) {
+                    if (request.method === 'POST') {
+                        createdBy(request, await response.text().then(parseJson).catch(() => undefined)).forEach(resource => this.track(resource));
+                    } else if (request.method === 'DELETE') {
+                        this.resources.filter(resource => request.url === deleteUrl(resource)).forEach(resource => this.untrack(resource));
+                    }
+                }
+                return response;
+            }
+        };
+    }
+
+    /**
+     * Delete every tracked resource, newest first
+     * Resources already gone (404) are ignored; other failures are logged, not thrown,
+     * so cleanup never hides the test result. The deletes skip the global middlewares:
+     * they are neither counted in the API coverage nor retried.
+     * @param request - Playwright's APIRequestContext instance
+     */
+    async cleanup(request: APIRequestContext): Promise<void> {
+        const options = { skipGlobalMiddlewares: true };
+        const services = {
+            pet: new PetService(request, options),
+            order: new StoreService(request, options),
+            user: new UserService(request, options)
+        };
+
+        for (const resource of [...this.resources].reverse()) {
+            try {
+                const response = resource.type === 'pet'
+                    ? await services.pet.deletePet(resource.id)
+                    : resource.type === 'order'
+                        ? await services.order.deleteOrder(resource.id)
+                        : await services.user.deleteUser(resource.id);
+
+                if (!response.ok() && response.status() !== HTTP_STATUS.NOT_FOUND) {
+                    console.warn(`[Cleanup] Could not delete ${resource.type} ${resource.id}: status ${response.status()}`);
+                }
+            } catch (error) {
+                console.warn(`[Cleanup] Could not delete ${resource.type} ${resource.id}: ${(error as Error).message}`);
+            }
+            this.untrack(resource);
+        }
+    }
+}
+
+/**
+ * Compare two tracked resources
+ * @param a - Resource
+ * @param b - Resource
+ * @returns true if both designate the same resource
+ */
+function isSame(a: TrackedResource, b: TrackedResource): boolean {
+    return a.type === b.type && a.id === b.id;
+}
+
+/**
+ * Resources created by a successful POST
+ * @param request - Request sent
+ * @param body - Parsed response body
+ * @returns Created resources (empty for other endpoints)
+ */
+function createdBy(request: ApiRequest, body: unknown): TrackedResource[] {
+    switch (request.url) {
+        case buildUrl(PET_ENDPOINTS.BASE): {
+            const id = (body as Pet | undefined)?.id;
+            return isInt64(id) ? [{ type: 'pet', id }] : [];
+        }
+        case buildUrl(STORE_ENDPOINTS.ORDER): {
+            const id = (body as Order | undefined)?.id;
+            return isInt64(id) ? [{ type: 'order', id }] : [];
+        }
+        case buildUrl(USER_ENDPOINTS.BASE):
+            return usernames([request.options.data as User]);
+        case buildUrl(USER_ENDPOINTS.CREATE_WITH_ARRAY):
+        case buildUrl(USER_ENDPOINTS.CREATE_WITH_LIST):
+            return usernames(Array.isArray(request.options.data) ? request.options.data as User[] : []);
+        default:
+            return [];
+    }
+}
+
+/**
+ * Usernames of created users
+ * @param users - User payloads
+ * @returns Tracked user resources
+ */
+function usernames(users: (User | undefined)[]): TrackedResource[] {
+    return users
+        .map(user => user?.username)
+        .filter((username): username is string => typeof username === 'string' && username.length > 0)
+        .map(username => ({ type: 'user', id: username }));
+}
+
+/**
+ * URL that deletes a resource
+ * @param resource - Tracked resource
+ * @returns Relative delete URL
+ */
+function deleteUrl(resource: TrackedResource): string {
+    switch (resource.type) {
+        case 'pet':
+            return buildUrl(PET_ENDPOINTS.BY_ID, { petId: resource.id });
+        case 'order':
+            return buildUrl(STORE_ENDPOINTS.ORDER_BY_ID, { orderId: resource.id });
+        case 'user':
+            return buildUrl(USER_ENDPOINTS.BY_USERNAME, { username: resource.id });
+    }
+}
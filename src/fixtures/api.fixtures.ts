@@ -0,0 +1,127 @@
+/**
+ * API Test Fixtures
+ * Custom `test` providing ready-to-use services whose created resources are deleted after each test
+ * When a test fails, every request it sent is attached as curl commands and as an .http file
+ * Each test reseeds the test data generator from TEST_SEED and its title, and the seed is attached to the result
+ * Resilience tests send requests through a fault proxy (`faults` rules, `faultyRequest` context)
+ *
+ * Usage:
+ *   import { test, expect } from '@/fixtures/api.fixtures';
+ *   test('...', async ({ petService }) => { ... });
+ */
+
+import { test as base, APIRequestContext } from '@playwright/test';
+import { PetService } from '../api/services/pet/PetService';
+import { StoreService } from '../api/services/store/StoreService';
+import { UserService } from '../api/services/user/UserService';
+import { getApiLogger } from '../api/logging';
+import { getSentRequests, renderCurl, renderHttpSnippet } from '../api/reporting';
+import { TEST_CONFIG } from '../config';
+import { FaultProxy } from '../faults';
+import { deriveSeed, getRunSeed, seedRandom } from '../utils';
+import { ResourceTracker } from './ResourceTracker';
+
+/**
+ * Fixtures added to every test
+ */
+export interface ApiFixtures {
+    /** Resources created through the service fixtures, deleted in teardown */
+    resourceTracker: ResourceTracker;
+
+    petService: PetService;
+    storeService: StoreService;
+    userService: UserService;
+
+    /** Attaches the requests of a failed test as curl commands and an .http file (automatic) */
+    failedRequestExport: void;
+
+    /** Seed of the test's random data, derived from TEST_SEED and the test title (automatic) */
+    testDataSeed: number;
+
+    /** Fault rules of the test's proxy, removed in teardown */
+    faults: FaultProxy;
+
+    /** Request context sending through the fault proxy; build services on it to test their resilience */
+    faultyRequest: APIRequestContext;
+}
+
+/**
+ * Fixtures shared by the tests of a worker
+ */
+export interface ApiWorkerFixtures {
+    /** Proxy between the request context and TEST_CONFIG.api.baseURL, started on first use */
+    faultProxy: FaultProxy;
+}
+
+export const test = base.extend<ApiFixtures, ApiWorkerFixtures>({
+    resourceTracker: async ({ request }, use) => {
+        const tracker = new ResourceTracker();
+        await use(tracker);
+
+        if (TEST_CONFIG.testData.cleanupAfterTests && tracker.tracked.length > 0) {
+            await base.step(`Clean up ${tracker.tracked.length} created resource(s)`, async () => {
+                await tracker.cleanup(request);
+            });
+        }
+    },
+
+    petService: async ({ request, resourceTracker }, use) => {
+        await use(new PetService(request, { middlewares: [resourceTracker.middleware()] }));
+    },
+
+    storeService: async ({ request, resourceTracker }, use) => {
+        await use(new StoreService(request, { middlewares: [resourceTracker.middleware()] }));
+    },
+
+    userService: async ({ request, resourceTracker }, use) => {
+        await use(new UserService(request, { middlewares: [resourceTracker.middleware()] }));
+    },
+
+    failedRequestExport: [async ({}, use, testInfo) => {
+        await use();
+
+        const sent = getSentRequests(testInfo.testId);
+        if (testInfo.status === testInfo.expectedStatus || sent.length === 0) return;
+
+        const { redactor } = getApiLogger();
+        await testInfo.attach('curl', {
+            body: sent.map((request, index) => `# ${index + 1}. ${request.service}\n${renderCurl(request, redactor)}`).join('\n\n'),
+            contentType: 'text/plain'
+        });
+        await testInfo.attach('requests.http', {
+            body: sent.map(request => renderHttpSnippet(request, redactor)).join('\n\n'),
+            contentType: 'text/plain'
+        });
+    }, { auto: true }],
+
+    testDataSeed: [async ({}, use, testInfo) => {
+        const seed = deriveSeed(getRunSeed(), testInfo.titlePath.join(' › '));
+        seedRandom(seed);
+        await testInfo.attach('test-data-seed', {
+            body: `TEST_SEED=${getRunSeed()} (test seed ${seed})`,
+            contentType: 'text/plain'
+        });
+        await use(seed);
+    }, { auto: true }],
+
+    faultProxy: [async ({}, use) => {
+        const proxy = new FaultProxy({ target: TEST_CONFIG.api.baseURL });
+        await proxy.start();
+        await use(proxy);
+        await proxy.stop();
+    }, { scope: 'worker' }],
+
+    faults: async ({ faultProxy }, use) => {
+        faultProxy.reset();
+        await use(faultProxy);
+        faultProxy.reset();
+    },
+
+    faultyRequest: async ({ playwright, faults }, use) => {
+        const context = await playwright.request.newContext({ baseURL: faults.baseURL });
+        await use(context);
+        await context.dispose();
+    }
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,93 @@
+/**
+ * Order Builder
+ * Fluent builder of order payloads for POST /store/order
+ */
+
+import { Int64, Order, OrderStatus, Pet } from '@/api/types';
+import { generateRandomNumber } from '@/utils';
+import { SAMPLE_ORDER } from '../data/order.data';
+import { generateTestId } from '../factories/id.factory';
+import { PayloadBuilder } from './PayloadBuilder';
+
+/**
+ * OrderBuilder class starting from a placed, incomplete order with a unique id, a random pet id and quantity
+ *
+ * @example
+ * const order = new OrderBuilder().forPet(pet).withQuantity(2).build();
+ * const invalid = new OrderBuilder().invalidStatus().buildInvalid();
+ */
+export class OrderBuilder extends PayloadBuilder<Order> {
+    /**
+     * Constructor to initialize the builder with a valid order
+     */
+    constructor() {
+        super({
+            id: generateTestId(SAMPLE_ORDER.id!),
+            petId: generateRandomNumber(1, 1000),
+            quantity: generateRandomNumber(1, 5),
+            shipDate: new Date().toISOString(),
+            status: 'placed',
+            complete: false
+        }, []);
+    }
+
+    /**
+     * Set the id
+     * @param id - Order ID
+     * @returns This builder
+     */
+    withId(id: Int64): this {
+        return this.set('id', id);
+    }
+
+    /**
+     * Order the given pet
+     * @param pet - Pet with an id
+     * @returns This builder
+     * @throws Error if the pet has no id
+     */
+    forPet(pet: Pet): this {
+        if (pet.id === undefined) {
+            throw new Error(`Cannot order pet "${pet.name}" without an id`);
+        }
+        return this.set('petId', pet.id);
+    }
+
+    /**
+     * Set the quantity
+     * @param quantity - Number of pets ordered
+     * @returns This builder
+     */
+    withQuantity(quantity: number): this {
+        return this.set('quantity', quantity);
+    }
+
+    /**
+     * Set the status, and complete when given
+     * @param status - Order status
+     * @param complete - Whether the order is complete
+     * @returns This builder
+     */
+    withStatus(status: OrderStatus, complete?: boolean): this {
+        this.set('status', status);
+        return complete === undefined ? this : this.set('complete', complete);
+    }
+
+    /**
+     * Set the ship date
+     * @param shipDate - Date, or ISO 8601 string
+     * @returns This builder
+     */
+    withShipDate(shipDate: Date | string): this {
+        return this.set('shipDate', shipDate instanceof Date ? shipDate.toISOString() : shipDate);
+    }
+
+    /**
+     * Set a status outside placed, approved and delivered
+     * @param status - Invalid status
+     * @returns This builder
+     */
+    invalidStatus(status: string = 'invalid_status'): this {
+        return this.withInvalidField('status', status);
+    }
+}
@@ -0,0 +1,108 @@
+/**
+ * Payload Builder
+ * Base of the fluent builders producing request bodies, valid (build) or deliberately invalid (buildInvalid)
+ */
+
+import { InvalidPayload } from '@/api/types';
+
+/**
+ * PayloadBuilder class holding the fields of a payload and the ways it breaks the schema
+ * Subclasses add typed, chainable setters; every edit returns the builder.
+ */
+export abstract class PayloadBuilder<T extends object> {
+    private readonly fields: Record<string, unknown>;
+    private readonly violations = new Map<string, string>();
+
+    /**
+     * Constructor to initialize the builder
+     * @param defaults - Valid payload to start from
+     * @param requiredFields - Fields a valid payload must have
+     */
+    protected constructor(defaults: T, private readonly requiredFields: readonly (keyof T & string)[]) {
+        this.fields = { ...defaults } as Record<string, unknown>;
+    }
+
+    /**
+     * Override fields, like the factories' overrides
+     * @param overrides - Fields to set
+     * @returns This builder
+     */
+    with(overrides: Partial<T>): this {
+        for (const [field, value] of Object.entries(overrides)) {
+            this.set(field as keyof T & string, value as T[keyof T & string]);
+        }
+        return this;
+    }
+
+    /**
+     * Remove a field; removing a required one makes the payload invalid
+     * @param field - Field to remove
+     * @returns This builder
+     */
+    withoutField(field: keyof T & string): this {
+        delete this.fields[field];
+        if (this.requiredFields.includes(field)) {
+            this.violations.set(field, `without ${field}`);
+        }
+        return this;
+    }
+
+    /**
+     * Set a field to a value breaking the schema (wrong type, outside its enum, unknown field, ...)
+     * @param field - Field to set
+     * @param value - Invalid value
+     * @returns This builder
+     */
+    withInvalidField(field: string, value: unknown): this {
+        this.fields[field] = value;
+        this.violations.set(field, `${field}=${JSON.stringify(value) ?? String(value)}`);
+        return this;
+    }
+
+    /**
+     * Build the valid payload
+     * @returns Copy of the payload
+     * @throws Error if an edit made the payload invalid
+     */
+    build(): T {
+        if (this.violations.size > 0) {
+            throw new Error(
+                `${this.constructor.name} payload is invalid (${[...this.violations.values()].join(', ')}); use buildInvalid()`
+            );
+        }
+        return structuredClone(this.fields) as T;
+    }
+
+    /**
+     * Build the deliberately invalid payload
+     * @returns Copy of the payload, typed as invalid
+     * @throws Error if no edit made the payload invalid
+     */
+    buildInvalid(): InvalidPayload<T> {
+        if (this.violations.size === 0) {
+            throw new Error(`${this.constructor.name} payload is valid; use build()`);
+        }
+        return structuredClone(this.fields) as InvalidPayload<T>;
+    }
+
+    /**
+     * Set a field to a valid value, clearing an earlier violation of it
+     * @param field - Field to set
+     * @param value - Value
+     * @returns This builder
+     */
+    protected set<K extends keyof T & string>(field: K, value: T[K]): this {
+        this.fields[field] = value;
+        this.violations.delete(field);
+        return this;
+    }
+
+    /**
+     * Read the current value of a field
+     * @param field - Field to read
+     * @returns Value, or undefined when the field is unset
+     */
+    protected current<K extends keyof T & string>(field: K): T[K] | undefined {
+        return this.fields[field] as T[K] | undefined;
+    }
+}
@@ -0,0 +1,105 @@
+/**
+ * Pet Builder
+ * Fluent builder of pet payloads for POST /pet and PUT /pet
+ */
+
+import { Int64, Pet, PetCategory, PetStatus, PetTag } from '@/api/types';
+import { generateRandomString, getRandomItem } from '@/utils';
+import { PET_CATEGORIES, PET_TAGS, SAMPLE_PET } from '../data/pet.data';
+import { generateTestId, generateTestName } from '../factories/id.factory';
+import { PayloadBuilder } from './PayloadBuilder';
+
+/**
+ * PetBuilder class starting from an available pet with a unique id and name, a random category and tag
+ *
+ * @example
+ * const pet = new PetBuilder().withCategory(PET_CATEGORIES[1]).addTag(PET_TAGS[2]).build();
+ * const invalid = new PetBuilder().withoutField('photoUrls').buildInvalid();
+ */
+export class PetBuilder extends PayloadBuilder<Pet> {
+    /**
+     * Constructor to initialize the builder with a valid pet
+     */
+    constructor() {
+        super({
+            id: generateTestId(SAMPLE_PET.id!),
+            name: generateTestName('TestPet', SAMPLE_PET.id!),
+            photoUrls: [`https://example.com/photo_${generateRandomString(8)}.jpg`],
+            status: 'available',
+            category: getRandomItem(PET_CATEGORIES),
+            tags: [getRandomItem(PET_TAGS)]
+        }, ['name', 'photoUrls', 'status']);
+    }
+
+    /**
+     * Set the id
+     * @param id - Pet ID
+     * @returns This builder
+     */
+    withId(id: Int64): this {
+        return this.set('id', id);
+    }
+
+    /**
+     * Set the name
+     * @param name - Pet name
+     * @returns This builder
+     */
+    withName(name: string): this {
+        return this.set('name', name);
+    }
+
+    /**
+     * Set the status
+     * @param status - Pet status
+     * @returns This builder
+     */
+    withStatus(status: PetStatus): this {
+        return this.set('status', status);
+    }
+
+    /**
+     * Set the category
+     * @param category - Pet category
+     * @returns This builder
+     */
+    withCategory(category: PetCategory): this {
+        return this.set('category', category);
+    }
+
+    /**
+     * Replace the tags
+     * @param tags - Pet tags (none for an empty list)
+     * @returns This builder
+     */
+    withTags(...tags: PetTag[]): this {
+        return this.set('tags', tags);
+    }
+
+    /**
+     * Append a tag to the current ones
+     * @param tag - Pet tag
+     * @returns This builder
+     */
+    addTag(tag: PetTag): this {
+        return this.set('tags', [...(this.current('tags') ?? []), tag]);
+    }
+
+    /**
+     * Replace the photo URLs
+     * @param photoUrls - Photo URLs (none for an empty list)
+     * @returns This builder
+     */
+    withPhotoUrls(...photoUrls: string[]): this {
+        return this.set('photoUrls', photoUrls);
+    }
+
+    /**
+     * Set a status outside available, pending and sold
+     * @param status - Invalid status
+     * @returns This builder
+     */
+    invalidStatus(status: string = 'invalid_status'): this {
+        return this.withInvalidField('status', status);
+    }
+}
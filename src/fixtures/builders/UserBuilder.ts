@@ -0,0 +1,109 @@
+/**
+ * User Builder
+ * Fluent builder of user payloads for POST /user and PUT /user/{username}
+ */
+
+import { Int64, User } from '@/api/types';
+import { SAMPLE_USER } from '../data/user.data';
+import { generateTestId, generateTestName } from '../factories/id.factory';
+import { PayloadBuilder } from './PayloadBuilder';
+
+/**
+ * UserBuilder class starting from an active user with a unique id and username
+ *
+ * @example
+ * const user = new UserBuilder().withCredentials('jdoe', 'Secret@1').withName('John', 'Doe').build();
+ * const invalid = new UserBuilder().invalidUserStatus().buildInvalid();
+ */
+export class UserBuilder extends PayloadBuilder<User> {
+    /**
+     * Constructor to initialize the builder with a valid user
+     */
+    constructor() {
+        const username = generateTestName('testuser', SAMPLE_USER.id!);
+        super({
+            id: generateTestId(SAMPLE_USER.id!),
+            username,
+            firstName: 'Test',
+            lastName: 'User',
+            email: `${username}@example.com`,
+            password: 'Test@123',
+            phone: '+1234567890',
+            userStatus: 1
+        }, []);
+    }
+
+    /**
+     * Set the id
+     * @param id - User ID
+     * @returns This builder
+     */
+    withId(id: Int64): this {
+        return this.set('id', id);
+    }
+
+    /**
+     * Set the username, and an email derived from it
+     * @param username - Username
+     * @returns This builder
+     */
+    withUsername(username: string): this {
+        return this.set('username', username).set('email', `${username}@example.com`);
+    }
+
+    /**
+     * Set the username (and derived email) and the password
+     * @param username - Username
+     * @param password - Password
+     * @returns This builder
+     */
+    withCredentials(username: string, password: string): this {
+        return this.withUsername(username).set('password', password);
+    }
+
+    /**
+     * Set the first and last name
+     * @param firstName - First name
+     * @param lastName - Last name
+     * @returns This builder
+     */
+    withName(firstName: string, lastName: string): this {
+        return this.set('firstName', firstName).set('lastName', lastName);
+    }
+
+    /**
+     * Set the email
+     * @param email - Email address
+     * @returns This builder
+     */
+    withEmail(email: string): this {
+        return this.set('email', email);
+    }
+
+    /**
+     * Set the phone number
+     * @param phone - Phone number
+     * @returns This builder
+     */
+    withPhone(phone: string): this {
+        return this.set('phone', phone);
+    }
+
+    /**
+     * Set the status
+     * @param userStatus - User status (0 = inactive, 1 = active, etc.)
+     * @returns This builder
+     */
+    withUserStatus(userStatus: number): this {
+        return this.set('userStatus', userStatus);
+    }
+
+    /**
+     * Set a non-integer status
+     * @param userStatus - Invalid status
+     * @returns This builder
+     */
+    invalidUserStatus(userStatus: unknown = 'active'): this {
+        return this.withInvalidField('userStatus', userStatus);
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * Barrel export file for the payload builders
+ */
+
+export { PayloadBuilder } from './PayloadBuilder';
+export { PetBuilder } from './PetBuilder';
+export { OrderBuilder } from './OrderBuilder';
+export { UserBuilder } from './UserBuilder';
@@ -4,12 +4,18 @@
  */
 
 import { Order, OrderStatus } from '../../api/types';
+import { IdRange } from '../../utils';
 
 /**
  * Valid order status values
  */
 export const VALID_ORDER_STATUSES: OrderStatus[] = ['placed', 'approved', 'delivered'];
 
+/**
+ * Order ids GET /store/order/{orderId} documents as valid ("IDs with value >= 1 and <= 10")
+ */
+export const VALID_ORDER_ID_RANGE: IdRange = { min: 1, max: 10 };
+
 /**
  * Sample order data for positive testing
  */
@@ -3,7 +3,7 @@
  * Predefined test data for various test scenarios
  */
 
-import { Pet, PetStatus } from '../../api/types';
+import { Pet, PetCategory, PetStatus, PetTag } from '../../api/types';
 
 /**
  * Valid pet names for testing
@@ -18,6 +18,26 @@ export const VALID_PET_NAMES = [
  */
 export const VALID_PET_STATUSES: PetStatus[] = ['available', 'pending', 'sold'];
 
+/**
+ * Pet categories the factories pick from
+ */
+export const PET_CATEGORIES: PetCategory[] = [
+    { id: 1, name: 'Dogs' },
+    { id: 2, name: 'Cats' },
+    { id: 3, name: 'Birds' },
+    { id: 4, name: 'Fish' }
+];
+
+/**
+ * Pet tags the factories pick from
+ */
+export const PET_TAGS: PetTag[] = [
+    { id: 1, name: 'friendly' },
+    { id: 2, name: 'energetic' },
+    { id: 3, name: 'calm' },
+    { id: 4, name: 'playful' }
+];
+
 /**
  * Sample pet data for positive testing
  */
@@ -0,0 +1,48 @@
+/**
+ * ID Data Factory
+ * Ids and names for the entity factories: unique per worker and run, or fixed when
+ * TEST_CONFIG.testData.useDynamicIds is false (e.g. to replay cassettes recorded with the same data)
+ */
+
+import { toInt64 } from '@/api/json';
+import { Int64 } from '@/api/types';
+import { TEST_CONFIG } from '@/config';
+import { MAX_INT64, UniqueIdOptions, generateUniqueId, generateUniqueInt64Id } from '@/utils';
+
+/**
+ * Options of the test ID generators
+ */
+export interface TestIdOptions extends UniqueIdOptions {
+    /** Position within a batch; fixed ids are offset by it */
+    index?: number;
+}
+
+/**
+ * Generate an ID for a test entity
+ * @param fixedId - ID used when dynamic ids are disabled (from src/fixtures/data)
+ * @param options - Range, int64 and batch options
+ * @returns A unique ID, or fixedId + index when dynamic ids are disabled
+ * @throws Error if both a range and beyondSafeInteger are requested
+ */
+export function generateTestId(fixedId: Int64, options: TestIdOptions = {}): Int64 {
+    const { beyondSafeInteger, range, index = 0 } = options;
+    if (beyondSafeInteger && range) {
+        throw new Error('An ID cannot be both within a range and beyond Number.MAX_SAFE_INTEGER');
+    }
+
+    if (!TEST_CONFIG.testData.useDynamicIds) {
+        return beyondSafeInteger ? MAX_INT64 - BigInt(index) : toInt64(BigInt(fixedId) + BigInt(index));
+    }
+    return beyondSafeInteger ? generateUniqueInt64Id() : generateUniqueId(range);
+}
+
+/**
+ * Generate a name for a test entity
+ * @param prefix - Name prefix
+ * @param fixedId - ID used in the name when dynamic ids are disabled
+ * @param index - Position within a batch
+ * @returns "<prefix>_<id>"
+ */
+export function generateTestName(prefix: string, fixedId: Int64, index: number = 0): string {
+    return `${prefix}_${generateTestId(fixedId, { index })}`;
+}
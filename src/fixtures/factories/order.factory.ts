@@ -3,41 +3,29 @@
  * Factory functions for generating dynamic order test data
  */
 
-import { Order, OrderStatus } from '@/api/types';
-import { generateUniqueId } from '@/utils';
+import { Int64, Order, OrderStatus } from '@/api/types';
+import { generateRandomNumber, getRandomItem, random } from '@/utils';
+import { OrderBuilder } from '../builders/OrderBuilder';
+import { SAMPLE_ORDER, VALID_ORDER_STATUSES } from '../data/order.data';
+import { TestIdOptions, generateTestId } from './id.factory';
 
 /**
- * Valid order status values
- */
-const ORDER_STATUSES: OrderStatus[] = ['placed', 'approved', 'delivered'];
-
-/**
- * Generate a unique order ID based on timestamp
+ * Generate a unique order ID (SAMPLE_ORDER's when dynamic ids are disabled)
+ * @param options - { range: VALID_ORDER_ID_RANGE } for an ID GET /store/order/{orderId} accepts,
+ *                  { beyondSafeInteger: true } for an ID beyond Number.MAX_SAFE_INTEGER, a batch index
  * @returns A unique order ID
  */
-export function generateUniqueOrderId(): number {
-    return generateUniqueId();
+export function generateUniqueOrderId(options: TestIdOptions = {}): Int64 {
+    return generateTestId(SAMPLE_ORDER.id!, options);
 }
 
 /**
- * Create a new order data object with dynamic values
+ * Create a new order data object with dynamic values (see OrderBuilder for invalid payloads)
  * @param overrides - Optional overrides for specific order properties
  * @returns An Order object with test data
  */
 export function createOrderData(overrides: Partial<Order> = {}): Order {
-    const defaultOrder: Order = {
-        id: generateUniqueOrderId(),
-        petId: Math.floor(Math.random() * 1000) + 1,
-        quantity: Math.floor(Math.random() * 5) + 1,
-        shipDate: new Date().toISOString(),
-        status: 'placed',
-        complete: false
-    };
-
-    return {
-        ...defaultOrder,
-        ...overrides
-    };
+    return new OrderBuilder().with(overrides).build();
 }
 
 /**
@@ -65,7 +53,7 @@ export function createMultipleOrders(
 ): Order[] {
     return Array.from({ length: count }, (_, index) =>
         createOrderData({
-            id: Date.now() + index,
+            id: generateUniqueOrderId({ index }),
             ...baseOverrides
         })
     );
@@ -76,12 +64,10 @@ export function createMultipleOrders(
  * @returns Order with randomized values
  */
 export function createRandomOrder(): Order {
-    const randomStatus = ORDER_STATUSES[Math.floor(Math.random() * ORDER_STATUSES.length)];
-    return createOrderData({
-        status: randomStatus,
-        quantity: Math.floor(Math.random() * 10) + 1,
-        complete: Math.random() > 0.5
-    });
+    return new OrderBuilder()
+        .withStatus(getRandomItem(VALID_ORDER_STATUSES), random() > 0.5)
+        .withQuantity(generateRandomNumber(1, 10))
+        .build();
 }
 
 /**
@@ -3,60 +3,28 @@
  * Factory functions for generating dynamic pet test data
  */
 
-import { Pet, PetCategory, PetTag, PetStatus } from '@/api/types';
-import { generateUniqueId, generateUniqueName, getRandomItem } from '@/utils';
+import { Int64, Pet, PetStatus } from '@/api/types';
+import { getRandomItem } from '@/utils';
+import { PetBuilder } from '../builders/PetBuilder';
+import { PET_CATEGORIES, PET_TAGS, SAMPLE_PET, VALID_PET_STATUSES } from '../data/pet.data';
+import { TestIdOptions, generateTestId, generateTestName } from './id.factory';
 
 /**
- * Default pet categories
- */
-const DEFAULT_CATEGORIES: PetCategory[] = [
-    { id: 1, name: 'Dogs' },
-    { id: 2, name: 'Cats' },
-    { id: 3, name: 'Birds' },
-    { id: 4, name: 'Fish' }
-];
-
-/**
- * Default pet tags
- */
-const DEFAULT_TAGS: PetTag[] = [
-    { id: 1, name: 'friendly' },
-    { id: 2, name: 'energetic' },
-    { id: 3, name: 'calm' },
-    { id: 4, name: 'playful' }
-];
-
-/**
- * Pet status options
- */
-const PET_STATUSES: PetStatus[] = ['available', 'pending', 'sold'];
-
-/**
- * Generate a unique pet ID based on timestamp
+ * Generate a unique pet ID (SAMPLE_PET's when dynamic ids are disabled)
+ * @param options - { beyondSafeInteger: true } for an ID beyond Number.MAX_SAFE_INTEGER, a range, a batch index
  * @returns A unique pet ID
  */
-export function generateUniquePetId(): number {
-    return generateUniqueId();
+export function generateUniquePetId(options: TestIdOptions = {}): Int64 {
+    return generateTestId(SAMPLE_PET.id!, options);
 }
 
 /**
- * Create a new pet data object with dynamic values
+ * Create a new pet data object with dynamic values (see PetBuilder for nested edits and invalid payloads)
  * @param overrides - Optional overrides for specific pet properties
  * @returns A Pet object with test data
  */
 export function createPetData(overrides: Partial<Pet> = {}): Pet {
-    const timestamp = Date.now();
-    const defaultName = generateUniqueName('TestPet');
-
-    return {
-        id: generateUniquePetId(),
-        name: defaultName,
-        photoUrls: [`https://example.com/photo_${timestamp}.jpg`],
-        status: 'available',
-        category: getRandomItem(DEFAULT_CATEGORIES),
-        tags: [getRandomItem(DEFAULT_TAGS)],
-        ...overrides
-    };
+    return new PetBuilder().with(overrides).build();
 }
 
 /**
@@ -97,7 +65,8 @@ export function createMultiplePets(
 ): Pet[] {
     return Array.from({ length: count }, (_, index) =>
         createPetData({
-            name: `Pet_${index + 1}_${Date.now()}`,
+            id: generateUniquePetId({ index }),
+            name: generateTestName(`Pet_${index + 1}`, SAMPLE_PET.id!, index),
             ...baseOverrides
         })
     );
@@ -108,9 +77,9 @@ export function createMultiplePets(
  * @returns Pet with randomized values
  */
 export function createRandomPet(): Pet {
-    return createPetData({
-        status: getRandomItem(PET_STATUSES),
-        category: getRandomItem(DEFAULT_CATEGORIES),
-        tags: [getRandomItem(DEFAULT_TAGS)]
-    });
+    return new PetBuilder()
+        .withStatus(getRandomItem(VALID_PET_STATUSES))
+        .withCategory(getRandomItem(PET_CATEGORIES))
+        .withTags(getRandomItem(PET_TAGS))
+        .build();
 }
@@ -4,15 +4,19 @@
  */
 
 import { User } from '@/api/types';
-import { generateUniqueId, generateRandomString } from '@/utils';
+import { generateRandomString } from '@/utils';
+import { UserBuilder } from '../builders/UserBuilder';
+import { SAMPLE_USER } from '../data/user.data';
+import { generateTestId, generateTestName } from './id.factory';
 
 /**
- * Generate a unique username based on timestamp
+ * Generate a unique username (ending in SAMPLE_USER's id when dynamic ids are disabled)
  * @param prefix - Optional prefix for username
+ * @param index - Position within a batch
  * @returns A unique username
  */
-export function generateUniqueUsername(prefix: string = 'user'): string {
-    return `${prefix}_${Date.now()}`;
+export function generateUniqueUsername(prefix: string = 'user', index: number = 0): string {
+    return generateTestName(prefix, SAMPLE_USER.id!, index);
 }
 
 /**
@@ -26,29 +30,12 @@ export function generateEmail(username?: string): string {
 }
 
 /**
- * Create a new user data object with dynamic values
+ * Create a new user data object with dynamic values (see UserBuilder for invalid payloads)
  * @param overrides - Optional overrides for specific user properties
  * @returns A User object with test data
  */
 export function createUserData(overrides: Partial<User> = {}): User {
-    const timestamp = Date.now();
-    const defaultUsername = `testuser_${timestamp}`;
-
-    const defaultUser: User = {
-        id: generateUniqueId(),
-        username: defaultUsername,
-        firstName: 'Test',
-        lastName: 'User',
-        email: generateEmail(defaultUsername),
-        password: 'Test@123',
-        phone: '+1234567890',
-        userStatus: 1
-    };
-
-    return {
-        ...defaultUser,
-        ...overrides
-    };
+    return new UserBuilder().with(overrides).build();
 }
 
 /**
@@ -62,8 +49,9 @@ export function createMultipleUsers(
     baseOverrides: Partial<User> = {}
 ): User[] {
     return Array.from({ length: count }, (_, index) => {
-        const username = `user_${Date.now()}_${index}`;
+        const username = generateUniqueUsername('user', index);
         return createUserData({
+            id: generateTestId(SAMPLE_USER.id!, { index }),
             username,
             email: generateEmail(username),
             ...baseOverrides
@@ -4,6 +4,8 @@
  */
 
 import { APIResponse } from '@playwright/test';
+import { JsonSchema, assertSchema } from '../api/schemas';
+import { parseJson } from '../api/json';
 
 /**
  * Validate API response status
@@ -26,16 +28,26 @@ export async function validateResponseStatus(
 
 /**
  * Parse JSON response with error handling
+ * Integers beyond Number.MAX_SAFE_INTEGER (int64 ids) are returned as exact bigints
+ * When a schema is given, the body is validated against it before being returned
  * @param response - API response object
+ * @param schema - Optional schema the body must match (e.g. PET_SCHEMA)
  * @returns Parsed JSON data
+ * @throws SchemaValidationError listing every mismatch if the body does not match the schema
  */
-export async function parseJsonResponse<T>(response: APIResponse): Promise<T> {
+export async function parseJsonResponse<T>(response: APIResponse, schema?: JsonSchema<T>): Promise<T> {
+    const text = await response.text();
+    let body: unknown;
     try {
-        return await response.json();
-    } catch (error) {
-        const text = await response.text();
-        throw new Error(`Failed to parse JSON response. Body: ${text}`);
+        body = parseJson(text);
+    } catch {
+        const contentType = response.headers()['content-type'] || 'none';
+        throw new Error(
+            `Failed to parse JSON response (HTTP ${response.status()}, Content-Type: ${contentType}). Body: ${text || '<empty>'}`
+        );
     }
+
+    return schema ? assertSchema(body, schema) : body as T;
 }
 
 /**
@@ -50,48 +62,22 @@ export function isSuccessResponse(response: APIResponse): boolean {
 
 /**
  * Extract error message from response
+ * Bodies that are not a JSON object (truncated, HTML, plain text) are returned as text
  * @param response - API response object
- * @returns Error message string
+ * @returns Error message string, "Unknown error" if the body carries none
  */
 export async function getErrorMessage(response: APIResponse): Promise<string> {
+    const text = await response.text();
+    let json: unknown;
     try {
-        const json = await response.json();
-        return json.message || json.error || 'Unknown error';
+        json = parseJson(text);
     } catch {
-        return await response.text();
+        return text || 'Unknown error';
     }
-}
 
-/**
- * Log API request details (for debugging)
- * @param method - HTTP method
- * @param url - Request URL
- * @param data - Request data (optional)
- */
-export function logApiRequest(
-    method: string,
-    url: string,
-    data?: unknown
-): void {
-    console.log(`[API Request] ${method} ${url}`);
-    if (data) {
-        console.log('[Request Data]', JSON.stringify(data, null, 2));
-    }
-}
-
-/**
- * Log API response details (for debugging)
- * @param response - API response object
- */
-export async function logApiResponse(response: APIResponse): Promise<void> {
-    const status = response.status();
-    const url = response.url();
-    console.log(`[API Response] ${status} ${url}`);
-
-    try {
-        const body = await response.text();
-        console.log('[Response Body]', body);
-    } catch (error) {
-        console.log('[Response Body] Unable to read');
+    if (json && typeof json === 'object' && !Array.isArray(json)) {
+        const { message, error } = json as { message?: unknown; error?: unknown };
+        return String(message || error || 'Unknown error');
     }
+    return typeof json === 'string' && json ? json : 'Unknown error';
 }
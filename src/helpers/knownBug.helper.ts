@@ -0,0 +1,42 @@
+/**
+ * Known Bug Helper Functions
+ * Marks tests covering registered API bugs as expected-to-fail
+ */
+
+import { test } from '@playwright/test';
+import * as allure from 'allure-js-commons';
+import { KNOWN_BUGS, KNOWN_BUG_ANNOTATION, KnownBug, KnownBugKey, MESSAGES } from '../constants';
+import { ENV_CONFIG } from '../config';
+
+/**
+ * Check whether a known bug reproduces in an environment
+ * @param bug - Known bug definition
+ * @param environment - Environment name (defaults to ENV_CONFIG.current)
+ * @returns true if the bug is registered for the environment
+ */
+export function isKnownBugActive(bug: KnownBug, environment: string = ENV_CONFIG.current): boolean {
+    return bug.environments.includes(environment);
+}
+
+/**
+ * Mark the current test as expected to fail when its known bug is active
+ * The bug ID is added as a Playwright annotation and an Allure label.
+ * If the test passes anyway, Playwright reports it as an unexpected pass
+ * and KnownBugReporter flags the bug as fixed upstream.
+ * @param key - Key of the bug in KNOWN_BUGS
+ */
+export async function markKnownBug(key: KnownBugKey): Promise<void> {
+    const bug: KnownBug = KNOWN_BUGS[key];
+    if (!isKnownBugActive(bug)) return;
+
+    test.info().annotations.push({
+        type: KNOWN_BUG_ANNOTATION,
+        description: `${bug.id} | ${bug.endpoint} | ${bug.description}`
+    });
+    await allure.label('knownBug', bug.id);
+    if (bug.url) {
+        await allure.issue(bug.url, bug.id);
+    }
+
+    test.fail(true, `${MESSAGES.ERROR.API_BUG} [${bug.id}] ${bug.description}`);
+}
@@ -0,0 +1,71 @@
+import { Int64, Pet, Order, User } from '../api/types';
+
+/**
+ * MockState class holding the in-memory data of the Petstore mock server
+ * State is shared by all requests so CRUD flows behave like a real backend
+ */
+export class MockState {
+    readonly pets = new Map<Int64, Pet>();
+    readonly orders = new Map<Int64, Order>();
+    readonly users = new Map<string, User>();
+
+    /** Access tokens issued by the oauth/token route */
+    readonly accessTokens = new Set<string>();
+
+    /** Open login sessions: session token to username */
+    readonly sessions = new Map<string, string>();
+
+    private nextPetId = 1;
+    private nextOrderId = 1;
+    private nextUserId = 1;
+    private nextSession = 1;
+
+    /**
+     * Allocate an ID for a pet created without one
+     * @returns A pet ID not currently in use
+     */
+    allocatePetId(): number {
+        while (this.pets.has(this.nextPetId)) this.nextPetId++;
+        return this.nextPetId++;
+    }
+
+    /**
+     * Allocate an ID for an order placed without one
+     * @returns An order ID not currently in use
+     */
+    allocateOrderId(): number {
+        while (this.orders.has(this.nextOrderId)) this.nextOrderId++;
+        return this.nextOrderId++;
+    }
+
+    /**
+     * Allocate an ID for a user created without one
+     * @returns A sequential user ID
+     */
+    allocateUserId(): number {
+        return this.nextUserId++;
+    }
+
+    /**
+     * Allocate a login session token
+     * @returns Numeric token, unique even for logins in the same millisecond
+     */
+    allocateSessionToken(): string {
+        return `${Date.now()}${this.nextSession++}`;
+    }
+
+    /**
+     * Remove all stored data and restart ID sequences
+     */
+    reset(): void {
+        this.pets.clear();
+        this.orders.clear();
+        this.users.clear();
+        this.accessTokens.clear();
+        this.sessions.clear();
+        this.nextPetId = 1;
+        this.nextOrderId = 1;
+        this.nextUserId = 1;
+        this.nextSession = 1;
+    }
+}
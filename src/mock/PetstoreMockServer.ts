@@ -0,0 +1,248 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MockState } from './MockState';
+import { MockRequest, MockResponse, MockRoute } from './types';
+import { apiMessage, profileRejection } from './mock.helper';
+import { AUTH_ROUTES } from './routes/auth.routes';
+import { PET_ROUTES } from './routes/pet.routes';
+import { STORE_ROUTES } from './routes/store.routes';
+import { USER_ROUTES } from './routes/user.routes';
+import { BEHAVIOR_PROFILES, BehaviorProfile } from '../config/behaviorProfiles';
+import { stringifyJson } from '../api/json';
+
+/**
+ * Options for the Petstore mock server
+ */
+export interface MockServerOptions {
+    /** Host interface to bind (defaults to 127.0.0.1) */
+    host?: string;
+
+    /** Base path the API is served under (defaults to /v2/) */
+    basePath?: string;
+
+    /** Target behavior to emulate (defaults to swagger-public) */
+    profile?: BehaviorProfile;
+
+    /** Value of the api_key header accepted by api_key operations (defaults to "special-key") */
+    apiKey?: string;
+}
+
+/**
+ * PetstoreMockServer class serving an in-memory Petstore v2 API
+ * Lets the whole suite run offline by pointing API_BASE_URL at the local server
+ */
+export class PetstoreMockServer {
+    readonly state = new MockState();
+    readonly profile: BehaviorProfile;
+
+    private readonly routes: MockRoute[] = [...PET_ROUTES, ...STORE_ROUTES, ...USER_ROUTES, ...AUTH_ROUTES];
+    private readonly host: string;
+    private readonly basePath: string;
+    private readonly apiKey: string;
+    private server?: http.Server;
+
+    /**
+     * Constructor to initialize the mock server
+     * @param options - Optional host, base path, behavior profile and API key settings
+     */
+    constructor(options: MockServerOptions = {}) {
+        this.host = options.host || '127.0.0.1';
+        this.basePath = options.basePath || '/v2/';
+        this.profile = options.profile || BEHAVIOR_PROFILES['swagger-public'];
+        this.apiKey = options.apiKey || 'special-key';
+    }
+
+    /**
+     * Start listening for requests
+     * @param port - Port to bind (0 picks a free port)
+     * @returns Base URL of the running API, ending with a slash
+     */
+    async start(port: number = 0): Promise<string> {
+        if (this.server) return this.baseURL;
+
+        const server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                res.writeHead(500, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ code: 500, type: 'unknown', message: String(error) }));
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, this.host, () => resolve());
+        });
+
+        this.server = server;
+        return this.baseURL;
+    }
+
+    /**
+     * Stop the server and close open connections
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+
+        this.server = undefined;
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    /**
+     * Base URL of the running API
+     * @throws Error if the server has not been started
+     */
+    get baseURL(): string {
+        if (!this.server) {
+            throw new Error('Mock server is not running');
+        }
+        const { port } = this.server.address() as AddressInfo;
+        return `http://${this.host}:${port}${this.basePath}`;
+    }
+
+    /**
+     * Dispatch an incoming request to the matching route
+     * @param req - Node request
+     * @param res - Node response
+     */
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await this.readBody(req);
+        const url = new URL(req.url || '/', 'http://localhost');
+        const method = (req.method || 'GET').toUpperCase();
+
+        let response: MockResponse;
+        if (!url.pathname.startsWith(this.basePath)) {
+            response = apiMessage(404, 'HTTP 404 Not Found');
+        } else {
+            const path = url.pathname.slice(this.basePath.length).replace(/\/+$/, '');
+            response = this.route({
+                method,
+                path,
+                params: {},
+                query: url.searchParams,
+                headers: req.headers,
+                body
+            });
+        }
+
+        this.send(res, response);
+    }
+
+    /**
+     * Find the route for a request and run its handler
+     * @param request - Parsed request without path params
+     * @returns Handler response, 401/403 for rejected credentials, 404 for unknown paths or 405 for unsupported methods
+     */
+    private route(request: MockRequest): MockResponse {
+        const segments = request.path.split('/');
+        let pathMatched = false;
+
+        for (const route of this.routes) {
+            const params = this.matchPath(route.path, segments);
+            if (!params) continue;
+
+            pathMatched = true;
+            if (route.method === request.method) {
+                return this.checkCredentials(route, request)
+                    ?? route.handler({ ...request, params }, this.state, this.profile);
+            }
+        }
+
+        return pathMatched
+            ? apiMessage(405, 'HTTP 405 Method Not Allowed')
+            : apiMessage(404, 'HTTP 404 Not Found');
+    }
+
+    /**
+     * Check the credentials of a protected operation the way the behavior profile expects
+     * @param route - Matched route
+     * @param request - Incoming request
+     * @returns Rejection response, or undefined if the route is public or the credentials are accepted
+     */
+    private checkCredentials(route: MockRoute, request: MockRequest): MockResponse | undefined {
+        if (!route.security?.length) return undefined;
+
+        const apiKey = request.headers['api_key'];
+        const authorization = /^Bearer (.+)$/i.exec(request.headers.authorization || '');
+        const supplied = route.security.filter(scheme => scheme === 'api_key' ? apiKey !== undefined : authorization !== null);
+
+        if (supplied.length === 0) {
+            return profileRejection(this.profile.expectedStatus.requestWithoutCredentials, 'Unauthorized');
+        }
+
+        const accepted = supplied.some(scheme => scheme === 'api_key'
+            ? apiKey === this.apiKey
+            : this.state.accessTokens.has(authorization![1]));
+        return accepted
+            ? undefined
+            : profileRejection(this.profile.expectedStatus.requestWithInvalidCredentials, 'Forbidden');
+    }
+
+    /**
+     * Match request path segments against a route template
+     * @param template - Route path template (e.g. "pet/{petId}")
+     * @param segments - Raw request path segments
+     * @returns Decoded path params, or undefined if the path does not match
+     */
+    private matchPath(template: string, segments: string[]): Record<string, string> | undefined {
+        const parts = template.split('/');
+        if (parts.length !== segments.length) return undefined;
+
+        const params: Record<string, string> = {};
+        for (let i = 0; i < parts.length; i++) {
+            const param = /^\{(\w+)\}$/.exec(parts[i]);
+            if (param) {
+                params[param[1]] = this.decodeSegment(segments[i]);
+            } else if (parts[i] !== segments[i]) {
+                return undefined;
+            }
+        }
+        return params;
+    }
+
+    /**
+     * Decode a path segment, keeping it raw if it is not valid percent-encoding
+     * @param segment - Raw path segment
+     * @returns Decoded segment
+     */
+    private decodeSegment(segment: string): string {
+        try {
+            return decodeURIComponent(segment);
+        } catch {
+            return segment;
+        }
+    }
+
+    /**
+     * Read the full request body
+     * @param req - Node request
+     * @returns Body buffer
+     */
+    private async readBody(req: http.IncomingMessage): Promise<Buffer> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks);
+    }
+
+    /**
+     * Write a mock response to the socket
+     * @param res - Node response
+     * @param response - Mock response
+     */
+    private send(res: http.ServerResponse, response: MockResponse): void {
+        const headers: Record<string, string> = { ...response.headers };
+        let payload = '';
+
+        if (response.body !== undefined) {
+            const isText = typeof response.body === 'string';
+            payload = isText ? response.body as string : stringifyJson(response.body);
+            headers['Content-Type'] = headers['Content-Type'] || (isText ? 'text/plain' : 'application/json');
+        }
+
+        headers['Content-Length'] = String(Buffer.byteLength(payload));
+        res.writeHead(response.status, headers);
+        res.end(payload);
+    }
+}
@@ -0,0 +1,15 @@
+/**
+ * Barrel export file for the Petstore mock server
+ */
+
+export { PetstoreMockServer } from './PetstoreMockServer';
+export type { MockServerOptions } from './PetstoreMockServer';
+export { MockState } from './MockState';
+export type {
+    MockRequest,
+    MockResponse,
+    MockHandler,
+    MockRoute,
+    MockSecurityScheme,
+    MockApiMessage
+} from './types';
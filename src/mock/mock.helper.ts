@@ -0,0 +1,125 @@
+/**
+ * Mock Server Helper Functions
+ * Request parsing and response building utilities for mock route handlers
+ */
+
+import { MockRequest, MockResponse, MockApiMessage } from './types';
+import { Int64 } from '../api/types';
+import { parseJson, toInt64 } from '../api/json';
+
+/**
+ * Build a Petstore-style message response
+ * @param status - HTTP status code
+ * @param message - Message text
+ * @param type - Message type (Petstore uses "unknown" for success and "error" for lookups)
+ * @param code - Body code (defaults to the HTTP status)
+ * @returns MockResponse with a { code, type, message } body
+ */
+export function apiMessage(
+    status: number,
+    message: string,
+    type: string = 'unknown',
+    code: number = status
+): MockResponse {
+    const body: MockApiMessage = { code, type, message };
+    return { status, body };
+}
+
+/**
+ * Build the rejection a behavior profile expects for a scenario
+ * @param expectedStatus - Status the active profile expects
+ * @param message - Message used when the profile rejects the request
+ * @returns Rejection response, or undefined when the profile accepts the request (200)
+ */
+export function profileRejection(expectedStatus: number, message: string): MockResponse | undefined {
+    return expectedStatus === 200 ? undefined : apiMessage(expectedStatus, message);
+}
+
+/**
+ * Parse the request body as JSON
+ * @param request - Mock request
+ * @returns Parsed JSON value, or undefined if the body is empty or malformed
+ */
+export function parseJsonBody<T>(request: MockRequest): T | undefined {
+    if (request.body.length === 0) return undefined;
+    try {
+        return parseJson<T>(request.body.toString('utf-8'));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Parse a numeric path parameter
+ * @param value - Raw parameter value
+ * @returns Parsed integer (a bigint beyond Number.MAX_SAFE_INTEGER), or undefined if the value is not an integer
+ */
+export function parseId(value: string): Int64 | undefined {
+    return /^-?\d+$/.test(value) ? toInt64(value) : undefined;
+}
+
+/**
+ * Build the response Petstore returns for a non-numeric ID
+ * @param value - Raw parameter value
+ * @returns 404 response mirroring the Java NumberFormatException message
+ */
+export function invalidIdResponse(value: string): MockResponse {
+    return apiMessage(404, `java.lang.NumberFormatException: For input string: "${value}"`);
+}
+
+/**
+ * Parse an application/x-www-form-urlencoded body
+ * @param request - Mock request
+ * @returns Parsed form fields
+ */
+export function parseFormBody(request: MockRequest): URLSearchParams {
+    return new URLSearchParams(request.body.toString('utf-8'));
+}
+
+/**
+ * Multipart form part
+ */
+export interface MultipartPart {
+    name: string;
+    fileName?: string;
+    data: Buffer;
+}
+
+/**
+ * Parse a multipart/form-data body
+ * @param request - Mock request
+ * @returns Array of parts, empty if the request is not multipart
+ */
+export function parseMultipartBody(request: MockRequest): MultipartPart[] {
+    const contentType = request.headers['content-type'] || '';
+    const boundaryMatch = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+    if (!boundaryMatch) return [];
+
+    const delimiter = Buffer.from(`--${boundaryMatch[1] || boundaryMatch[2]}`);
+    const parts: MultipartPart[] = [];
+    let start = request.body.indexOf(delimiter);
+
+    while (start !== -1) {
+        const next = request.body.indexOf(delimiter, start + delimiter.length);
+        if (next === -1) break;
+
+        // Strip the CRLF after the delimiter and the CRLF before the next one
+        const raw = request.body.subarray(start + delimiter.length + 2, next - 2);
+        const headerEnd = raw.indexOf('\r\n\r\n');
+        if (headerEnd !== -1) {
+            const headers = raw.subarray(0, headerEnd).toString('utf-8');
+            const name = /name="([^"]*)"/i.exec(headers);
+            const fileName = /filename="([^"]*)"/i.exec(headers);
+            if (name) {
+                parts.push({
+                    name: name[1],
+                    fileName: fileName ? fileName[1] : undefined,
+                    data: raw.subarray(headerEnd + 4)
+                });
+            }
+        }
+        start = next;
+    }
+
+    return parts;
+}
@@ -0,0 +1,44 @@
+/**
+ * Auth Mock Routes
+ * Local OAuth2 token endpoint issuing the bearer tokens accepted by petstore_auth operations
+ */
+
+import { randomUUID } from 'crypto';
+import { MockRoute } from '../types';
+import { parseFormBody } from '../mock.helper';
+
+/**
+ * Lifetime of issued access tokens, in seconds
+ */
+const TOKEN_TTL_SECONDS = 3600;
+
+/**
+ * Auth route definitions
+ */
+export const AUTH_ROUTES: MockRoute[] = [
+    {
+        method: 'POST',
+        path: 'oauth/token',
+        handler: (request, state) => {
+            const form = parseFormBody(request);
+            if (form.get('grant_type') !== 'client_credentials') {
+                return { status: 400, body: { error: 'unsupported_grant_type' } };
+            }
+            if (!form.get('client_id') || !form.get('client_secret')) {
+                return { status: 401, body: { error: 'invalid_client' } };
+            }
+
+            const accessToken = `mock-token-${randomUUID()}`;
+            state.accessTokens.add(accessToken);
+            return {
+                status: 200,
+                body: {
+                    access_token: accessToken,
+                    token_type: 'Bearer',
+                    expires_in: TOKEN_TTL_SECONDS,
+                    scope: form.get('scope') || ''
+                }
+            };
+        }
+    }
+];
@@ -0,0 +1,192 @@
+/**
+ * Pet Mock Routes
+ * In-memory implementation of the Petstore v2 /pet endpoints
+ */
+
+import { Pet, PetStatus } from '../../api/types';
+import { MockRoute, MockResponse } from '../types';
+import { BehaviorProfile } from '../../config/behaviorProfiles';
+import {
+    apiMessage,
+    invalidIdResponse,
+    parseFormBody,
+    parseId,
+    parseJsonBody,
+    parseMultipartBody,
+    profileRejection
+} from '../mock.helper';
+
+/**
+ * Valid pet status values
+ */
+const PET_STATUSES: PetStatus[] = ['available', 'pending', 'sold'];
+
+/**
+ * Read a query parameter that may be repeated or comma-separated
+ * @param query - Parsed query string
+ * @param name - Parameter name
+ * @returns All provided values
+ */
+function readMultiValue(query: URLSearchParams, name: string): string[] {
+    return query.getAll(name)
+        .flatMap(value => value.split(','))
+        .filter(value => value.length > 0);
+}
+
+/**
+ * Validate a pet payload the way the behavior profile expects
+ * @param pet - Pet payload
+ * @param profile - Active behavior profile
+ * @returns Rejection response, or undefined if the profile accepts the payload
+ */
+function validatePet(pet: Pet, profile: BehaviorProfile): MockResponse | undefined {
+    const { expectedStatus } = profile;
+    if (!pet.name) {
+        return profileRejection(expectedStatus.createPetWithoutName, 'Invalid input');
+    }
+    if (!Array.isArray(pet.photoUrls)) {
+        return profileRejection(expectedStatus.createPetWithoutPhotoUrls, 'Invalid input');
+    }
+    if (pet.status !== undefined && !PET_STATUSES.includes(pet.status)) {
+        return profileRejection(expectedStatus.createPetWithInvalidStatus, 'Invalid input');
+    }
+    return undefined;
+}
+
+/**
+ * Pet route definitions
+ * Literal paths are declared before templated ones so "pet/findByStatus" is not read as a pet ID
+ */
+export const PET_ROUTES: MockRoute[] = [
+    {
+        method: 'GET',
+        path: 'pet/findByStatus',
+        security: ['petstore_auth'],
+        handler: (request, state, profile) => {
+            const statuses = readMultiValue(request.query, 'status');
+            if (statuses.some(status => !PET_STATUSES.includes(status as PetStatus))) {
+                const rejection = profileRejection(profile.expectedStatus.findPetsByInvalidStatus, 'Invalid status value');
+                if (rejection) return rejection;
+            }
+
+            const pets = [...state.pets.values()].filter(pet => statuses.includes(pet.status));
+            return { status: 200, body: pets };
+        }
+    },
+    {
+        method: 'GET',
+        path: 'pet/findByTags',
+        security: ['petstore_auth'],
+        handler: (request, state) => {
+            const tags = readMultiValue(request.query, 'tags');
+            const pets = [...state.pets.values()].filter(pet =>
+                (pet.tags || []).some(tag => tags.includes(tag.name))
+            );
+            return { status: 200, body: pets };
+        }
+    },
+    {
+        method: 'POST',
+        path: 'pet',
+        security: ['petstore_auth'],
+        handler: (request, state, profile) => {
+            const payload = parseJsonBody<Pet>(request);
+            if (!payload || typeof payload !== 'object') return apiMessage(405, 'Invalid input');
+
+            const rejection = validatePet(payload, profile);
+            if (rejection) return rejection;
+
+            const pet: Pet = { ...payload, id: payload.id ?? state.allocatePetId() };
+            state.pets.set(pet.id!, pet);
+            return { status: 200, body: pet };
+        }
+    },
+    {
+        method: 'PUT',
+        path: 'pet',
+        security: ['petstore_auth'],
+        handler: (request, state, profile) => {
+            const payload = parseJsonBody<Pet>(request);
+            if (!payload || typeof payload !== 'object') return apiMessage(400, 'Invalid ID supplied');
+
+            const rejection = validatePet(payload, profile);
+            if (rejection) return rejection;
+
+            // Lenient targets upsert: updating an unknown pet creates it
+            if (payload.id === undefined || !state.pets.has(payload.id)) {
+                const notFound = profileRejection(profile.expectedStatus.updateNonExistentPet, 'Pet not found');
+                if (notFound) return notFound;
+            }
+
+            const pet: Pet = { ...payload, id: payload.id ?? state.allocatePetId() };
+            state.pets.set(pet.id!, pet);
+            return { status: 200, body: pet };
+        }
+    },
+    {
+        method: 'GET',
+        path: 'pet/{petId}',
+        security: ['api_key'],
+        handler: (request, state) => {
+            const petId = parseId(request.params.petId);
+            if (petId === undefined) return invalidIdResponse(request.params.petId);
+
+            const pet = state.pets.get(petId);
+            return pet ? { status: 200, body: pet } : apiMessage(404, 'Pet not found', 'error', 1);
+        }
+    },
+    {
+        method: 'POST',
+        path: 'pet/{petId}',
+        security: ['petstore_auth'],
+        handler: (request, state) => {
+            const petId = parseId(request.params.petId);
+            if (petId === undefined) return invalidIdResponse(request.params.petId);
+
+            const pet = state.pets.get(petId);
+            if (!pet) return apiMessage(404, 'not found');
+
+            const form = parseFormBody(request);
+            const name = form.get('name');
+            const status = form.get('status');
+            if (name) pet.name = name;
+            if (status) pet.status = status as PetStatus;
+            return apiMessage(200, String(petId));
+        }
+    },
+    {
+        method: 'DELETE',
+        path: 'pet/{petId}',
+        security: ['petstore_auth'],
+        handler: (request, state, profile) => {
+            const petId = parseId(request.params.petId);
+            if (petId === undefined) return invalidIdResponse(request.params.petId);
+
+            // Lenient targets acknowledge deletes of unknown pets with 200
+            if (!state.pets.delete(petId)) {
+                const notFound = profileRejection(profile.expectedStatus.deleteNonExistentPet, 'Pet not found');
+                if (notFound) return notFound;
+            }
+            return apiMessage(200, String(petId));
+        }
+    },
+    {
+        method: 'POST',
+        path: 'pet/{petId}/uploadImage',
+        security: ['petstore_auth'],
+        handler: (request, state) => {
+            const petId = parseId(request.params.petId);
+            if (petId === undefined) return invalidIdResponse(request.params.petId);
+            if (!state.pets.has(petId)) return apiMessage(404, 'Pet not found', 'error', 1);
+
+            const parts = parseMultipartBody(request);
+            const file = parts.find(part => part.name === 'file');
+            if (!file) return apiMessage(400, 'No file uploaded');
+
+            const metadata = parts.find(part => part.name === 'additionalMetadata');
+            const message = `additionalMetadata: ${metadata ? metadata.data.toString('utf-8') : 'null'}\n` +
+                `File uploaded to ./${file.fileName}, ${file.data.length} bytes`;
+            return apiMessage(200, message);
+        }
+    }
+];
@@ -0,0 +1,65 @@
+/**
+ * Store Mock Routes
+ * In-memory implementation of the Petstore v2 /store endpoints
+ */
+
+import { Inventory, Order } from '../../api/types';
+import { MockRoute } from '../types';
+import { apiMessage, invalidIdResponse, parseId, parseJsonBody } from '../mock.helper';
+
+/**
+ * Store route definitions
+ */
+export const STORE_ROUTES: MockRoute[] = [
+    {
+        method: 'GET',
+        path: 'store/inventory',
+        security: ['api_key'],
+        handler: (_request, state) => {
+            const inventory: Inventory = {};
+            for (const pet of state.pets.values()) {
+                const status = pet.status || 'unknown';
+                inventory[status] = (inventory[status] || 0) + 1;
+            }
+            return { status: 200, body: inventory };
+        }
+    },
+    {
+        method: 'POST',
+        path: 'store/order',
+        handler: (request, state) => {
+            const payload = parseJsonBody<Order>(request);
+            if (!payload || typeof payload !== 'object') return apiMessage(400, 'Invalid Order');
+
+            const order: Order = {
+                ...payload,
+                id: payload.id ?? state.allocateOrderId(),
+                complete: payload.complete ?? false
+            };
+            state.orders.set(order.id!, order);
+            return { status: 200, body: order };
+        }
+    },
+    {
+        method: 'GET',
+        path: 'store/order/{orderId}',
+        handler: (request, state) => {
+            const orderId = parseId(request.params.orderId);
+            if (orderId === undefined) return invalidIdResponse(request.params.orderId);
+
+            const order = state.orders.get(orderId);
+            return order ? { status: 200, body: order } : apiMessage(404, 'Order not found', 'error', 1);
+        }
+    },
+    {
+        method: 'DELETE',
+        path: 'store/order/{orderId}',
+        handler: (request, state) => {
+            const orderId = parseId(request.params.orderId);
+            if (orderId === undefined) return invalidIdResponse(request.params.orderId);
+
+            if (!state.orders.delete(orderId)) return apiMessage(404, 'Order Not Found');
+            return apiMessage(200, String(orderId));
+        }
+    }
+];
@@ -0,0 +1,125 @@
+/**
+ * User Mock Routes
+ * In-memory implementation of the Petstore v2 /user endpoints
+ */
+
+import { User } from '../../api/types';
+import { MockRoute, MockHandler } from '../types';
+import { apiMessage, parseJsonBody, profileRejection } from '../mock.helper';
+
+/**
+ * Session lifetime advertised through the X-Expires-After header (1 hour)
+ */
+const SESSION_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Shared handler for createWithArray and createWithList
+ */
+const createUsers: MockHandler = (request, state) => {
+    const users = parseJsonBody<User[]>(request);
+    if (!Array.isArray(users)) return apiMessage(400, 'Invalid input');
+
+    for (const user of users) {
+        if (user.username) {
+            state.users.set(user.username, { ...user, id: user.id ?? state.allocateUserId() });
+        }
+    }
+    return apiMessage(200, 'ok');
+};
+
+/**
+ * User route definitions
+ * Literal paths are declared before "user/{username}" so they are not read as usernames
+ */
+export const USER_ROUTES: MockRoute[] = [
+    {
+        method: 'POST',
+        path: 'user/createWithArray',
+        handler: createUsers
+    },
+    {
+        method: 'POST',
+        path: 'user/createWithList',
+        handler: createUsers
+    },
+    {
+        method: 'GET',
+        path: 'user/login',
+        handler: (request, state) => {
+            const username = request.query.get('username');
+            const password = request.query.get('password');
+            if (username === null || password === null) {
+                return apiMessage(400, 'Invalid username/password supplied');
+            }
+
+            const token = state.allocateSessionToken();
+            state.sessions.set(token, username);
+
+            const response = apiMessage(200, `logged in user session:${token}`);
+            response.headers = {
+                'X-Rate-Limit': '5000',
+                'X-Expires-After': new Date(Date.now() + SESSION_TTL_MS).toUTCString()
+            };
+            return response;
+        }
+    },
+    {
+        method: 'GET',
+        path: 'user/logout',
+        handler: (request, state) => {
+            const token = request.headers['x-session-token'];
+            if (typeof token === 'string') state.sessions.delete(token);
+            return apiMessage(200, 'ok');
+        }
+    },
+    {
+        method: 'POST',
+        path: 'user',
+        handler: (request, state) => {
+            const user = parseJsonBody<User>(request);
+            if (!user || typeof user !== 'object') return apiMessage(400, 'Invalid input');
+
+            const stored: User = { ...user, id: user.id ?? state.allocateUserId() };
+            if (stored.username) state.users.set(stored.username, stored);
+            return apiMessage(200, String(stored.id));
+        }
+    },
+    {
+        method: 'GET',
+        path: 'user/{username}',
+        handler: (request, state) => {
+            const user = state.users.get(request.params.username);
+            return user ? { status: 200, body: user } : apiMessage(404, 'User not found', 'error', 1);
+        }
+    },
+    {
+        method: 'PUT',
+        path: 'user/{username}',
+        handler: (request, state, profile) => {
+            const user = parseJsonBody<User>(request);
+            if (!user || typeof user !== 'object') return apiMessage(400, 'Invalid user supplied');
+
+            // Lenient targets upsert: updating an unknown user creates it
+            const existing = state.users.get(request.params.username);
+            if (!existing) {
+                const notFound = profileRejection(profile.expectedStatus.updateNonExistentUser, 'User not found');
+                if (notFound) return notFound;
+            }
+
+            const stored: User = { ...user, id: user.id ?? existing?.id ?? state.allocateUserId() };
+            state.users.delete(request.params.username);
+            state.users.set(stored.username || request.params.username, stored);
+            return apiMessage(200, String(stored.id));
+        }
+    },
+    {
+        method: 'DELETE',
+        path: 'user/{username}',
+        handler: (request, state) => {
+            if (!state.users.delete(request.params.username)) {
+                return { status: 404 };
+            }
+            return apiMessage(200, request.params.username);
+        }
+    }
+];
@@ -0,0 +1,80 @@
+/**
+ * Mock Server Types
+ * Type definitions shared by the in-memory Petstore mock server and its route handlers
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { MockState } from './MockState';
+import { BehaviorProfile } from '../config/behaviorProfiles';
+
+/**
+ * Incoming request as seen by a mock route handler
+ */
+export interface MockRequest {
+    /** HTTP method in upper case */
+    method: string;
+
+    /** Request path relative to the API base path (e.g. "pet/123") */
+    path: string;
+
+    /** Decoded path parameters declared by the matched route template */
+    params: Record<string, string>;
+
+    /** Parsed query string */
+    query: URLSearchParams;
+
+    /** Raw request headers */
+    headers: IncomingHttpHeaders;
+
+    /** Raw request body */
+    body: Buffer;
+}
+
+/**
+ * Response produced by a mock route handler
+ */
+export interface MockResponse {
+    /** HTTP status code */
+    status: number;
+
+    /** Response body, serialized as JSON unless it is a string */
+    body?: unknown;
+
+    /** Additional response headers */
+    headers?: Record<string, string>;
+}
+
+/**
+ * Handler function for a single mock route
+ * The behavior profile decides how invalid or unknown-resource requests are answered
+ */
+export type MockHandler = (request: MockRequest, state: MockState, profile: BehaviorProfile) => MockResponse;
+
+/**
+ * Petstore security schemes
+ * - api_key: "api_key" header holding the server's API key
+ * - petstore_auth: "Authorization: Bearer" header holding a token issued by the oauth/token route
+ */
+export type MockSecurityScheme = 'api_key' | 'petstore_auth';
+
+/**
+ * Mock route definition
+ * Paths use the OpenAPI template syntax, e.g. "pet/{petId}"
+ */
+export interface MockRoute {
+    method: string;
+    path: string;
+    handler: MockHandler;
+
+    /** Schemes accepted by a protected operation, as declared in the spec (enforced per behavior profile) */
+    security?: readonly MockSecurityScheme[];
+}
+
+/**
+ * Generic Petstore message body ({ code, type, message })
+ */
+export interface MockApiMessage {
+    code: number;
+    type: string;
+    message: string;
+}
@@ -0,0 +1,7 @@
+/**
+ * OpenAPI Model
+ * Reads a Swagger/OpenAPI document into the model shared by the client generator and the API coverage
+ */
+
+export * from './spec.types';
+export * from './model';
@@ -0,0 +1,266 @@
+/**
+ * API Model
+ * Normalizes a Swagger 2.0 or OpenAPI 3.x document into the shape the client generator and the API coverage consume
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { OpenApiDocument, OperationObject, ParameterObject, ResponseObject, SchemaObject } from './spec.types';
+
+/**
+ * HTTP methods the generator emits operations for
+ */
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'head', 'options'] as const;
+
+/**
+ * Operation parameter sent outside the JSON body
+ */
+export interface ApiParameter {
+    /** Name on the wire */
+    name: string;
+
+    /** Name of the generated TypeScript argument */
+    argName: string;
+
+    location: 'path' | 'query' | 'header' | 'formData';
+    required: boolean;
+    description?: string;
+    schema: SchemaObject;
+
+    /** Whether array values are sent as repeated parameters instead of comma-separated */
+    multi: boolean;
+}
+
+/**
+ * Documented response of an operation
+ */
+export interface ApiResponseSpec {
+    status: string;
+    description: string;
+    schema?: SchemaObject;
+}
+
+/**
+ * Normalized API operation
+ */
+export interface ApiOperation {
+    operationId: string;
+    method: Uppercase<typeof HTTP_METHODS[number]>;
+
+    /** Path relative to the base URL without a leading slash (e.g. "pet/{petId}") */
+    path: string;
+
+    tag: string;
+    summary?: string;
+    description?: string;
+    deprecated: boolean;
+    parameters: ApiParameter[];
+    body?: { schema: SchemaObject; required: boolean; description?: string };
+    isMultipart: boolean;
+    responses: ApiResponseSpec[];
+    security: string[];
+}
+
+/**
+ * Normalized API model
+ */
+export interface ApiModel {
+    title: string;
+    version: string;
+
+    /** Path prefix of every operation on the server (e.g. "/v2") */
+    basePath: string;
+
+    schemas: Record<string, SchemaObject>;
+    operations: ApiOperation[];
+}
+
+/**
+ * Read a Swagger/OpenAPI document from disk
+ * @param filePath - Path to a .json, .yaml or .yml document
+ * @returns Parsed document
+ * @throws Error if the file is not a Swagger 2.0 or OpenAPI 3.x document
+ */
+export function readSpec(filePath: string): OpenApiDocument {
+    const raw = fs.readFileSync(filePath, 'utf-8');
+    const extension = path.extname(filePath).toLowerCase();
+    const document = (extension === '.yaml' || extension === '.yml' ? parseYaml(raw) : JSON.parse(raw)) as OpenApiDocument;
+
+    if (!document || (!document.swagger && !document.openapi) || !document.paths) {
+        throw new Error(`${filePath} is not a Swagger 2.0 or OpenAPI 3.x document`);
+    }
+    return document;
+}
+
+/**
+ * Convert a wire name to a camelCase identifier (e.g. "api_key" -> "apiKey")
+ * @param name - Wire name
+ * @returns Identifier
+ */
+export function toIdentifier(name: string): string {
+    const camel = name.replace(/[-_. ]+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+    return /^[0-9]/.test(camel) ? `_${camel}` : camel;
+}
+
+/**
+ * Pick the JSON schema from an OpenAPI 3 content map
+ * @param content - Media type map
+ * @returns Schema of the JSON media type, if any
+ */
+function jsonSchemaOf(content?: Record<string, { schema?: SchemaObject }>): SchemaObject | undefined {
+    if (!content) return undefined;
+    const mediaType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+    return mediaType ? content[mediaType].schema : undefined;
+}
+
+/**
+ * Derive an operationId for operations that do not declare one
+ * @param method - HTTP method
+ * @param routePath - Route path
+ * @returns Generated operation ID (e.g. "getPetPetId")
+ */
+function fallbackOperationId(method: string, routePath: string): string {
+    const words = routePath.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    return method + words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+}
+
+/**
+ * Normalize one operation
+ * @param method - HTTP method (lower case)
+ * @param routePath - Route path as declared in the document
+ * @param operation - Operation object
+ * @param sharedParameters - Path-level parameters
+ * @returns Normalized operation
+ */
+function normalizeOperation(
+    method: typeof HTTP_METHODS[number],
+    routePath: string,
+    operation: OperationObject,
+    sharedParameters: ParameterObject[]
+): ApiOperation {
+    const declared = [...sharedParameters, ...(operation.parameters || [])];
+    const parameters: ApiParameter[] = [];
+    let body: ApiOperation['body'];
+    let isMultipart = (operation.consumes || []).includes('multipart/form-data');
+
+    for (const parameter of declared) {
+        if (parameter.in === 'body') {
+            body = { schema: parameter.schema || {}, required: !!parameter.required, description: parameter.description };
+            continue;
+        }
+        if (parameter.in === 'cookie') continue;
+
+        const schema = parameter.schema || parameter;
+        parameters.push({
+            name: parameter.name,
+            argName: toIdentifier(parameter.name),
+            location: parameter.in,
+            required: parameter.in === 'path' || !!parameter.required,
+            description: parameter.description,
+            schema: {
+                type: schema.type,
+                format: schema.format,
+                enum: schema.enum,
+                items: schema.items,
+                $ref: schema.$ref
+            },
+            multi: parameter.collectionFormat === 'multi' || (!!parameter.schema && parameter.explode !== false)
+        });
+    }
+
+    // OpenAPI 3 request bodies: JSON becomes the body, form encodings become form parameters
+    const content = operation.requestBody?.content;
+    if (content) {
+        const formType = Object.keys(content).find(type => type.startsWith('multipart/') || type.includes('form-urlencoded'));
+        if (formType) {
+            isMultipart = formType.startsWith('multipart/');
+            const formSchema = content[formType].schema || {};
+            for (const [name, propertySchema] of Object.entries(formSchema.properties || {})) {
+                const isFile = propertySchema.type === 'string' && propertySchema.format === 'binary';
+                parameters.push({
+                    name,
+                    argName: toIdentifier(name),
+                    location: 'formData',
+                    required: (formSchema.required || []).includes(name),
+                    description: propertySchema.description,
+                    schema: isFile ? { type: 'file' } : propertySchema,
+                    multi: false
+                });
+            }
+        } else {
+            body = {
+                schema: jsonSchemaOf(content) || {},
+                required: !!operation.requestBody?.required,
+                description: operation.requestBody?.description
+            };
+        }
+    }
+
+    const responses = Object.entries(operation.responses || {}).map(([status, response]: [string, ResponseObject]) => ({
+        status,
+        description: response.description || '',
+        schema: response.schema || jsonSchemaOf(response.content)
+    }));
+
+    return {
+        operationId: operation.operationId || fallbackOperationId(method, routePath),
+        method: method.toUpperCase() as ApiOperation['method'],
+        path: routePath.replace(/^\/+/, ''),
+        tag: (operation.tags && operation.tags[0]) || 'default',
+        summary: operation.summary,
+        description: operation.description,
+        deprecated: !!operation.deprecated,
+        parameters,
+        body,
+        isMultipart,
+        responses,
+        security: (operation.security || []).flatMap(requirement => Object.keys(requirement))
+    };
+}
+
+/**
+ * Read the server path prefix of a document
+ * @param document - Parsed Swagger/OpenAPI document
+ * @returns Base path without a trailing slash ("" for the server root)
+ */
+function basePathOf(document: OpenApiDocument): string {
+    const serverUrl = document.servers?.[0]?.url;
+    const basePath = document.basePath ?? (serverUrl ? new URL(serverUrl, 'http://localhost').pathname : '');
+    return basePath.replace(/\/+$/, '');
+}
+
+/**
+ * Build the normalized model of a document
+ * Operations are sorted by tag, path and method so regenerated output is stable
+ * @param document - Parsed Swagger/OpenAPI document
+ * @returns Normalized API model
+ */
+export function buildApiModel(document: OpenApiDocument): ApiModel {
+    const operations: ApiOperation[] = [];
+
+    for (const [routePath, pathItem] of Object.entries(document.paths)) {
+        const sharedParameters = (pathItem.parameters || []) as ParameterObject[];
+        for (const method of HTTP_METHODS) {
+            const operation = pathItem[method] as OperationObject | undefined;
+            if (operation) {
+                operations.push(normalizeOperation(method, routePath, operation, sharedParameters));
+            }
+        }
+    }
+
+    operations.sort((a, b) =>
+        a.tag.localeCompare(b.tag) ||
+        a.path.localeCompare(b.path) ||
+        HTTP_METHODS.indexOf(a.method.toLowerCase() as typeof HTTP_METHODS[number]) -
+        HTTP_METHODS.indexOf(b.method.toLowerCase() as typeof HTTP_METHODS[number])
+    );
+
+    return {
+        title: document.info?.title || 'API',
+        version: document.info?.version || '0.0.0',
+        basePath: basePathOf(document),
+        schemas: document.definitions || document.components?.schemas || {},
+        operations
+    };
+}
@@ -0,0 +1,81 @@
+/**
+ * OpenAPI Document Types
+ * Minimal typing of the Swagger 2.0 / OpenAPI 3.x fields the API model reads
+ */
+
+/**
+ * Schema object (Swagger 2.0 definitions / OpenAPI 3 components.schemas)
+ */
+export interface SchemaObject {
+    $ref?: string;
+    type?: string;
+    format?: string;
+    description?: string;
+    enum?: (string | number | boolean)[];
+    items?: SchemaObject;
+    properties?: Record<string, SchemaObject>;
+    required?: string[];
+    additionalProperties?: SchemaObject | boolean;
+}
+
+/**
+ * Parameter object
+ * Swagger 2.0 puts type information inline, OpenAPI 3 nests it under "schema"
+ */
+export interface ParameterObject extends Omit<SchemaObject, 'required'> {
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie' | 'body' | 'formData';
+    required?: boolean;
+    collectionFormat?: 'csv' | 'ssv' | 'tsv' | 'pipes' | 'multi';
+    explode?: boolean;
+    schema?: SchemaObject;
+}
+
+/**
+ * Media type map (OpenAPI 3 request/response content)
+ */
+export type ContentObject = Record<string, { schema?: SchemaObject }>;
+
+/**
+ * Response object
+ */
+export interface ResponseObject {
+    description?: string;
+    schema?: SchemaObject;
+    content?: ContentObject;
+}
+
+/**
+ * Operation object
+ */
+export interface OperationObject {
+    tags?: string[];
+    summary?: string;
+    description?: string;
+    operationId?: string;
+    consumes?: string[];
+    produces?: string[];
+    parameters?: ParameterObject[];
+    requestBody?: {
+        description?: string;
+        required?: boolean;
+        content?: ContentObject;
+    };
+    responses?: Record<string, ResponseObject>;
+    security?: Record<string, string[]>[];
+    deprecated?: boolean;
+}
+
+/**
+ * Swagger 2.0 or OpenAPI 3.x document
+ */
+export interface OpenApiDocument {
+    swagger?: string;
+    openapi?: string;
+    info?: { title?: string; version?: string };
+    basePath?: string;
+    servers?: { url: string }[];
+    paths: Record<string, Record<string, OperationObject | ParameterObject[]>>;
+    definitions?: Record<string, SchemaObject>;
+    components?: { schemas?: Record<string, SchemaObject> };
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullResult, Reporter } from '@playwright/test/reporter';
+import { TEST_CONFIG } from '../config';
+import { buildApiModel, readSpec } from '../openapi';
+import { buildCoverageReport, clearApiCallRecords, readApiCallRecords, renderCoverageHtml } from '../coverage';
+
+/**
+ * ApiCoverageReporter class measuring service requests against the OpenAPI spec
+ * Writes an operations × documented status codes matrix to coverage/api as JSON and HTML,
+ * and optionally fails the run when coverage drops below the TEST_CONFIG thresholds.
+ */
+export default class ApiCoverageReporter implements Reporter {
+    /**
+     * Drop records left by a previous run
+     */
+    onBegin(): void {
+        if (TEST_CONFIG.coverage.enabled) {
+            clearApiCallRecords();
+        }
+    }
+
+    /**
+     * Build, write and check the coverage report
+     * @param result - Result of the whole run
+     * @returns Failed status when coverage is below threshold and failBelowThreshold is set
+     */
+    async onEnd(result: FullResult): Promise<{ status: FullResult['status'] } | undefined> {
+        const { enabled, specPath, outputDir, minOperationCoverage, minResponseCoverage, failBelowThreshold } = TEST_CONFIG.coverage;
+        if (!enabled) return undefined;
+
+        const model = buildApiModel(readSpec(path.resolve(specPath)));
+        const report = buildCoverageReport(model, specPath, readApiCallRecords());
+        const { operations, responses } = report.summary;
+
+        fs.mkdirSync(outputDir, { recursive: true });
+        fs.writeFileSync(path.join(outputDir, 'coverage.json'), JSON.stringify(report, null, 2));
+        fs.writeFileSync(path.join(outputDir, 'index.html'), renderCoverageHtml(report));
+
+        console.log(
+            `\n[API Coverage] operations ${operations.covered}/${operations.total} (${operations.percent}%), ` +
+            `documented responses ${responses.covered}/${responses.total} (${responses.percent}%) ` +
+            `-> ${path.join(outputDir, 'index.html')}`
+        );
+
+        const shortfalls = [
+            operations.percent < minOperationCoverage ? `operations ${operations.percent}% < ${minOperationCoverage}%` : undefined,
+            responses.percent < minResponseCoverage ? `responses ${responses.percent}% < ${minResponseCoverage}%` : undefined
+        ].filter((shortfall): shortfall is string => shortfall !== undefined);
+
+        if (shortfalls.length === 0) return undefined;
+
+        console.warn(`[API Coverage] Below threshold: ${shortfalls.join(', ')}`);
+        return failBelowThreshold && result.status === 'passed' ? { status: 'failed' } : undefined;
+    }
+
+    /**
+     * This reporter only adds a summary line; the main reporters own stdio
+     */
+    printsToStdio(): boolean {
+        return false;
+    }
+}
@@ -0,0 +1,56 @@
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { KNOWN_BUG_ANNOTATION } from '../constants/knownBugs';
+
+/**
+ * Known bug that no longer reproduces
+ */
+interface FixedUpstreamBug {
+    description: string;
+    testTitle: string;
+}
+
+/**
+ * KnownBugReporter class summarizing known API bugs that stopped reproducing
+ * A test marked with markKnownBug() that passes is reported as "fixed upstream"
+ * so the registry entry can be removed instead of the pass going unnoticed.
+ */
+export default class KnownBugReporter implements Reporter {
+    private readonly fixedUpstream: FixedUpstreamBug[] = [];
+
+    /**
+     * Record tests whose known bug did not reproduce
+     * @param test - Finished test case
+     * @param result - Result of the test run
+     */
+    onTestEnd(test: TestCase, result: TestResult): void {
+        if (test.expectedStatus !== 'failed' || result.status !== 'passed') return;
+
+        for (const annotation of result.annotations) {
+            if (annotation.type !== KNOWN_BUG_ANNOTATION) continue;
+
+            const description = annotation.description || 'unknown bug';
+            this.fixedUpstream.push({ description, testTitle: test.titlePath().slice(1).join(' › ') });
+            console.warn(`[Known Bug] FIXED UPSTREAM? ${description} did not reproduce in "${test.title}"`);
+        }
+    }
+
+    /**
+     * Print the summary of bugs fixed upstream
+     */
+    onEnd(): void {
+        if (this.fixedUpstream.length === 0) return;
+
+        console.warn(`\n[Known Bug] ${this.fixedUpstream.length} known bug(s) appear fixed upstream:`);
+        for (const bug of this.fixedUpstream) {
+            console.warn(`  - ${bug.description}\n    test: ${bug.testTitle}`);
+        }
+        console.warn('[Known Bug] Remove them from src/constants/knownBugs.ts once confirmed.\n');
+    }
+
+    /**
+     * This reporter only adds warnings; the main reporters own stdio
+     */
+    printsToStdio(): boolean {
+        return false;
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Playwright Global Setup
+ * Shares the run id, worker count and test data seed with the workers, and starts the in-memory Petstore mock server when USE_MOCK_SERVER=true or the environment profile asks for it
+ * The mock emulates the behavior profile selected by BEHAVIOR_PROFILE
+ */
+
+import { FullConfig } from '@playwright/test';
+import { TEST_CONFIG, getActiveBehaviorProfile } from '../config';
+import { PetstoreMockServer } from '../mock';
+import { getIdAllocator, getRunSeed } from '../utils';
+
+/**
+ * Export TEST_RUN_ID, TEST_WORKER_COUNT and TEST_SEED, then start the mock server and point API_BASE_URL at it
+ * Workers are spawned after global setup and re-read the config, so they inherit these variables
+ * @param config - Resolved Playwright configuration
+ * @returns Teardown function stopping the server, or undefined when the mock is disabled
+ */
+export default async function globalSetup(config: FullConfig): Promise<(() => Promise<void>) | undefined> {
+    process.env.TEST_RUN_ID = String(getIdAllocator().runId);
+    process.env.TEST_WORKER_COUNT = String(config.workers);
+    process.env.TEST_SEED = String(getRunSeed());
+    console.log(`[Test Data] Seed ${process.env.TEST_SEED} (set TEST_SEED=${process.env.TEST_SEED} to regenerate the same data)`);
+
+    if (!TEST_CONFIG.mockServer.enabled) {
+        return undefined;
+    }
+
+    const server = new PetstoreMockServer({ profile: getActiveBehaviorProfile() });
+    const baseURL = await server.start(TEST_CONFIG.mockServer.port);
+    process.env.API_BASE_URL = baseURL;
+    console.log(`[Mock Server] Petstore mock (${server.profile.name}) listening on ${baseURL}`);
+
+    return async () => {
+        await server.stop();
+    };
+}
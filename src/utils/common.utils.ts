@@ -3,16 +3,43 @@
  * Generic functions reusable across the application
  */
 
+import { IdRange, getIdAllocator } from './idAllocator';
+import { random } from './seededRandom';
+
+/**
+ * Generate an ID unique across the workers and runs of the test suite
+ * @param range - Keep the id within this range (see IdAllocator.nextId)
+ * @returns Unique number
+ */
+export function generateUniqueId(range?: IdRange): number {
+    return getIdAllocator().nextId(range);
+}
+
+/**
+ * Largest signed 64-bit integer, the upper bound of Petstore ids
+ */
+export const MAX_INT64 = 2n ** 63n - 1n;
+
+/**
+ * Options of the unique ID generators
+ */
+export interface UniqueIdOptions {
+    /** Generate a bigint close to MAX_INT64, which JSON.parse would round (int64 edge cases) */
+    beyondSafeInteger?: boolean;
+    /** Keep the id within the range the server accepts */
+    range?: IdRange;
+}
+
 /**
- * Generate unique timestamp-based ID
- * @returns Unique number based on current timestamp
+ * Generate unique ID beyond Number.MAX_SAFE_INTEGER
+ * @returns Unique bigint counting down from MAX_INT64
  */
-export function generateUniqueId(): number {
-    return Date.now();
+export function generateUniqueInt64Id(): bigint {
+    return MAX_INT64 - BigInt(generateUniqueId());
 }
 
 /**
- * Generate random string with specified length
+ * Generate random string with specified length (seeded, see seededRandom.ts)
  * @param length - Length of the random string
  * @returns Random alphanumeric string
  */
@@ -20,28 +47,28 @@ export function generateRandomString(length: number = 8): string {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
     let result = '';
     for (let i = 0; i < length; i++) {
-        result += chars.charAt(Math.floor(Math.random() * chars.length));
+        result += chars.charAt(Math.floor(random() * chars.length));
     }
     return result;
 }
 
 /**
- * Generate random number within range
+ * Generate random integer within range (seeded, see seededRandom.ts)
  * @param min - Minimum value (inclusive)
  * @param max - Maximum value (inclusive)
  * @returns Random number
  */
 export function generateRandomNumber(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor(random() * (max - min + 1)) + min;
 }
 
 /**
- * Get random item from array
+ * Get random item from array (seeded, see seededRandom.ts)
  * @param array - Array to pick from
  * @returns Random item from array
  */
 export function getRandomItem<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
+    return array[Math.floor(random() * array.length)];
 }
 
 /**
@@ -81,7 +108,7 @@ export function formatTimestamp(timestamp?: number): string {
 }
 
 /**
- * Generate unique name with prefix and timestamp
+ * Generate unique name with prefix and unique ID
  * @param prefix - Prefix for the name
  * @returns Unique name string
  */
@@ -0,0 +1,172 @@
+/**
+ * Unique ID Allocator
+ * Collision-free ids for tests running in parallel workers against a shared Petstore
+ *
+ * An id is the decimal <run id: 7 digits><worker slot: 3 digits><counter: 6 digits>, below Number.MAX_SAFE_INTEGER:
+ * the run id tells runs apart, the worker slot the workers of a run and the counter the ids of a worker.
+ */
+
+/**
+ * Number of distinct run ids
+ */
+const RUN_IDS = 9_000_000;
+
+/**
+ * Worker slots per run: slot 0 is the main process, slot n the worker with TEST_WORKER_INDEX n - 1
+ * Playwright gives a restarted worker a new index, so indexes past 998 wrap around to slot 1: the worker then shares
+ * the ids of a worker started 999 workers earlier, which has long finished in all but the longest runs.
+ */
+const WORKER_SLOTS = 1_000;
+
+/**
+ * Ids one worker slot can allocate
+ */
+const IDS_PER_WORKER = 1_000_000;
+
+/**
+ * Inclusive range of ids the server accepts (e.g. 1-10 for GET /store/order/{orderId})
+ */
+export interface IdRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * Options of an ID allocator
+ */
+export interface IdAllocatorOptions {
+    /** Identifier of the run, shared by its workers (0 to 8999999) */
+    runId: number;
+    /** Playwright worker index (TEST_WORKER_INDEX), growing with every worker restart; undefined in the main process */
+    workerIndex?: number;
+    /** Playwright parallel index (TEST_PARALLEL_INDEX), from 0 to workers - 1 */
+    parallelIndex?: number;
+    /** Number of parallel workers of the run */
+    workers?: number;
+}
+
+/**
+ * Allocates ids no other worker or run allocates
+ */
+export class IdAllocator {
+    readonly runId: number;
+    private readonly workerSlot: number;
+    private readonly parallelIndex: number;
+    private readonly workers: number;
+    private counter = 0;
+    private readonly rangeCounters = new Map<string, number>();
+
+    /**
+     * Constructor to initialize the allocator
+     * @param options - Run id and position of the worker
+     * @throws Error if a value is out of bounds
+     */
+    constructor(options: IdAllocatorOptions) {
+        const { runId, workerIndex, parallelIndex = 0, workers = 1 } = options;
+        requireInteger('Run id', runId, 0, RUN_IDS - 1);
+        if (workerIndex !== undefined) requireInteger('Worker index', workerIndex, 0, Number.MAX_SAFE_INTEGER);
+        requireInteger('Worker count', workers, 1, WORKER_SLOTS);
+        requireInteger('Parallel index', parallelIndex, 0, Number.MAX_SAFE_INTEGER);
+
+        this.runId = runId;
+        this.workerSlot = workerIndex === undefined ? 0 : workerIndex % (WORKER_SLOTS - 1) + 1;
+        this.parallelIndex = parallelIndex;
+        this.workers = workers;
+    }
+
+    /**
+     * Allocate the next id
+     * @param range - Keep the id within this range; the range is shared out between the parallel workers,
+     *                and each worker cycles through its share
+     * @returns Unique id
+     * @throws Error if the worker has used up its ids, or the range has none for this worker
+     */
+    nextId(range?: IdRange): number {
+        return range ? this.nextIdInRange(range) : this.nextUniqueId();
+    }
+
+    /**
+     * Allocate the next id outside any range
+     */
+    private nextUniqueId(): number {
+        this.counter++;
+        if (this.counter >= IDS_PER_WORKER) {
+            throw new Error(`Worker slot ${this.workerSlot} of run ${this.runId} has used up its ${IDS_PER_WORKER - 1} unique ids`);
+        }
+        return (this.runId * WORKER_SLOTS + this.workerSlot) * IDS_PER_WORKER + this.counter;
+    }
+
+    /**
+     * Allocate the next id of this worker's share of a range: min + parallelIndex, then every workers-th id
+     */
+    private nextIdInRange(range: IdRange): number {
+        const { min, max } = range;
+        if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max) || min > max) {
+            throw new Error(`Invalid ID range ${min}-${max}`);
+        }
+        if (this.parallelIndex >= this.workers) {
+            throw new Error(`Parallel index ${this.parallelIndex} is outside the ${this.workers} workers of the run`);
+        }
+        const size = max - min + 1;
+        if (this.parallelIndex >= size) {
+            throw new Error(
+                `ID range ${min}-${max} has no id for parallel index ${this.parallelIndex} of ${this.workers} workers`
+            );
+        }
+
+        const share = Math.ceil((size - this.parallelIndex) / this.workers);
+        const key = `${min}-${max}`;
+        const count = this.rangeCounters.get(key) ?? 0;
+        this.rangeCounters.set(key, count + 1);
+        return min + this.parallelIndex + (count % share) * this.workers;
+    }
+}
+
+/**
+ * Run id derived from the time, in seconds (it repeats after about 104 days)
+ * @param now - Current time in milliseconds
+ * @returns Run id
+ */
+export function createRunId(now: number = Date.now()): number {
+    return Math.floor(now / 1000) % RUN_IDS;
+}
+
+let processAllocator: IdAllocator | undefined;
+
+/**
+ * Allocator of this process
+ * Reads TEST_RUN_ID and TEST_WORKER_COUNT (set by the global setup) and the worker variables set by Playwright
+ * @returns Allocator shared by the factories of this process
+ * @throws Error if a variable is not an integer in bounds
+ */
+export function getIdAllocator(): IdAllocator {
+    processAllocator ??= new IdAllocator({
+        runId: readIntegerVariable('TEST_RUN_ID') ?? createRunId(),
+        workerIndex: readIntegerVariable('TEST_WORKER_INDEX'),
+        parallelIndex: readIntegerVariable('TEST_PARALLEL_INDEX'),
+        workers: readIntegerVariable('TEST_WORKER_COUNT')
+    });
+    return processAllocator;
+}
+
+/**
+ * Read an optional integer environment variable
+ */
+function readIntegerVariable(name: string): number | undefined {
+    const value = process.env[name];
+    if (value === undefined || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed)) {
+        throw new Error(`Invalid ${name}="${value}": expected an integer`);
+    }
+    return parsed;
+}
+
+/**
+ * Check that a value is an integer within bounds
+ */
+function requireInteger(label: string, value: number, min: number, max: number): void {
+    if (!Number.isInteger(value) || value < min || value > max) {
+        throw new Error(`${label} must be an integer from ${min} to ${max}, got ${value}`);
+    }
+}
@@ -1 +1,3 @@
 export * from './common.utils';
+export * from './idAllocator';
+export * from './seededRandom';
@@ -0,0 +1,92 @@
+/**
+ * Seeded Random Numbers
+ * Every random value of the test data comes from one seedable generator, so a failing combination can be reproduced:
+ * the run seed (TEST_SEED) is printed at start, and each test reseeds the generator from it and its title.
+ */
+
+/**
+ * Seeds are unsigned 32-bit integers
+ */
+const MAX_SEED = 2 ** 32 - 1;
+
+/**
+ * Random source returning numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a generator (mulberry32) whose sequence depends only on the seed
+ * @param seed - Unsigned 32-bit integer
+ * @returns Random source
+ * @throws Error if the seed is not an unsigned 32-bit integer
+ */
+export function createRandom(seed: number): RandomSource {
+    requireSeed(seed, 'Seed');
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+    };
+}
+
+/**
+ * Derive a seed from another seed and a key (FNV-1a), e.g. the seed of one test from the run seed
+ * @param seed - Base seed
+ * @param key - Key such as the title path of a test
+ * @returns Unsigned 32-bit seed
+ */
+export function deriveSeed(seed: number, key: string): number {
+    let hash = (0x811c9dc5 ^ seed) >>> 0;
+    for (let i = 0; i < key.length; i++) {
+        hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash;
+}
+
+let runSeed: number | undefined;
+let source: RandomSource | undefined;
+
+/**
+ * Seed of the run: TEST_SEED, or a new seed when unset (the global setup exports it to the workers)
+ * @returns Unsigned 32-bit seed
+ * @throws Error if TEST_SEED is not an unsigned 32-bit integer
+ */
+export function getRunSeed(): number {
+    if (runSeed === undefined) {
+        const value = process.env.TEST_SEED;
+        runSeed = value === undefined || value.trim() === ''
+            ? Math.floor(Math.random() * (MAX_SEED + 1))
+            : requireSeed(Number(value), 'TEST_SEED', value);
+    }
+    return runSeed;
+}
+
+/**
+ * Restart the shared generator from a seed
+ * @param seed - Unsigned 32-bit integer
+ * @throws Error if the seed is not an unsigned 32-bit integer
+ */
+export function seedRandom(seed: number): void {
+    source = createRandom(seed);
+}
+
+/**
+ * Draw from the shared generator, seeded with the run seed until seedRandom is called
+ * @returns Number in [0, 1)
+ */
+export function random(): number {
+    source ??= createRandom(getRunSeed());
+    return source();
+}
+
+/**
+ * Check that a seed is an unsigned 32-bit integer
+ */
+function requireSeed(seed: number, label: string, raw: string = String(seed)): number {
+    if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+        throw new Error(`Invalid ${label}="${raw}": expected an integer from 0 to ${MAX_SEED}`);
+    }
+    return seed;
+}
@@ -0,0 +1,155 @@
+import { request as playwrightRequest, APIRequestContext } from '@playwright/test';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { PetService } from '@/api/services/pet/PetService';
+import { StoreService } from '@/api/services/store/StoreService';
+import { ANONYMOUS, apiKeyAuth, bearerAuth, oauth2Auth, resolveAuthProviders } from '@/api/auth';
+import { BEHAVIOR_PROFILES, TEST_CONFIG, getActiveBehaviorProfile } from '@/config';
+import { FaultProxy } from '@/faults';
+import { PetstoreMockServer } from '@/mock';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+
+/**
+ * Authentication Test Suite
+ * Verifies api_key and OAuth2 credentials, and that protected operations reject anonymous calls
+ *
+ * Endpoints covered:
+ * - GET /store/inventory - api_key
+ * - POST /pet, GET /pet/findByStatus - petstore_auth (OAuth2)
+ * - POST /oauth/token - OAuth2 client credentials, failed and timed out
+ */
+
+test.describe.configure({ mode: 'serial' });
+
+test.describe('Authentication against a strict target @auth', () => {
+    const server = new PetstoreMockServer({ profile: BEHAVIOR_PROFILES['spec-strict'] });
+    let baseURL: string;
+    let apiContext: APIRequestContext;
+
+    test.beforeAll(async () => {
+        baseURL = await server.start();
+        apiContext = await playwrightRequest.newContext({ baseURL });
+    });
+
+    test.afterAll(async () => {
+        await apiContext.dispose();
+        await server.stop();
+    });
+
+    /**
+     * Test: api_key operations
+     * Severity: Critical
+     *
+     * @description Verifies 200 as authorized, 401 as anonymous and 403 with a wrong key.
+     */
+    test('@regression api_key operation answers 200 authorized, 401 anonymous, 403 with a wrong key', async () => {
+        const storeService = new StoreService(apiContext, { skipGlobalMiddlewares: true, auth: apiKeyAuth('special-key') });
+
+        await test.step('As authorized', async () => {
+            const result = await (await storeService.getInventory()).result();
+            expect(result.status).toBe(200);
+            expect(result.request.headers['api_key']).toBe('special-key');
+        });
+
+        await test.step('As anonymous', async () => {
+            expect((await storeService.withAuth(ANONYMOUS).getInventory()).status()).toBe(401);
+        });
+
+        await test.step('With a wrong key', async () => {
+            expect((await storeService.withAuth(apiKeyAuth('wrong-key')).getInventory()).status()).toBe(403);
+        });
+    });
+
+    /**
+     * Test: OAuth2 operations
+     * Severity: Critical
+     *
+     * @description Verifies that a token from the local token endpoint is fetched once and accepted,
+     * and that anonymous and forged bearer calls are rejected.
+     */
+    test('@regression petstore_auth operation accepts an OAuth2 token and rejects anonymous or forged calls', async () => {
+        const oauth = oauth2Auth({ tokenUrl: `${baseURL}oauth/token`, clientId: 'auth-spec', clientSecret: 'secret' });
+        const petService = new PetService(apiContext, { skipGlobalMiddlewares: true, auth: oauth });
+        const pet = createPetData();
+
+        await test.step('As authorized', async () => {
+            expect((await petService.createPet(pet)).status()).toBe(200);
+            expect((await petService.findPetsByStatus('available')).status()).toBe(200);
+            expect(server.state.accessTokens.size).toBe(1);
+        });
+
+        await test.step('As anonymous', async () => {
+            expect((await petService.withAuth(ANONYMOUS).createPet(createPetData())).status()).toBe(401);
+        });
+
+        await test.step('With a forged token', async () => {
+            expect((await petService.withAuth(bearerAuth('forged')).createPet(createPetData())).status()).toBe(403);
+        });
+    });
+
+    /**
+     * Test: Token endpoint failures
+     * Severity: Normal
+     *
+     * @description Verifies that a rejected client fails the call with the token endpoint status.
+     */
+    test('@regression Rejected OAuth2 client fails the call with the token endpoint status', async () => {
+        const oauth = oauth2Auth({ tokenUrl: `${baseURL}oauth/token`, clientId: 'auth-spec', clientSecret: '' });
+        const petService = new PetService(apiContext, { skipGlobalMiddlewares: true, auth: oauth });
+
+        await expect(petService.findPetsByStatus('available'))
+            .rejects.toThrow(`OAuth2 token request to ${baseURL}oauth/token failed with status 401 (invalid_client)`);
+    });
+
+    /**
+     * Test: Token endpoint timeout
+     * Severity: Normal
+     *
+     * @description Verifies that a token endpoint slower than TEST_CONFIG.api.timeout fails the call naming the token URL.
+     */
+    test('@regression Slow OAuth2 token endpoint fails the call with a timeout', async () => {
+        const api = TEST_CONFIG.api as { timeout: number };
+        const timeout = api.timeout;
+        const proxy = new FaultProxy({ target: baseURL });
+        const tokenUrl = `${await proxy.start()}oauth/token`;
+        proxy.addRule({ method: 'POST', path: 'oauth/token', fault: { type: 'latency', delayMs: 2000 } });
+        api.timeout = 200;
+        try {
+            const oauth = oauth2Auth({ tokenUrl, clientId: 'auth-spec', clientSecret: 'secret' });
+            const petService = new PetService(apiContext, { skipGlobalMiddlewares: true, auth: oauth });
+
+            await expect(petService.findPetsByStatus('available'))
+                .rejects.toThrow(`OAuth2 token request to ${tokenUrl} timed out after 200ms`);
+        } finally {
+            api.timeout = timeout;
+            await proxy.stop();
+        }
+    });
+});
+
+test.describe('Authentication against the configured target @auth', () => {
+    /**
+     * Test: Anonymous calls follow the behavior profile
+     * Severity: Normal
+     *
+     * @description Verifies the configured credentials are accepted and anonymous calls get the profile's status.
+     */
+    test('@regression Protected operation as authorized and as anonymous', async ({ request }) => {
+        const profile = getActiveBehaviorProfile();
+        const storeService = new StoreService(request);
+
+        expect((await storeService.getInventory()).status()).toBe(200);
+        expect((await storeService.withAuth(ANONYMOUS).getInventory()).status())
+            .toBe(profile.expectedStatus.requestWithoutCredentials);
+    });
+
+    /**
+     * Test: Unknown provider names are rejected
+     * Severity: Minor
+     *
+     * @description Verifies that a typo in API_AUTH fails fast with the known names.
+     */
+    test('@regression Unknown auth provider names are rejected', async () => {
+        expect(() => resolveAuthProviders(['api-key', 'kerberos']))
+            .toThrow('Unknown auth provider "kerberos". Expected one of: none, api-key, bearer, oauth2');
+    });
+});
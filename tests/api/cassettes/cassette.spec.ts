@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import { request as playwrightRequest } from '@playwright/test';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { BaseService } from '@/api/services/base/BaseService';
+import { PetService } from '@/api/services/pet/PetService';
+import { UserService } from '@/api/services/user/UserService';
+import { Cassette, CassetteOptions, RecordedResponse, cassetteMiddleware, getCassettePath } from '@/api/cassettes';
+import { Redactor } from '@/api/logging';
+import { Pet, ServiceResponse } from '@/api/types';
+import { PET_ENDPOINTS, TEST_CONFIG, buildUrl } from '@/config';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { createUserData } from '@/fixtures/factories/user.factory';
+
+/**
+ * Cassette Test Suite
+ * Verifies that traffic recorded for a test replays without network, and that mismatches are explained
+ *
+ * Endpoints covered:
+ * - POST /pet, GET /pet/{petId} - recorded against the configured target, replayed offline
+ * - POST /user, GET /user/login - recorded with their secrets redacted
+ * - GET /pet/findByStatus - query params sent as request params
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+/**
+ * Cassette options writing to the test's output directory
+ * @param mode - record or replay
+ * @param redactor - Redactor of the recorded secrets
+ * @returns Options for cassetteMiddleware
+ */
+function cassetteOptions(mode: CassetteOptions['mode'], redactor: Redactor = new Redactor(['api_key'])): CassetteOptions {
+    return { mode, dir: test.info().outputPath('cassettes'), redactor };
+}
+
+/**
+ * Pet service answering from a cassette, with a request context that cannot reach any server
+ * @returns Service and a function disposing its context
+ */
+async function offlinePetService(): Promise<{ petService: PetService; dispose: () => Promise<void> }> {
+    const context = await playwrightRequest.newContext({ baseURL: 'http://127.0.0.1:9/v2/' });
+    const petService = new PetService(context, {
+        skipGlobalMiddlewares: true,
+        middlewares: [cassetteMiddleware(cassetteOptions('replay'))]
+    });
+    return { petService, dispose: () => context.dispose() };
+}
+
+/**
+ * Pet service sending its query as request params (options.params), as custom services may
+ */
+class ParamsPetService extends BaseService {
+    /**
+     * Find pets by status
+     * @param statuses - Statuses, sent as repeated status params
+     * @returns APIResponse containing array of pets
+     */
+    async findPetsByStatus(statuses: string[]): Promise<ServiceResponse<Pet[]>> {
+        return await this.send('GET', buildUrl(PET_ENDPOINTS.BY_STATUS), {
+            params: new URLSearchParams(statuses.map(status => ['status', status]))
+        });
+    }
+}
+
+test.describe('Cassettes @cassettes', () => {
+    /**
+     * Test: Record then replay
+     * Severity: Critical
+     *
+     * @description Verifies that recorded responses are replayed in order without network and credentials are not stored.
+     */
+    test('@regression Recorded traffic replays without network', async ({ request }) => {
+        const pet = createPetData();
+        const recorder = new PetService(request, {
+            skipGlobalMiddlewares: true,
+            middlewares: [cassetteMiddleware(cassetteOptions('record'))]
+        });
+
+        const created = await recorder.createPet(pet);
+        const fetched = await recorder.getPet(pet.id!);
+
+        const file = getCassettePath(test.info().outputPath('cassettes'), test.info());
+        const cassette = JSON.parse(fs.readFileSync(file, 'utf-8')) as Cassette;
+        expect(cassette.interactions.map(({ request }) => `${request.method} ${request.url}`))
+            .toEqual(['POST pet', `GET pet/${pet.id}`]);
+        expect(fs.readFileSync(file, 'utf-8')).not.toContain(`"${TEST_CONFIG.auth.apiKey}"`);
+
+        const { petService, dispose } = await offlinePetService();
+        try {
+            const replayedCreate = await petService.createPet(pet);
+            const replayedGet = await (await petService.getPet(pet.id!)).result();
+
+            expect(replayedCreate.status()).toBe(created.status());
+            expect(await replayedCreate.json()).toEqual(await created.json());
+            expect(replayedGet.status).toBe(fetched.status());
+            expect(replayedGet.ok && replayedGet.body.name).toBe(pet.name);
+            expect(replayedGet.response.url()).toBe(fetched.url());
+        } finally {
+            await dispose();
+        }
+    });
+
+    /**
+     * Test: Secrets are not recorded
+     * Severity: Critical
+     *
+     * @description Verifies that passwords in bodies and URLs and login session tokens are redacted, and the redacted cassette replays.
+     */
+    test('@regression Passwords and session tokens are redacted from cassettes', async ({ request }) => {
+        const redactor = new Redactor(TEST_CONFIG.logging.redactFields);
+        const user = createUserData({ password: 'Cassette@Secret1' });
+        const recorder = new UserService(request, {
+            skipGlobalMiddlewares: true,
+            middlewares: [cassetteMiddleware(cassetteOptions('record', redactor))]
+        });
+
+        await recorder.createUser(user);
+        const login = await recorder.login(user.username!, user.password!);
+        await recorder.deleteUser(user.username!);
+
+        const text = fs.readFileSync(getCassettePath(test.info().outputPath('cassettes'), test.info()), 'utf-8');
+        const cassette = JSON.parse(text) as Cassette;
+        expect(text).not.toContain(user.password);
+        expect(text).not.toContain(login.session!.token);
+        expect(cassette.interactions[0].request.body).toMatchObject({ password: '[REDACTED]' });
+        expect(cassette.interactions[1].request.url).toContain('password=[REDACTED]');
+        expect(JSON.parse(cassette.interactions[1].response.body).message).toBe('logged in user session:[REDACTED]');
+
+        const context = await playwrightRequest.newContext({ baseURL: 'http://127.0.0.1:9/v2/' });
+        try {
+            const userService = new UserService(context, {
+                skipGlobalMiddlewares: true,
+                middlewares: [cassetteMiddleware(cassetteOptions('replay', redactor))]
+            });
+            expect((await userService.createUser(user)).status()).toBe(200);
+            expect((await userService.login(user.username!, user.password!)).session?.token).toBe('[REDACTED]');
+        } finally {
+            await context.dispose();
+        }
+    });
+
+    /**
+     * Test: Mismatches are explained
+     * Severity: Critical
+     *
+     * @description Verifies that an unrecorded request fails with a diff against the closest recorded one.
+     */
+    test('@regression Unrecorded request fails with a diff against the closest recorded request', async ({ request }) => {
+        const pet = createPetData({ name: 'Recorded' });
+        const recorder = new PetService(request, {
+            skipGlobalMiddlewares: true,
+            middlewares: [cassetteMiddleware(cassetteOptions('record'))]
+        });
+        await recorder.createPet(pet);
+        await recorder.getPet(pet.id!);
+
+        const { petService, dispose } = await offlinePetService();
+        try {
+            const error = await petService.createPet({ ...pet, name: 'Replayed' }).then(() => undefined, (caught: Error) => caught);
+
+            expect(error?.message).toContain(`Cassette mismatch: no unused recorded request matches POST pet (${test.info().outputPath('cassettes')}`);
+            expect(error?.message).toContain([
+                'Closest recorded request (- recorded, + sent):',
+                '  POST pet',
+                '  {'
+            ].join('\n'));
+            expect(error?.message).toContain('-   "name": "Recorded",\n+   "name": "Replayed",');
+
+            await petService.createPet(pet);
+            await petService.getPet(pet.id!);
+            await expect(petService.getPet(pet.id!)).rejects.toThrow('All 2 recorded request(s) were already replayed');
+        } finally {
+            await dispose();
+        }
+    });
+
+    /**
+     * Test: Query params are matched
+     * Severity: Critical
+     *
+     * @description Verifies that params are recorded with the URL, so a call with other params is a mismatch.
+     */
+    test('@regression Replay matches the query params of a request', async ({ request }) => {
+        const recorder = new ParamsPetService(request, {
+            skipGlobalMiddlewares: true,
+            middlewares: [cassetteMiddleware(cassetteOptions('record'))]
+        });
+        expect((await recorder.findPetsByStatus(['available'])).status()).toBe(200);
+
+        const context = await playwrightRequest.newContext({ baseURL: 'http://127.0.0.1:9/v2/' });
+        try {
+            const petService = new ParamsPetService(context, {
+                skipGlobalMiddlewares: true,
+                middlewares: [cassetteMiddleware(cassetteOptions('replay'))]
+            });
+            const error = await petService.findPetsByStatus(['sold']).then(() => undefined, (caught: Error) => caught);
+
+            expect(error?.message).toContain('Cassette mismatch: no unused recorded request matches GET pet/findByStatus?status=sold');
+            expect(error?.message).toContain('- GET pet/findByStatus?status=available\n+ GET pet/findByStatus?status=sold');
+            expect((await petService.findPetsByStatus(['available'])).status()).toBe(200);
+        } finally {
+            await context.dispose();
+        }
+    });
+
+    /**
+     * Test: Missing cassettes
+     * Severity: Normal
+     *
+     * @description Verifies that replaying a test that was never recorded says how to record it.
+     */
+    test('@regression Replay without a cassette asks to record it', async () => {
+        const { petService, dispose } = await offlinePetService();
+        try {
+            await expect(petService.getPet(1)).rejects.toThrow(/^No cassette for this test at .*\.json\. Record it with API_CASSETTE_MODE=record$/);
+        } finally {
+            await dispose();
+        }
+    });
+
+    /**
+     * Test: Synthetic responses
+     * Severity: Normal
+     *
+     * @description Verifies that a middleware can answer with a RecordedResponse instead of calling the network.
+     */
+    test('@regression Middleware can answer with a synthetic response', async () => {
+        const context = await playwrightRequest.newContext({ baseURL: 'http://127.0.0.1:9/v2/' });
+        try {
+            const petService = new PetService(context, {
+                skipGlobalMiddlewares: true,
+                middlewares: [{
+                    name: 'stub',
+                    handle: async request => RecordedResponse.json(`http://stub/v2/${request.url}`, 404, { code: 1, type: 'error', message: 'Pet not found' })
+                }]
+            });
+
+            const result = await (await petService.getPet(7)).result();
+
+            expect(result.status).toBe(404);
+            expect(result.ok || result.error.message).toBe('Pet not found');
+            expect(result.response.url()).toBe('http://stub/v2/pet/7');
+        } finally {
+            await context.dispose();
+        }
+    });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { listEnvironments, loadEnvironment } from '@/config';
+
+/**
+ * Environment Profile Test Suite
+ * Verifies that every shipped profile loads and that invalid profiles fail fast
+ *
+ * These tests do not send requests.
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+/**
+ * Variables referenced by the dev and staging profiles
+ */
+const DEPLOYMENT_VARIABLES = Object.fromEntries(['DEV', 'STAGING'].flatMap(prefix => [
+    [`${prefix}_API_BASE_URL`, `https://petstore.${prefix.toLowerCase()}.example.com/v2/`],
+    [`${prefix}_API_KEY`, 'key'],
+    [`${prefix}_OAUTH_CLIENT_ID`, 'client'],
+    [`${prefix}_OAUTH_CLIENT_SECRET`, 'secret']
+]));
+
+/**
+ * Load a profile expected to be invalid
+ * @returns The reported problems, one per line
+ */
+function validationErrors(...args: Parameters<typeof loadEnvironment>): string[] {
+    try {
+        loadEnvironment(...args);
+    } catch (error) {
+        return (error as Error).message.split('\n').slice(1);
+    }
+    throw new Error(`Environment "${args[0]}" unexpectedly loaded`);
+}
+
+test.describe('Environment Profiles @config', () => {
+    /**
+     * Test: Shipped profiles are valid
+     * Severity: Critical
+     *
+     * @description Verifies that local-mock, dev, staging and public-swagger load with their variables set.
+     */
+    test('@regression Every shipped environment profile loads', async () => {
+        expect(listEnvironments()).toEqual(['dev', 'local-mock', 'public-swagger', 'staging']);
+
+        for (const name of listEnvironments()) {
+            const profile = loadEnvironment(name, DEPLOYMENT_VARIABLES);
+            expect(profile.name).toBe(name);
+            expect(profile.mockServer || profile.baseURL!.endsWith('/')).toBeTruthy();
+        }
+
+        const dev = loadEnvironment('dev', DEPLOYMENT_VARIABLES);
+        expect(dev.baseURL).toBe('https://petstore.dev.example.com/v2/');
+        expect(dev.auth.oauth2?.tokenUrl).toBe('oauth/token');
+    });
+
+    /**
+     * Test: Missing variables fail fast
+     * Severity: Critical
+     *
+     * @description Verifies that every unset variable is reported with the value that needs it.
+     */
+    test('@regression Missing variables are all reported', async () => {
+        expect(() => loadEnvironment('staging', {})).toThrow(/^Invalid environment "staging"/);
+        expect(validationErrors('staging', {})).toEqual([
+            '  - baseURL: environment variable STAGING_API_BASE_URL is not set',
+            '  - auth.apiKey: environment variable STAGING_API_KEY is not set',
+            '  - auth.oauth2.clientId: environment variable STAGING_OAUTH_CLIENT_ID is not set',
+            '  - auth.oauth2.clientSecret: environment variable STAGING_OAUTH_CLIENT_SECRET is not set'
+        ]);
+    });
+
+    /**
+     * Test: Invalid values fail fast
+     * Severity: Critical
+     *
+     * @description Verifies that unknown environments and malformed values are rejected with clear messages.
+     */
+    test('@regression Unknown environments and invalid values are rejected', async () => {
+        expect(() => loadEnvironment('production'))
+            .toThrow('Unknown environment "production" (TEST_ENV). Expected one of: dev, local-mock, public-swagger, staging');
+
+        const dir = test.info().outputPath('environments');
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(`${dir}/broken.json`, JSON.stringify({
+            description: 'Broken profile',
+            baseURL: 'petstore.example.com/v2',
+            behaviorProfile: 'lenient',
+            auth: { providers: ['api-key', 'kerberos'] },
+            timeouts: { requestMs: 0, testMs: 1000 },
+            retries: { count: -1, baseDelayMs: 100, maxDelayMs: 1000 },
+            tags: { include: ['smoke'], exclude: [] }
+        }));
+
+        expect(validationErrors('broken', {}, dir)).toEqual([
+            '  - baseURL: "petstore.example.com/v2" must be an absolute http(s) URL ending with "/"',
+            '  - behaviorProfile: "lenient" is not one of swagger-public, spec-strict',
+            '  - auth.providers: "kerberos" is not one of none, api-key, bearer, oauth2',
+            '  - auth.apiKey: expected a non-empty string',
+            '  - timeouts.requestMs: expected an integer >= 1, got 0',
+            '  - retries.count: expected an integer >= 0, got -1',
+            '  - tags.include: "smoke" is not a tag like "@smoke"'
+        ]);
+    });
+});
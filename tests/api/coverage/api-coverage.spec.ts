@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { request as playwrightRequest } from '@playwright/test';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { PetService } from '@/api/services/pet/PetService';
+import { Cassette, cassetteMiddleware, getCassettePath } from '@/api/cassettes';
+import { Redactor } from '@/api/logging';
+import { coverageMiddleware } from '@/api/middleware';
+import { TEST_CONFIG } from '@/config';
+import { buildCoverageReport, matchOperation, readApiCallRecords, ApiCallRecord } from '@/coverage';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { buildApiModel, readSpec } from '@/openapi';
+
+/**
+ * API Coverage Test Suite
+ * Verifies how recorded calls are matched to spec operations and counted
+ *
+ * These tests run offline; they do not send any request.
+ * Cassette replays count as calls to the URL they were recorded from.
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+const model = buildApiModel(readSpec(path.resolve('specs/petstore.swagger.json')));
+
+test.describe('API Coverage @coverage', () => {
+    /**
+     * Test: Requests match their templated operation
+     * Severity: Critical
+     *
+     * @description Verifies that literal segments win over path parameters when matching a request.
+     */
+    test('@regression Requests match the most specific templated path', async () => {
+        expect(matchOperation(model.operations, 'GET', 'pet/findByStatus')?.operationId).toBe('findPetsByStatus');
+        expect(matchOperation(model.operations, 'GET', 'pet/123')?.operationId).toBe('getPetById');
+        expect(matchOperation(model.operations, 'POST', 'pet/123/uploadImage')?.operationId).toBe('uploadFile');
+        expect(matchOperation(model.operations, 'PATCH', 'pet/123')).toBeUndefined();
+    });
+
+    /**
+     * Test: Calls are counted per documented status code
+     * Severity: Critical
+     *
+     * @description Verifies documented, default, undocumented and unmatched calls are reported separately.
+     */
+    test('@regression Calls are counted per documented status code', async () => {
+        const baseUrl = 'http://127.0.0.1:8080/v2/';
+        const records: ApiCallRecord[] = [
+            { method: 'GET', url: `${baseUrl}pet/1`, status: 200 },
+            { method: 'GET', url: `${baseUrl}pet/2`, status: 404 },
+            { method: 'DELETE', url: `${baseUrl}pet/3`, status: 200 },
+            { method: 'POST', url: `${baseUrl}user`, status: 200 },
+            { method: 'GET', url: `${baseUrl}unknown/path`, status: 404 }
+        ];
+
+        const report = buildCoverageReport(model, 'specs/petstore.swagger.json', records);
+        const byId = (operationId: string) => report.operations.find(operation => operation.operationId === operationId)!;
+
+        await test.step('Documented statuses are counted in their column', async () => {
+            expect(byId('getPetById').calls).toBe(2);
+            expect(byId('getPetById').responses).toEqual([
+                expect.objectContaining({ status: '200', hits: 1 }),
+                expect.objectContaining({ status: '400', hits: 0 }),
+                expect.objectContaining({ status: '404', hits: 1 })
+            ]);
+        });
+
+        await test.step('Statuses missing from the spec fall back to "default" or are listed as undocumented', async () => {
+            expect(byId('createUser').responses).toEqual([expect.objectContaining({ status: 'default', hits: 1 })]);
+            expect(byId('deletePet').undocumented).toEqual([{ status: '200', hits: 1 }]);
+        });
+
+        await test.step('Requests outside the spec are reported as unmatched', async () => {
+            expect(report.unmatched).toEqual([{ method: 'GET', path: 'unknown/path', status: 404, hits: 1 }]);
+            expect(report.summary.requests).toBe(5);
+            expect(report.summary.operations.covered).toBe(3);
+        });
+    });
+
+    /**
+     * Test: Replayed calls are counted
+     * Severity: Normal
+     *
+     * @description Verifies that responses replayed from a cassette count when they were recorded from the configured target.
+     */
+    test('@regression Cassette replays count as calls to the target they were recorded from', async () => {
+        const targetPetId = Number(createPetData().id);
+        const proxiedPetId = Number(createPetData().id);
+        const dir = test.info().outputPath('cassettes');
+        const recorded = (petId: number, url: string): Cassette['interactions'][number] => ({
+            request: { method: 'GET', url: `pet/${petId}`, headers: {} },
+            response: { status: 404, statusText: 'Not Found', headers: { 'content-type': 'application/json' }, url, body: '{}' }
+        });
+        const cassette: Cassette = {
+            version: 1,
+            test: test.info().titlePath.join(' › '),
+            recordedAt: new Date().toISOString(),
+            interactions: [
+                recorded(targetPetId, `${TEST_CONFIG.api.baseURL}pet/${targetPetId}`),
+                recorded(proxiedPetId, `http://127.0.0.1:9/v2/pet/${proxiedPetId}`)
+            ]
+        };
+        const file = getCassettePath(dir, test.info());
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(cassette));
+
+        const context = await playwrightRequest.newContext({ baseURL: 'http://127.0.0.1:9/v2/' });
+        try {
+            const petService = new PetService(context, {
+                skipGlobalMiddlewares: true,
+                middlewares: [coverageMiddleware(), cassetteMiddleware({ mode: 'replay', dir, redactor: new Redactor([]) })]
+            });
+            expect((await petService.getPet(targetPetId)).status()).toBe(404);
+            expect((await petService.getPet(proxiedPetId)).status()).toBe(404);
+        } finally {
+            await context.dispose();
+        }
+
+        const records = readApiCallRecords().filter(record => [targetPetId, proxiedPetId].some(petId => record.url.endsWith(`/pet/${petId}`)));
+        expect(records).toEqual([{ method: 'GET', url: `${TEST_CONFIG.api.baseURL}pet/${targetPetId}`, status: 404 }]);
+    });
+});
@@ -0,0 +1,59 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { PET_ENDPOINTS, STORE_ENDPOINTS, USER_ENDPOINTS, buildUrl, endpoint } from '@/config';
+
+/**
+ * Endpoint Descriptor Test Suite
+ * Verifies that path and query parameters are encoded centrally
+ *
+ * These tests do not send requests.
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('Endpoint Descriptors @endpoints', () => {
+    /**
+     * Test: Path parameters are encoded as one segment
+     * Severity: Critical
+     *
+     * @description Verifies that reserved characters in a path parameter cannot change the route.
+     */
+    test('@regression Path parameters are encoded as a single segment', async () => {
+        expect(buildUrl(PET_ENDPOINTS.BY_ID, { petId: 42 })).toBe('pet/42');
+        expect(buildUrl(PET_ENDPOINTS.UPLOAD_IMAGE, { petId: 42 })).toBe('pet/42/uploadImage');
+        expect(buildUrl(STORE_ENDPOINTS.ORDER_BY_ID, { orderId: 7 })).toBe('store/order/7');
+        expect(buildUrl(USER_ENDPOINTS.BY_USERNAME, { username: 'a/b c#d&e?f' }))
+            .toBe('user/a%2Fb%20c%23d%26e%3Ff');
+    });
+
+    /**
+     * Test: Query parameters are encoded, repeated and ordered
+     * Severity: Critical
+     *
+     * @description Verifies encoding, repeated array values, declaration order and omitted values.
+     */
+    test('@regression Query parameters are encoded, repeated and omitted when undefined', async () => {
+        expect(buildUrl(USER_ENDPOINTS.LOGIN, { password: 'p&ss=1', username: 'john doe' }))
+            .toBe('user/login?username=john%20doe&password=p%26ss%3D1');
+        expect(buildUrl(PET_ENDPOINTS.BY_STATUS, { status: ['available', 'sold'] }))
+            .toBe('pet/findByStatus?status=available&status=sold');
+        expect(buildUrl(PET_ENDPOINTS.BY_TAGS, { tags: ['cats & dogs'] })).toBe('pet/findByTags?tags=cats%20%26%20dogs');
+        expect(buildUrl(USER_ENDPOINTS.LOGIN, { username: 'john', password: undefined })).toBe('user/login?username=john');
+        expect(buildUrl(USER_ENDPOINTS.LOGOUT)).toBe('user/logout');
+    });
+
+    /**
+     * Test: Invalid parameters are rejected
+     * Severity: Normal
+     *
+     * @description Verifies that missing path parameters and undeclared parameters fail fast.
+     */
+    test('@regression Missing and undeclared parameters are rejected', async () => {
+        const byUsername = endpoint('user/{username}');
+        expect(byUsername.pathParams).toEqual(['username']);
+
+        expect(() => buildUrl(byUsername, { username: '' }))
+            .toThrow('Missing path parameter "username" for endpoint "user/{username}"');
+        expect(() => buildUrl(PET_ENDPOINTS.BASE, { status: 'sold' } as never))
+            .toThrow('Undeclared parameter(s) "status" for endpoint "pet"');
+    });
+});
@@ -0,0 +1,195 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { PetService } from '@/api/services/pet/PetService';
+import { StoreService } from '@/api/services/store/StoreService';
+import { ApiTimeoutError } from '@/api/services/base/ApiTimeoutError';
+import { retryMiddleware } from '@/api/middleware';
+import { FaultProxy } from '@/faults';
+import { HTTP_STATUS } from '@/constants';
+import { TEST_CONFIG } from '@/config';
+import { getErrorMessage, parseJsonResponse } from '@/helpers/api.helper';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { readApiCallRecords } from '@/coverage';
+
+/**
+ * Fault Injection Test Suite
+ * Verifies how services and response helpers behave when the API is slow, fails, drops connections or sends malformed bodies
+ *
+ * Requests go through the worker's fault proxy (faultyRequest); each test declares its rules on `faults`.
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+const fastRetry = retryMiddleware({ retries: 2, baseDelayMs: 1, maxDelayMs: 5 });
+
+test.describe('Fault Injection @faults @resilience', () => {
+    /**
+     * Test: Transient 5xx recovery
+     * Severity: Critical
+     *
+     * @description Verifies that the next two GET /pet/{petId} calls fail with 503 and the retry middleware recovers.
+     */
+    test('@regression Retries recover from two injected 503 responses', async ({ petService, faults, faultyRequest }) => {
+        const pet = createPetData();
+        await petService.createPet(pet);
+        const proxiedPetService = new PetService(faultyRequest, { skipGlobalMiddlewares: true, middlewares: [fastRetry] });
+
+        faults.addRule({ method: 'GET', path: 'pet/{petId}', times: 2, fault: { type: 'status', status: HTTP_STATUS.SERVICE_UNAVAILABLE } });
+        const result = await (await proxiedPetService.getPet(pet.id!)).result();
+
+        expect(result.ok && result.body.name).toBe(pet.name);
+        expect(faults.requests).toEqual([
+            { method: 'GET', path: `pet/${pet.id}`, fault: 'status' },
+            { method: 'GET', path: `pet/${pet.id}`, fault: 'status' },
+            { method: 'GET', path: `pet/${pet.id}`, fault: undefined }
+        ]);
+    });
+
+    /**
+     * Test: Injected error bodies
+     * Severity: Normal
+     *
+     * @description Verifies that error messages are read from JSON error bodies and from plain text gateway pages.
+     */
+    test('@regression Error messages are read from JSON and plain text error bodies', async ({ faults, faultyRequest }) => {
+        const storeService = new StoreService(faultyRequest, { skipGlobalMiddlewares: true });
+        faults.addRule({ path: 'store/inventory', times: 1, fault: { type: 'status', status: HTTP_STATUS.SERVICE_UNAVAILABLE } });
+        faults.addRule({ path: 'store/inventory', times: 1, fault: { type: 'status', status: HTTP_STATUS.BAD_GATEWAY, body: '<html>Bad Gateway</html>' } });
+
+        const json = await storeService.getInventory();
+        const text = await storeService.getInventory();
+
+        expect(json.status()).toBe(HTTP_STATUS.SERVICE_UNAVAILABLE);
+        expect(await getErrorMessage(json)).toBe('Injected fault');
+        expect(text.status()).toBe(HTTP_STATUS.BAD_GATEWAY);
+        expect(await getErrorMessage(text)).toBe('<html>Bad Gateway</html>');
+        const result = await text.result();
+        expect(result.ok || result.error.message).toBe('<html>Bad Gateway</html>');
+    });
+
+    /**
+     * Test: Latency
+     * Severity: Normal
+     *
+     * @description Verifies that injected latency beyond the service timeout raises ApiTimeoutError.
+     */
+    test('@regression Injected latency beyond the timeout raises ApiTimeoutError', async ({ faults, faultyRequest }) => {
+        const storeService = new StoreService(faultyRequest, { skipGlobalMiddlewares: true });
+        faults.addRule({ path: 'store/inventory', fault: { type: 'latency', delayMs: 1_000 } });
+
+        await expect(storeService.withTimeout(200).getInventory()).rejects.toBeInstanceOf(ApiTimeoutError);
+    });
+
+    /**
+     * Test: Truncated bodies
+     * Severity: Critical
+     *
+     * @description Verifies that a truncated JSON body fails parsing with the status, content type and received text.
+     */
+    test('@regression Truncated JSON body fails parsing with the received text', async ({ petService, faults, faultyRequest }) => {
+        const pet = createPetData();
+        const full = await (await petService.createPet(pet)).text();
+        const proxiedPetService = new PetService(faultyRequest, { skipGlobalMiddlewares: true });
+        faults.addRule({ method: 'GET', path: 'pet/{petId}', fault: { type: 'truncate' } });
+
+        const response = await proxiedPetService.getPet(pet.id!);
+        const text = await response.text();
+
+        expect(text).toBe(full.slice(0, Math.floor(full.length / 2)));
+        await expect(parseJsonResponse(response)).rejects.toThrow(
+            `Failed to parse JSON response (HTTP 200, Content-Type: application/json). Body: ${text}`
+        );
+        expect(await getErrorMessage(response)).toBe(text);
+    });
+
+    /**
+     * Test: Wrong Content-Type
+     * Severity: Minor
+     *
+     * @description Verifies that a JSON body served with a text Content-Type is still parsed.
+     */
+    test('@regression JSON body with a wrong Content-Type is still parsed', async ({ faults, faultyRequest }) => {
+        const storeService = new StoreService(faultyRequest, { skipGlobalMiddlewares: true });
+        faults.addRule({ path: 'store/inventory', fault: { type: 'contentType', contentType: 'text/html' } });
+
+        const response = await storeService.getInventory();
+
+        expect(response.headers()['content-type']).toBe('text/html');
+        expect(typeof await parseJsonResponse(response)).toBe('object');
+    });
+
+    /**
+     * Test: Connection resets
+     * Severity: Critical
+     *
+     * @description Verifies that a reset connection fails a POST and is retried for a GET.
+     */
+    test('@regression Reset connections fail POST and are retried for GET', async ({ faults, faultyRequest }) => {
+        const petService = new PetService(faultyRequest, { skipGlobalMiddlewares: true, middlewares: [fastRetry] });
+        const storeService = new StoreService(faultyRequest, { skipGlobalMiddlewares: true, middlewares: [fastRetry] });
+        faults.addRule({ method: 'POST', path: 'pet', fault: { type: 'reset' } });
+        faults.addRule({ method: 'GET', path: 'store/inventory', times: 1, fault: { type: 'reset' } });
+
+        await expect(petService.createPet(createPetData())).rejects.toThrow(/socket hang up|ECONNRESET/);
+        expect((await storeService.getInventory()).status()).toBe(HTTP_STATUS.OK);
+        expect(faults.requests.map(({ method, fault }) => `${method} ${fault ?? 'forwarded'}`))
+            .toEqual(['POST reset', 'GET reset', 'GET forwarded']);
+    });
+
+    /**
+     * Test: Rule validation
+     * Severity: Minor
+     *
+     * @description Verifies that invalid rules and targets are rejected.
+     */
+    test('@regression Invalid fault rules are rejected', async ({ faults }) => {
+        const fault = { type: 'status', status: HTTP_STATUS.SERVICE_UNAVAILABLE } as const;
+
+        expect(() => faults.addRule({ path: 'pet', times: 0, fault })).toThrow('Fault rule times must be a positive integer, got 0');
+        expect(() => faults.addRule({ path: 'pet', probability: 2, fault })).toThrow('Fault rule probability must be between 0 and 1, got 2');
+        expect(() => faults.addRule({ path: 'pet', fault: { type: 'status', status: 42 } })).toThrow('Fault status must be an HTTP status code, got 42');
+        expect(() => new FaultProxy({ target: 'petstore' })).toThrow('Fault proxy target must be an http(s) URL, got "petstore"');
+    });
+
+    /**
+     * Test: Proxied calls stay out of the coverage
+     * Severity: Normal
+     *
+     * @description Verifies that only responses from the configured target are recorded for the API coverage report.
+     */
+    test('@regression Calls through the fault proxy are not counted in the API coverage', async ({ petService, faults, faultyRequest }) => {
+        const petId = createPetData().id!;
+        faults.addRule({ method: 'GET', path: 'pet/{petId}', times: 1, fault: { type: 'status', status: HTTP_STATUS.SERVICE_UNAVAILABLE } });
+
+        expect((await new PetService(faultyRequest).getPet(petId)).status()).toBe(HTTP_STATUS.SERVICE_UNAVAILABLE);
+        expect((await petService.getPet(petId)).status()).toBe(HTTP_STATUS.NOT_FOUND);
+
+        const records = readApiCallRecords().filter(record => record.url.endsWith(`/pet/${petId}`));
+        expect(records).toEqual([{ method: 'GET', url: `${TEST_CONFIG.api.baseURL}pet/${petId}`, status: HTTP_STATUS.NOT_FOUND }]);
+    });
+
+    /**
+     * Test: Random faults
+     * Severity: Normal
+     *
+     * @description Verifies that a rule with a probability only disturbs the requests its random draw selects.
+     */
+    test('@regression Probabilistic rules disturb only the drawn requests', async ({ playwright }) => {
+        const draws = [0.9, 0.1, 0.4];
+        const proxy = new FaultProxy({ target: TEST_CONFIG.api.baseURL, random: () => draws.shift() ?? 1 });
+        const context = await playwright.request.newContext({ baseURL: await proxy.start() });
+        try {
+            const storeService = new StoreService(context, { skipGlobalMiddlewares: true });
+            proxy.addRule({ path: 'store/inventory', probability: 0.5, fault: { type: 'status', status: HTTP_STATUS.INTERNAL_SERVER_ERROR } });
+
+            const statuses = [];
+            for (let i = 0; i < 3; i++) {
+                statuses.push((await storeService.getInventory()).status());
+            }
+
+            expect(statuses).toEqual([HTTP_STATUS.OK, HTTP_STATUS.INTERNAL_SERVER_ERROR, HTTP_STATUS.INTERNAL_SERVER_ERROR]);
+        } finally {
+            await context.dispose();
+            await proxy.stop();
+        }
+    });
+});
@@ -0,0 +1,92 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { OrderBuilder, PetBuilder, UserBuilder } from '@/fixtures/builders';
+import { PET_CATEGORIES, PET_TAGS } from '@/fixtures/data/pet.data';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { HTTP_STATUS } from '@/constants';
+
+/**
+ * Payload Builder Test Suite
+ * Verifies the fluent builders of pet, order and user payloads, valid and deliberately invalid
+ *
+ * Endpoints covered:
+ * - POST /pet, POST /store/order, GET /store/order/{orderId}
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('Payload Builders @fixtures', () => {
+    /**
+     * Test: Nested edits
+     * Severity: Critical
+     *
+     * @description Verifies that categories, tags and photo URLs are edited in place and each build is an independent copy.
+     */
+    test('@regression Pet builder edits nested fields', () => {
+        const builder = new PetBuilder()
+            .withCategory(PET_CATEGORIES[1])
+            .withTags(PET_TAGS[0])
+            .addTag(PET_TAGS[2])
+            .withPhotoUrls();
+
+        const pet = builder.build();
+        const copy = builder.build();
+        pet.tags!.push(PET_TAGS[3]);
+
+        expect(copy).toMatchObject({ category: { name: 'Cats' }, tags: [PET_TAGS[0], PET_TAGS[2]], photoUrls: [] });
+        expect(new PetBuilder().withoutField('tags').build()).not.toHaveProperty('tags');
+        expect(createPetData({ name: 'Rex', status: 'sold' })).toMatchObject({ name: 'Rex', status: 'sold' });
+    });
+
+    /**
+     * Test: Invalid payloads
+     * Severity: Critical
+     *
+     * @description Verifies that schema-breaking edits require buildInvalid(), and that valid payloads require build().
+     */
+    test('@regression Invalid payloads are built explicitly', () => {
+        const withoutName = new PetBuilder().withoutField('name');
+
+        expect(withoutName.buildInvalid()).not.toHaveProperty('name');
+        expect(() => withoutName.build()).toThrow('PetBuilder payload is invalid (without name); use buildInvalid()');
+        expect(withoutName.withName('Rex').build().name).toBe('Rex');
+        expect(() => new PetBuilder().buildInvalid()).toThrow('PetBuilder payload is valid; use build()');
+        expect(() => new PetBuilder().invalidStatus().withoutField('photoUrls').build())
+            .toThrow('PetBuilder payload is invalid (status="invalid_status", without photoUrls); use buildInvalid()');
+        expect(new OrderBuilder().invalidStatus('lost').buildInvalid()).toMatchObject({ status: 'lost' });
+        expect(new UserBuilder().invalidUserStatus().buildInvalid()).toMatchObject({ userStatus: 'active' });
+    });
+
+    /**
+     * Test: Orders and users
+     * Severity: Normal
+     *
+     * @description Verifies forPet(), derived emails, and that an order for a missing pet id is rejected.
+     */
+    test('@regression Order and user builders set related fields together', () => {
+        const pet = createPetData();
+
+        expect(new OrderBuilder().forPet(pet).withStatus('delivered', true).build())
+            .toMatchObject({ petId: pet.id, status: 'delivered', complete: true });
+        expect(() => new OrderBuilder().forPet({ ...pet, id: undefined }))
+            .toThrow(`Cannot order pet "${pet.name}" without an id`);
+        expect(new UserBuilder().withCredentials('jdoe', 'Secret@1').withName('John', 'Doe').build())
+            .toMatchObject({ username: 'jdoe', email: 'jdoe@example.com', password: 'Secret@1', firstName: 'John', lastName: 'Doe' });
+    });
+
+    /**
+     * Test: Built payloads round trip
+     * Severity: Normal
+     *
+     * @description Verifies that an order built for a created pet is stored with that pet's id.
+     */
+    test('@regression Order built for a created pet is stored with its pet id', async ({ petService, storeService }) => {
+        const pet = new PetBuilder().withStatus('pending').addTag(PET_TAGS[1]).build();
+        expect((await petService.createPet(pet)).status()).toBe(HTTP_STATUS.OK);
+
+        const order = new OrderBuilder().forPet(pet).withQuantity(1).build();
+        await storeService.placeOrder(order);
+        const result = await (await storeService.getOrderById(order.id!)).result();
+
+        expect(result.ok && result.body).toMatchObject({ id: order.id, petId: pet.id, quantity: 1 });
+    });
+});
@@ -0,0 +1,81 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { createOrderData } from '@/fixtures/factories/order.factory';
+import { createUserData } from '@/fixtures/factories/user.factory';
+import { readApiCallRecords } from '@/coverage';
+
+/**
+ * Resource Tracker Test Suite
+ * Verifies that the service fixtures track created resources and clean them up
+ *
+ * Endpoints covered:
+ * - POST /pet, DELETE /pet/{petId}
+ * - POST /store/order, DELETE /store/order/{orderId}
+ * - POST /user, POST /user/createWithArray, DELETE /user/{username}
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('Resource Tracker @fixtures', () => {
+    /**
+     * Test: Created resources are tracked and deleted
+     * Severity: Critical
+     *
+     * @description Verifies that creates are tracked, explicit deletes untracked, and cleanup deletes the rest without counting in the coverage.
+     */
+    test('@regression Created resources are tracked and deleted on cleanup', async ({
+        request, petService, storeService, userService, resourceTracker
+    }) => {
+        const pet = createPetData();
+        const order = createOrderData({ petId: pet.id });
+        const user = createUserData();
+        const batch = [
+            createUserData({ username: `${user.username}_a` }),
+            createUserData({ username: `${user.username}_b` })
+        ];
+
+        await test.step('Create a pet, an order and users through the fixtures', async () => {
+            expect((await petService.createPet(pet)).status()).toBe(200);
+            expect((await storeService.placeOrder(order)).status()).toBe(200);
+            expect((await userService.createUser(user)).status()).toBe(200);
+            expect((await userService.createUsersWithArray(batch)).status()).toBe(200);
+
+            expect(resourceTracker.tracked).toEqual([
+                { type: 'pet', id: pet.id },
+                { type: 'order', id: order.id },
+                { type: 'user', id: user.username },
+                { type: 'user', id: batch[0].username },
+                { type: 'user', id: batch[1].username }
+            ]);
+        });
+
+        await test.step('Explicit delete stops tracking the resource', async () => {
+            expect((await storeService.deleteOrder(order.id!)).status()).toBe(200);
+            expect(resourceTracker.tracked.map(resource => resource.type)).toEqual(['pet', 'user', 'user', 'user']);
+        });
+
+        await test.step('Cleanup deletes the remaining resources', async () => {
+            await resourceTracker.cleanup(request);
+
+            expect(resourceTracker.tracked).toEqual([]);
+            const deletes = readApiCallRecords().filter(record => record.method === 'DELETE');
+            expect(deletes.some(record => record.url.endsWith(`/pet/${pet.id}`))).toBeFalsy();
+            expect(deletes.some(record => record.url.endsWith(`/user/${user.username}`))).toBeFalsy();
+            expect((await petService.getPet(pet.id!)).status()).toBe(404);
+            expect((await userService.getUserByUsername(user.username!)).status()).toBe(404);
+        });
+    });
+
+    /**
+     * Test: Failed creates are not tracked
+     * Severity: Normal
+     *
+     * @description Verifies that only successful creates are recorded for cleanup.
+     */
+    test('@regression Failed requests are not tracked', async ({ petService, resourceTracker }) => {
+        const response = await petService.getPet(-1);
+
+        expect(response.ok()).toBeFalsy();
+        expect(resourceTracker.tracked).toEqual([]);
+    });
+});
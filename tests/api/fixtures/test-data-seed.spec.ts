@@ -0,0 +1,75 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { createRandom, deriveSeed, generateRandomString, getRunSeed, random, seedRandom } from '@/utils';
+import { createRandomPet } from '@/fixtures/factories/pet.factory';
+import { createRandomOrder } from '@/fixtures/factories/order.factory';
+
+/**
+ * Test Data Seed Test Suite
+ * Verifies that random test data is reproducible from TEST_SEED
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+/**
+ * Generate random data, leaving out the unique ids, names and dates
+ * @returns Random fields of a pet, an order and a string
+ */
+function generateRandomFields() {
+    const { category, tags, status, photoUrls } = createRandomPet();
+    const { quantity, status: orderStatus, complete } = createRandomOrder();
+    return { category, tags, status, photoUrls, quantity, orderStatus, complete, text: generateRandomString(16) };
+}
+
+test.describe('Test Data Seed @fixtures', () => {
+    /**
+     * Test: Seeded generator
+     * Severity: Critical
+     *
+     * @description Verifies that a seed always yields the same sequence and that seeds are validated.
+     */
+    test('@regression The same seed yields the same sequence', () => {
+        const first = createRandom(42);
+        const second = createRandom(42);
+        const sequence = Array.from({ length: 5 }, () => first());
+
+        expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+        expect(sequence.every(value => value >= 0 && value < 1)).toBeTruthy();
+        expect(createRandom(43)()).not.toBe(sequence[0]);
+        expect(deriveSeed(42, 'a › b')).toBe(deriveSeed(42, 'a › b'));
+        expect(deriveSeed(42, 'a › b')).not.toBe(deriveSeed(42, 'a › c'));
+        expect(() => createRandom(2 ** 32)).toThrow('Invalid Seed="4294967296": expected an integer from 0 to 4294967295');
+    });
+
+    /**
+     * Test: Reproducible payloads
+     * Severity: Critical
+     *
+     * @description Verifies that reseeding regenerates identical factory payloads.
+     */
+    test('@regression Reseeding regenerates identical payloads', () => {
+        seedRandom(1234);
+        const first = generateRandomFields();
+        seedRandom(1234);
+        const second = generateRandomFields();
+        seedRandom(4321);
+        const other = generateRandomFields();
+
+        expect(second).toEqual(first);
+        expect(other).not.toEqual(first);
+    });
+
+    /**
+     * Test: Per-test seed
+     * Severity: Normal
+     *
+     * @description Verifies that each test starts from a seed derived from TEST_SEED and its title, attached to the result.
+     */
+    test('@regression Each test is reseeded and its seed attached', async ({ testDataSeed }, testInfo) => {
+        expect(random()).toBe(createRandom(testDataSeed)());
+
+        expect(String(getRunSeed())).toBe(process.env.TEST_SEED);
+        expect(testDataSeed).toBe(deriveSeed(getRunSeed(), testInfo.titlePath.join(' › ')));
+        const attachment = testInfo.attachments.find(({ name }) => name === 'test-data-seed');
+        expect(attachment?.body?.toString()).toBe(`TEST_SEED=${getRunSeed()} (test seed ${testDataSeed})`);
+    });
+});
@@ -0,0 +1,134 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { TEST_CONFIG } from '@/config';
+import { IdAllocator, getIdAllocator } from '@/utils';
+import { createMultiplePets, createPetData, generateUniquePetId } from '@/fixtures/factories/pet.factory';
+import { createMultipleOrders, generateUniqueOrderId } from '@/fixtures/factories/order.factory';
+import { createMultipleUsers, createUserData } from '@/fixtures/factories/user.factory';
+import { VALID_ORDER_ID_RANGE, SAMPLE_ORDER } from '@/fixtures/data/order.data';
+import { SAMPLE_PET } from '@/fixtures/data/pet.data';
+import { SAMPLE_USER } from '@/fixtures/data/user.data';
+
+/**
+ * Unique ID Test Suite
+ * Verifies that ids and names generated by the factories never collide across workers and runs
+ *
+ * Endpoints covered:
+ * - POST /store/order, GET /store/order/{orderId}
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+/**
+ * Run a callback with TEST_CONFIG.testData.useDynamicIds set to false
+ * Tests of a worker run one at a time, so no other test sees the change
+ * @param callback - Code generating data
+ * @returns Result of the callback
+ */
+function withFixedIds<T>(callback: () => T): T {
+    const testData = TEST_CONFIG.testData as { useDynamicIds: boolean };
+    testData.useDynamicIds = false;
+    try {
+        return callback();
+    } finally {
+        testData.useDynamicIds = true;
+    }
+}
+
+test.describe('Unique IDs @fixtures', () => {
+    /**
+     * Test: ID layout
+     * Severity: Critical
+     *
+     * @description Verifies that ids combine run id, worker slot and counter, and restarted workers wrap around the slots.
+     */
+    test('@regression Ids combine run id, worker slot and counter', () => {
+        const main = new IdAllocator({ runId: 1234567 });
+        const worker = new IdAllocator({ runId: 1234567, workerIndex: 2 });
+        const otherRun = new IdAllocator({ runId: 1234568, workerIndex: 2 });
+
+        expect([main.nextId(), main.nextId()]).toEqual([1234567_000_000001, 1234567_000_000002]);
+        expect(worker.nextId()).toBe(1234567_003_000001);
+        expect(otherRun.nextId()).toBe(1234568_003_000001);
+        expect(new IdAllocator({ runId: 8_999_999, workerIndex: 998 }).nextId()).toBeLessThan(Number.MAX_SAFE_INTEGER);
+        expect(new IdAllocator({ runId: 1234567, workerIndex: 999 + 2 }).nextId()).toBe(1234567_003_000001);
+
+        expect(() => new IdAllocator({ runId: 9_000_000 })).toThrow('Run id must be an integer from 0 to 8999999, got 9000000');
+        expect(() => new IdAllocator({ runId: 1, workerIndex: -1 })).toThrow(`Worker index must be an integer from 0 to ${Number.MAX_SAFE_INTEGER}, got -1`);
+    });
+
+    /**
+     * Test: ID ranges
+     * Severity: Critical
+     *
+     * @description Verifies that a range is shared out between parallel workers, each cycling through its own share.
+     */
+    test('@regression Ranged ids give each parallel worker its own share', () => {
+        const shares = [0, 1, 2, 3].map(parallelIndex => {
+            const allocator = new IdAllocator({ runId: 1, parallelIndex, workers: 4 });
+            return Array.from({ length: 4 }, () => allocator.nextId(VALID_ORDER_ID_RANGE));
+        });
+
+        expect(shares).toEqual([[1, 5, 9, 1], [2, 6, 10, 2], [3, 7, 3, 7], [4, 8, 4, 8]]);
+        expect(() => new IdAllocator({ runId: 1, parallelIndex: 10, workers: 11 }).nextId(VALID_ORDER_ID_RANGE))
+            .toThrow('ID range 1-10 has no id for parallel index 10 of 11 workers');
+        expect(() => new IdAllocator({ runId: 1 }).nextId({ min: 10, max: 1 })).toThrow('Invalid ID range 10-1');
+    });
+
+    /**
+     * Test: Factory ids
+     * Severity: Critical
+     *
+     * @description Verifies that factory ids and names come from this worker's allocator and are distinct in batches.
+     */
+    test('@regression Factories allocate distinct ids and names from the worker allocator', () => {
+        const prefix = Math.floor(generateUniquePetId() as number / 1_000_000);
+        const pets = createMultiplePets(3);
+        const orders = createMultipleOrders(3);
+        const users = createMultipleUsers(3);
+
+        expect(Number(process.env.TEST_RUN_ID)).toBe(getIdAllocator().runId);
+        expect(prefix).toBe(getIdAllocator().runId * 1000 + Number(process.env.TEST_WORKER_INDEX) + 1);
+        expect(new Set(pets.map(pet => pet.id)).size).toBe(3);
+        expect(new Set(orders.map(order => order.id)).size).toBe(3);
+        expect(new Set(users.map(user => user.username)).size).toBe(3);
+        expect(pets.every(pet => Math.floor(Number(pet.id) / 1_000_000) === prefix)).toBeTruthy();
+        expect(() => generateUniqueOrderId({ range: VALID_ORDER_ID_RANGE, beyondSafeInteger: true }))
+            .toThrow('An ID cannot be both within a range and beyond Number.MAX_SAFE_INTEGER');
+    });
+
+    /**
+     * Test: Ranged order ids
+     * Severity: Normal
+     *
+     * @description Verifies that an order placed with an id from VALID_ORDER_ID_RANGE is found by that id.
+     */
+    test('@regression Orders with ranged ids are found by id', async ({ storeService }) => {
+        const orderId = generateUniqueOrderId({ range: VALID_ORDER_ID_RANGE });
+        expect(orderId).toBeGreaterThanOrEqual(VALID_ORDER_ID_RANGE.min);
+        expect(orderId).toBeLessThanOrEqual(VALID_ORDER_ID_RANGE.max);
+
+        await storeService.placeOrder({ ...SAMPLE_ORDER, id: orderId });
+        const result = await (await storeService.getOrderById(orderId)).result();
+
+        expect(result.ok && result.body.id).toBe(orderId);
+    });
+
+    /**
+     * Test: Fixed ids
+     * Severity: Normal
+     *
+     * @description Verifies that factories use the ids of src/fixtures/data when dynamic ids are disabled.
+     */
+    test('@regression Factories use fixed ids when dynamic ids are disabled', () => {
+        const { pet, orders, user } = withFixedIds(() => ({
+            pet: createPetData(),
+            orders: createMultipleOrders(2),
+            user: createUserData()
+        }));
+
+        expect(pet).toMatchObject({ id: SAMPLE_PET.id, name: `TestPet_${SAMPLE_PET.id}` });
+        expect(orders.map(order => order.id)).toEqual([SAMPLE_ORDER.id, Number(SAMPLE_ORDER.id) + 1]);
+        expect(user).toMatchObject({ id: SAMPLE_USER.id, username: `testuser_${SAMPLE_USER.id}` });
+        expect(withFixedIds(() => generateUniquePetId({ beyondSafeInteger: true }))).toBe(2n ** 63n - 1n);
+    });
+});
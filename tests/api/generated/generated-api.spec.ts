@@ -0,0 +1,106 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import * as path from 'path';
+import { PetApi, StoreApi, PET_API_ENDPOINTS, STORE_API_ENDPOINTS } from '@/api/generated';
+import { PET_ENDPOINTS, STORE_ENDPOINTS, endpoint } from '@/config';
+import { buildApiModel, readSpec } from '@/openapi';
+import { emitEndpoints, indexSharedEndpoints } from '../../../scripts/openapi/emitters';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { parseJsonResponse } from '@/helpers/api.helper';
+import { PET_SCHEMA, PET_LIST_SCHEMA, INVENTORY_SCHEMA } from '@/api/schemas';
+
+/**
+ * Generated API Test Suite
+ * Smoke-tests the services generated from specs/petstore.swagger.json
+ *
+ * Endpoints covered:
+ * - POST /pet - Add new pet (addPet)
+ * - GET /pet/{petId} - Get pet by ID (getPetById)
+ * - GET /pet/findByStatus - Find pets by status (findPetsByStatus)
+ * - DELETE /pet/{petId} - Delete pet (deletePet)
+ * - GET /store/inventory - Get inventory (getInventory)
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('Generated API Clients @api @generated', () => {
+    /**
+     * Test: Generated PetApi round trip
+     * Severity: Normal
+     *
+     * @description Verifies that the generated PetApi can create, read, search and delete a pet.
+     */
+    test('@regression Generated PetApi creates, reads, finds and deletes a pet', async ({ request }) => {
+        const petApi = new PetApi(request);
+        const pet = createPetData({ status: 'pending' });
+
+        await test.step('Create pet with addPet', async () => {
+            const response = await petApi.addPet(pet);
+            expect(response.status()).toBe(200);
+
+            const created = await parseJsonResponse(response, PET_SCHEMA);
+            expect(created.id).toBe(pet.id);
+        });
+
+        await test.step('Retrieve pet with getPetById', async () => {
+            const response = await petApi.getPetById(pet.id!);
+            expect(response.status()).toBe(200);
+            expect((await parseJsonResponse(response, PET_SCHEMA)).name).toBe(pet.name);
+        });
+
+        await test.step('Find pet with findPetsByStatus using repeated status values', async () => {
+            const response = await petApi.findPetsByStatus(['pending', 'sold']);
+            expect(response.status()).toBe(200);
+
+            const pets = await parseJsonResponse(response, PET_LIST_SCHEMA);
+            expect(pets.every(found => found.status === 'pending' || found.status === 'sold')).toBeTruthy();
+        });
+
+        await test.step('Delete pet with deletePet', async () => {
+            const response = await petApi.deletePet(pet.id!);
+            expect(response.status()).toBe(200);
+        });
+    });
+
+    /**
+     * Test: Generated StoreApi inventory
+     * Severity: Normal
+     *
+     * @description Verifies that the generated StoreApi returns an inventory map.
+     */
+    test('@regression Generated StoreApi returns the inventory', async ({ request }) => {
+        const response = await new StoreApi(request).getInventory();
+        expect(response.status()).toBe(200);
+        await parseJsonResponse(response, INVENTORY_SCHEMA);
+    });
+
+    /**
+     * Test: Endpoint descriptors mirror the spec
+     * Severity: Normal
+     *
+     * @description Verifies that generated descriptors reuse the endpoints of src/config (params, timeouts)
+     * with the documented method and status codes.
+     */
+    test('@regression Generated endpoint descriptors reuse the shared endpoints', async () => {
+        expect(PET_API_ENDPOINTS.getPetById).toMatchObject({ method: 'GET', responses: ['200', '400', '404'] });
+        expect(PET_API_ENDPOINTS.getPetById.endpoint).toBe(PET_ENDPOINTS.BY_ID);
+        expect(PET_API_ENDPOINTS.findPetsByStatus.endpoint.queryParams).toEqual(['status']);
+        expect(PET_API_ENDPOINTS.uploadFile.endpoint.timeoutMs).toBe(PET_ENDPOINTS.UPLOAD_IMAGE.timeoutMs);
+        expect(STORE_API_ENDPOINTS.getInventory.endpoint).toBe(STORE_ENDPOINTS.INVENTORY);
+    });
+
+    /**
+     * Test: Drift between the shared endpoints and the spec
+     * Severity: Normal
+     *
+     * @description Verifies that the generator rejects a shared endpoint whose query params differ from the spec.
+     */
+    test('@regression Generator rejects shared endpoints that drift from the spec', async () => {
+        const model = buildApiModel(readSpec(path.resolve('specs/petstore.swagger.json')));
+        const shared = indexSharedEndpoints({ PET_ENDPOINTS: { BY_STATUS: endpoint('pet/findByStatus', ['state']) } });
+
+        expect(() => emitEndpoints(model, 'specs/petstore.swagger.json', shared)).toThrow(
+            "PET_ENDPOINTS.BY_STATUS declares query parameters ['state'] but the spec documents ['status'] " +
+            'for GET /pet/findByStatus; update src/config/endpoints.ts'
+        );
+    });
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { parseJson, stringifyJson, toInt64 } from '@/api/json';
+import { PET_SCHEMA, validateSchema } from '@/api/schemas';
+import { HTTP_STATUS } from '@/constants';
+import { parseJsonResponse } from '@/helpers/api.helper';
+import { MAX_INT64 } from '@/utils';
+import { createPetData, generateUniquePetId } from '@/fixtures/factories/pet.factory';
+import { createOrderData, generateUniqueOrderId } from '@/fixtures/factories/order.factory';
+
+/**
+ * Int64 ID Test Suite
+ * Verifies that ids beyond Number.MAX_SAFE_INTEGER survive parsing, serialization and service round trips
+ *
+ * Endpoints covered:
+ * - POST /pet, GET /pet/{petId}, PUT /pet, DELETE /pet/{petId}
+ * - POST /store/order, GET /store/order/{orderId}
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('Int64 IDs @int64', () => {
+    /**
+     * Test: Lossless JSON
+     * Severity: Critical
+     *
+     * @description Verifies that large integers parse as exact bigints and serialize back as JSON numbers.
+     */
+    test('@regression Large integers parse as bigints and serialize back unchanged', () => {
+        const text = '{"id":9223372036854775807,"small":42,"price":1.5,"exp":1e3,"tags":[{"id":-9223372036854775808}]}';
+
+        const value = parseJson<Record<string, unknown>>(text);
+
+        expect(BigInt(JSON.parse(text).id)).toBe(2n ** 63n); // what response.json() returns
+
+        expect(value).toEqual({ id: MAX_INT64, small: 42, price: 1.5, exp: 1000, tags: [{ id: -(2n ** 63n) }] });
+        expect(stringifyJson(value)).toBe(text.replace('1e3', '1000'));
+        expect(stringifyJson({ id: 1n, nested: [2n] }, 2)).toBe('{\n  "id": 1,\n  "nested": [\n    2\n  ]\n}');
+        expect(Object.keys(parseJson('{"__proto__":1}'))).toEqual(['__proto__']);
+        expect(toInt64('9007199254740991')).toBe(Number.MAX_SAFE_INTEGER);
+        expect(toInt64(2n ** 53n)).toBe(2n ** 53n);
+        expect(() => parseJson('{"id":9223372036854775807')).toThrow('Unexpected end in JSON at position 25');
+        expect(() => parseJson('[1,]')).toThrow(SyntaxError);
+    });
+
+    /**
+     * Test: Pet round trip
+     * Severity: Critical
+     *
+     * @description Verifies that a pet created with a bigint id is fetched, updated and deleted under that exact id.
+     */
+    test('@regression Pet with an id beyond MAX_SAFE_INTEGER keeps its id', async ({ petService, resourceTracker }) => {
+        const pet = createPetData({ id: generateUniquePetId({ beyondSafeInteger: true }) });
+        expect(typeof pet.id).toBe('bigint');
+
+        const created = await (await petService.createPet(pet)).result();
+        expect(created.ok && created.body.id).toBe(pet.id);
+        expect(resourceTracker.tracked).toEqual([{ type: 'pet', id: pet.id }]);
+
+        const fetched = await petService.getPet(pet.id!);
+        expect((await parseJsonResponse(fetched, PET_SCHEMA)).id).toBe(pet.id);
+        expect((await fetched.json()).id).toBe(pet.id);
+
+        const updated = await (await petService.updatePet({ ...pet, id: pet.id!, name: `${pet.name}_updated` })).result();
+        expect(updated.ok && updated.body).toMatchObject({ id: pet.id, name: `${pet.name}_updated` });
+
+        expect((await petService.deletePet(pet.id!)).status()).toBe(HTTP_STATUS.OK);
+        expect(resourceTracker.tracked).toEqual([]);
+    });
+
+    /**
+     * Test: Order round trip
+     * Severity: Normal
+     *
+     * @description Verifies that an order with bigint id and petId is returned with both ids intact.
+     */
+    test('@regression Order with bigint id and petId keeps both', async ({ storeService }) => {
+        const order = createOrderData({
+            id: generateUniqueOrderId({ beyondSafeInteger: true }),
+            petId: MAX_INT64
+        });
+
+        await storeService.placeOrder(order);
+        const fetched = await (await storeService.getOrderById(order.id!)).result();
+
+        expect(fetched.ok && fetched.body).toMatchObject({ id: order.id, petId: MAX_INT64 });
+    });
+
+    /**
+     * Test: int64 range
+     * Severity: Normal
+     *
+     * @description Verifies that schemas accept bigints within the int64 range and reject the ones beyond it.
+     */
+    test('@regression Schema validation checks the int64 range of bigint ids', () => {
+        expect(validateSchema(createPetData({ id: MAX_INT64 }), PET_SCHEMA).valid).toBeTruthy();
+        expect(validateSchema(createPetData({ id: MAX_INT64 + 1n }), PET_SCHEMA).issues).toEqual([
+            { path: '$.id', expected: 'int64 in range', actual: 'bigint 9223372036854775808' }
+        ]);
+    });
+});
@@ -0,0 +1,124 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { UserService } from '@/api/services/user/UserService';
+import { PetService } from '@/api/services/pet/PetService';
+import { CORRELATION_ID_HEADER } from '@/api/services/base/BaseService';
+import { ApiLogEntry, ApiLogger, LogLevel, REDACTED, Redactor, parseLogLevel } from '@/api/logging';
+import { apiKeyAuth } from '@/api/auth';
+import { TEST_CONFIG } from '@/config';
+import { createUserData } from '@/fixtures/factories/user.factory';
+
+/**
+ * API Logging Test Suite
+ * Verifies the JSON lines written by BaseService and that secrets never reach them
+ *
+ * Endpoints covered:
+ * - POST /user, GET /user/login - password in the body and in the query string
+ * - GET /pet/{petId} - api_key header, 404 response
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+/**
+ * Create a logger keeping its lines in memory
+ * @param level - Verbosity
+ * @returns Logger and the raw lines it wrote
+ */
+function memoryLogger(level: LogLevel): { logger: ApiLogger; lines: string[] } {
+    const lines: string[] = [];
+    const logger = new ApiLogger({ level, redactFields: TEST_CONFIG.logging.redactFields, sink: line => lines.push(line) });
+    return { logger, lines };
+}
+
+test.describe('API Logging @logging', () => {
+    /**
+     * Test: Secrets are redacted
+     * Severity: Critical
+     *
+     * @description Verifies that passwords and the api_key header are masked in debug logs.
+     */
+    test('@regression Passwords and api_key never appear in the logs', async ({ request }) => {
+        const { logger, lines } = memoryLogger('debug');
+        const userService = new UserService(request, { logger, auth: apiKeyAuth('secret-key') });
+        const user = createUserData({ password: 'S3cr3t&pass' });
+
+        await userService.createUser(user);
+        await userService.login(user.username!, user.password!);
+
+        const log = lines.join('\n');
+        expect(log).not.toContain('S3cr3t');
+        expect(log).not.toContain('secret-key');
+
+        const entries = lines.map(line => JSON.parse(line) as ApiLogEntry);
+        const createRequest = entries.find(entry => entry.event === 'request' && entry.method === 'POST')!;
+        expect((createRequest.body as Record<string, unknown>).password).toBe(REDACTED);
+        expect(createRequest.headers!['api_key']).toBe(REDACTED);
+        expect(entries.find(entry => entry.url.includes('user/login'))!.url).toContain(`password=${REDACTED}`);
+    });
+
+    /**
+     * Test: Entries describe the call
+     * Severity: Normal
+     *
+     * @description Verifies method, URL, status, duration, sizes and the correlation id sent to the server.
+     */
+    test('@regression Response entries report status, duration, sizes and correlation id', async ({ request }) => {
+        const { logger, lines } = memoryLogger('info');
+        const userService = new UserService(request, { logger });
+        const user = createUserData();
+
+        const result = await (await userService.createUser(user)).result();
+
+        expect(lines).toHaveLength(1);
+        const entry = JSON.parse(lines[0]) as ApiLogEntry;
+        expect(entry).toMatchObject({
+            level: 'info',
+            event: 'response',
+            attempt: 1,
+            service: 'UserService',
+            method: 'POST',
+            status: result.status,
+            requestBytes: Buffer.byteLength(JSON.stringify(user))
+        });
+        expect(entry.url).toMatch(/\/user$/);
+        expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+        expect(entry.responseBytes).toBeGreaterThan(0);
+        expect(entry.correlationId).toBe(result.request.headers[CORRELATION_ID_HEADER]);
+    });
+
+    /**
+     * Test: Verbosity levels
+     * Severity: Normal
+     *
+     * @description Verifies that warn logs 4xx but not 2xx, silent logs nothing, and unknown levels are rejected.
+     */
+    test('@regression Verbosity level filters entries', async ({ request }) => {
+        const warn = memoryLogger('warn');
+        const silent = memoryLogger('silent');
+
+        for (const { logger } of [warn, silent]) {
+            const petService = new PetService(request, { logger });
+            await petService.findPetsByStatus('available');
+            await petService.getPet(987654321);
+        }
+
+        expect(warn.lines.map(line => JSON.parse(line).status)).toEqual([404]);
+        expect(silent.lines).toEqual([]);
+        expect(() => parseLogLevel('verbose')).toThrow('Unknown API_LOG_LEVEL "verbose". Expected one of: silent, error, warn, info, debug');
+    });
+
+    /**
+     * Test: Redaction rules
+     * Severity: Normal
+     *
+     * @description Verifies case-insensitive matching in headers, nested bodies and query strings quoted in text.
+     */
+    test('@regression Redactor masks headers, nested fields and query parameters', async () => {
+        const redactor = new Redactor(['password', 'Authorization']);
+
+        expect(redactor.headers({ authorization: 'Bearer t', Accept: 'application/json' }))
+            .toEqual({ authorization: REDACTED, Accept: 'application/json' });
+        expect(redactor.body([{ user: { PASSWORD: 'x', name: 'n' } }])).toEqual([{ user: { PASSWORD: REDACTED, name: 'n' } }]);
+        expect(redactor.text('GET http://host/user/login?username=a&password=p%26w failed'))
+            .toBe(`GET http://host/user/login?username=a&password=${REDACTED} failed`);
+    });
+});
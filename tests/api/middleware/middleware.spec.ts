@@ -0,0 +1,63 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { StoreService } from '@/api/services/store/StoreService';
+import { ApiMiddleware, headersMiddleware, resolveMiddlewares } from '@/api/middleware';
+
+/**
+ * Middleware Pipeline Test Suite
+ * Verifies that service calls run through the configured middleware chain
+ *
+ * Endpoints covered:
+ * - GET /store/inventory - Returns pet inventories by status
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('Middleware Pipeline @middleware', () => {
+    /**
+     * Test: Middlewares edit requests and observe responses in order
+     * Severity: Critical
+     *
+     * @description Verifies ordering, header injection and response inspection of per-instance middlewares.
+     */
+    test('@regression Instance middlewares edit the request and observe the response in order', async ({ request }) => {
+        const events: string[] = [];
+        const tracing = (name: string): ApiMiddleware => ({
+            name,
+            async handle(apiRequest, next) {
+                events.push(`${name}:request ${apiRequest.method} ${apiRequest.url} (${apiRequest.service})`);
+                const response = await next(apiRequest);
+                events.push(`${name}:response ${response.status()}`);
+                return response;
+            }
+        });
+
+        const storeService = new StoreService(request, {
+            middlewares: [tracing('outer'), headersMiddleware({ 'X-Test-Run': 'middleware-spec' })]
+        }).use(tracing('inner'));
+
+        const result = await (await storeService.getInventory()).result();
+
+        expect(result.status).toBe(200);
+        expect(result.request.headers).toMatchObject({
+            'Accept': 'application/json',
+            'X-Test-Run': 'middleware-spec'
+        });
+        expect(events).toEqual([
+            'outer:request GET store/inventory (StoreService)',
+            'inner:request GET store/inventory (StoreService)',
+            'inner:response 200',
+            'outer:response 200'
+        ]);
+    });
+
+    /**
+     * Test: Unknown middleware names are rejected
+     * Severity: Normal
+     *
+     * @description Verifies that a typo in TEST_CONFIG.api.middlewares fails fast with the known names.
+     */
+    test('@regression Unknown middleware names are rejected', async () => {
+        expect(() => resolveMiddlewares(['coverage', 'not-a-middleware']))
+            .toThrow('Unknown middleware "not-a-middleware". Expected one of: coverage, retry');
+    });
+});
@@ -0,0 +1,147 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { request as playwrightRequest, APIRequestContext } from '@playwright/test';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { StoreService } from '@/api/services/store/StoreService';
+import { HttpMethod, computeBackoffDelay, retryMiddleware } from '@/api/middleware';
+import { HTTP_STATUS } from '@/constants';
+import { createOrderData } from '@/fixtures/factories/order.factory';
+
+/**
+ * Retry Middleware Test Suite
+ * Verifies backoff retries against a local server that fails a scripted number of times
+ *
+ * These tests do not depend on API_BASE_URL.
+ */
+
+test.describe.configure({ mode: 'serial' });
+
+/**
+ * Local server answering with scripted statuses, then 200
+ */
+class FlakyServer {
+    readonly hits: string[] = [];
+    private statuses: number[] = [];
+    private readonly server = http.createServer((req, res) => {
+        this.hits.push(`${req.method} ${req.url}`);
+        const status = this.statuses.shift() ?? HTTP_STATUS.OK;
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(status === HTTP_STATUS.OK ? { available: 1 } : { code: status, message: 'flaky' }));
+    });
+
+    async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v2/`;
+    }
+
+    async stop(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    failNext(...statuses: number[]): void {
+        this.hits.length = 0;
+        this.statuses = statuses;
+    }
+}
+
+test.describe('Retry Middleware @middleware @retry', () => {
+    const server = new FlakyServer();
+    const fastRetry = { retries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+    let apiContext: APIRequestContext;
+
+    test.beforeAll(async () => {
+        apiContext = await playwrightRequest.newContext({ baseURL: await server.start() });
+    });
+
+    test.afterAll(async () => {
+        await apiContext.dispose();
+        await server.stop();
+    });
+
+    /**
+     * Test: Idempotent requests are retried
+     * Severity: Critical
+     *
+     * @description Verifies that a GET answered with 503 then 502 is retried until it succeeds.
+     */
+    test('@regression GET is retried on retryable statuses until it succeeds', async () => {
+        const storeService = new StoreService(apiContext, {
+            skipGlobalMiddlewares: true,
+            middlewares: [retryMiddleware(fastRetry)]
+        });
+        server.failNext(HTTP_STATUS.SERVICE_UNAVAILABLE, HTTP_STATUS.BAD_GATEWAY);
+
+        const response = await storeService.getInventory();
+
+        expect(response.status()).toBe(HTTP_STATUS.OK);
+        expect(server.hits).toEqual(Array(3).fill('GET /v2/store/inventory'));
+    });
+
+    /**
+     * Test: Retries stop after the configured count
+     * Severity: Normal
+     *
+     * @description Verifies that the last failure is returned once all retries are used.
+     */
+    test('@regression Last failure is returned when retries are exhausted', async () => {
+        const storeService = new StoreService(apiContext, {
+            skipGlobalMiddlewares: true,
+            middlewares: [retryMiddleware(fastRetry)]
+        });
+        server.failNext(...Array(5).fill(HTTP_STATUS.SERVICE_UNAVAILABLE));
+
+        const response = await storeService.getInventory();
+
+        expect(response.status()).toBe(HTTP_STATUS.SERVICE_UNAVAILABLE);
+        expect(server.hits).toHaveLength(3);
+    });
+
+    /**
+     * Test: POST requires an explicit opt-in
+     * Severity: Critical
+     *
+     * @description Verifies that POST is sent once by default and retried only when listed in the methods.
+     */
+    test('@regression POST is retried only when opted in', async () => {
+        await test.step('POST is not retried by default', async () => {
+            const storeService = new StoreService(apiContext, {
+                skipGlobalMiddlewares: true,
+                middlewares: [retryMiddleware(fastRetry)]
+            });
+            server.failNext(HTTP_STATUS.SERVICE_UNAVAILABLE);
+
+            const response = await storeService.placeOrder(createOrderData());
+            expect(response.status()).toBe(HTTP_STATUS.SERVICE_UNAVAILABLE);
+            expect(server.hits).toEqual(['POST /v2/store/order']);
+        });
+
+        await test.step('POST is retried when opted in', async () => {
+            const methods: HttpMethod[] = ['GET', 'PUT', 'DELETE', 'POST'];
+            const storeService = new StoreService(apiContext, {
+                skipGlobalMiddlewares: true,
+                middlewares: [retryMiddleware({ ...fastRetry, methods })]
+            });
+            server.failNext(HTTP_STATUS.SERVICE_UNAVAILABLE);
+
+            const response = await storeService.placeOrder(createOrderData());
+            expect(response.status()).toBe(HTTP_STATUS.OK);
+            expect(server.hits).toHaveLength(2);
+        });
+    });
+
+    /**
+     * Test: Backoff grows exponentially with jitter
+     * Severity: Minor
+     *
+     * @description Verifies that each delay stays between half and all of its capped exponential value.
+     */
+    test('@regression Backoff delay grows exponentially and is capped', async () => {
+        const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+        for (const [attempt, ceiling] of [[1, 100], [2, 200], [3, 400], [4, 800], [5, 1000], [8, 1000]]) {
+            const delay = computeBackoffDelay(attempt, options);
+            expect(delay).toBeGreaterThanOrEqual(ceiling / 2);
+            expect(delay).toBeLessThanOrEqual(ceiling);
+        }
+    });
+});
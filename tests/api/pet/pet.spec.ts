@@ -1,7 +1,12 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../../src/fixtures/api.fixtures';
 import { PetService } from '../../../src/api/services/pet/PetService';
-import { Pet } from '../../../src/api/types';
+import { Int64, Pet } from '../../../src/api/types';
 import { createPetData, updatePetData } from '../../../src/fixtures/factories/pet.factory';
+import { PetBuilder } from '../../../src/fixtures/builders';
+import { getActiveBehaviorProfile } from '../../../src/config';
+import { markKnownBug } from '../../../src/helpers/knownBug.helper';
+import { parseJsonResponse } from '../../../src/helpers/api.helper';
+import { PET_SCHEMA } from '../../../src/api/schemas';
 
 /**
  * Pet API Test Suite
@@ -13,6 +18,7 @@ import { createPetData, updatePetData } from '../../../src/fixtures/factories/pe
  * - GET /pet/{petId} - Get pet by ID
  * - DELETE /pet/{petId} - Delete pet
  * - GET /pet/findByStatus - Find pets by status
+ * - GET /pet/findByTags - Find pets by tags
  */
 
 test.describe.configure({ mode: 'parallel' });
@@ -40,7 +46,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
         });
 
         const petService = new PetService(request);
-        let createdPetId: number;
+        let createdPetId: Int64;
 
         await test.step('Create a new pet', async () => {
             const newPetData = createPetData({
@@ -51,7 +57,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
             const createResponse = await petService.createPet(newPetData);
             expect(createResponse.status()).toBe(200);
 
-            const createdPet: Pet = await createResponse.json();
+            const createdPet = await parseJsonResponse(createResponse, PET_SCHEMA);
             expect(createdPet.id).toBeDefined();
             expect(createdPet.name).toBe('Buddy');
             expect(createdPet.status).toBe('available');
@@ -63,7 +69,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
             const getResponse = await petService.getPet(createdPetId);
             expect(getResponse.status()).toBe(200);
 
-            const retrievedPet: Pet = await getResponse.json();
+            const retrievedPet = await parseJsonResponse(getResponse, PET_SCHEMA);
             expect(retrievedPet.id).toBe(createdPetId);
             expect(retrievedPet.name).toBe('Buddy');
             expect(retrievedPet.status).toBe('available');
@@ -78,7 +84,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
             const updateResponse = await petService.updatePet(updatedPetData);
             expect(updateResponse.status()).toBe(200);
 
-            const updatedPet: Pet = await updateResponse.json();
+            const updatedPet = await parseJsonResponse(updateResponse, PET_SCHEMA);
             expect(updatedPet.id).toBe(createdPetId);
             expect(updatedPet.name).toBe('Max');
             expect(updatedPet.status).toBe('sold');
@@ -111,7 +117,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
      */
     test('@smoke Create pet with minimal required fields (name and photoUrls)', async ({ request }) => {
         const petService = new PetService(request);
-        let petId: number;
+        let petId: Int64;
 
         await test.step('Create pet with only required fields', async () => {
             const minimalPet: Pet = {
@@ -153,7 +159,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
      */
     test('@regression Create pet with complete data including category and tags', async ({ request }) => {
         const petService = new PetService(request);
-        let petId: number;
+        let petId: Int64;
 
         await test.step('Create pet with all fields populated', async () => {
             const completePet = createPetData({
@@ -202,7 +208,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
      */
     test('@smoke @regression Find pets by status - available, pending, sold', async ({ request }) => {
         const petService = new PetService(request);
-        const createdPetIds: number[] = [];
+        const createdPetIds: Int64[] = [];
 
         // Create test pets with different statuses
         await test.step('Create test pets with different statuses', async () => {
@@ -250,6 +256,52 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
         });
     });
 
+    /**
+     * Test: Find pets by several statuses
+     * Feature: Pet Search
+     * Severity: Normal
+     *
+     * @description Verifies that several statuses are sent as repeated query parameters and combined.
+     *
+     * Steps:
+     * 1. Create one available and one sold pet.
+     * 2. Find pets by ['available', 'sold'].
+     * 3. Verify the query repeats the status parameter.
+     * 4. Verify only those statuses are returned and both pets are included.
+     * 5. Cleanup: Delete the pets.
+     */
+    test('@regression Find pets by multiple statuses - available and sold', async ({ request }) => {
+        const petService = new PetService(request);
+        const availablePet = createPetData({ status: 'available' });
+        const soldPet = createPetData({ status: 'sold' });
+
+        await test.step('Create an available and a sold pet', async () => {
+            expect((await petService.createPet(availablePet)).status()).toBe(200);
+            expect((await petService.createPet(soldPet)).status()).toBe(200);
+        });
+
+        await test.step('Find pets by status: available, sold', async () => {
+            const response = await petService.findPetsByStatus(['available', 'sold']);
+            expect(response.status()).toBe(200);
+            expect(new URL(response.url()).searchParams.getAll('status')).toEqual(['available', 'sold']);
+
+            const pets: Pet[] = await response.json();
+            pets.filter(pet => pet.status).forEach(pet => {
+                expect(['available', 'sold']).toContain(pet.status);
+            });
+
+            const petIds = pets.map(pet => pet.id);
+            expect(petIds).toContain(availablePet.id);
+            expect(petIds).toContain(soldPet.id);
+        });
+
+        // Cleanup
+        await test.step('Cleanup - Delete test pets', async () => {
+            await petService.deletePet(availablePet.id!);
+            await petService.deletePet(soldPet.id!);
+        });
+    });
+
     /**
      * Test: Create multiple pets
      * Feature: Pet Creation
@@ -267,7 +319,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
     test('@regression Create multiple pets successfully', async ({ request }) => {
         const petService = new PetService(request);
         const petNames = ['Rex', 'Luna', 'Charlie'];
-        const createdPetIds: number[] = [];
+        const createdPetIds: Int64[] = [];
 
         await test.step('Create multiple pets with different names', async () => {
             for (const name of petNames) {
@@ -311,7 +363,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
      */
     test('@regression Update pet status - available to pending to sold', async ({ request }) => {
         const petService = new PetService(request);
-        let petId: number;
+        let petId: Int64;
 
         await test.step('Create initial pet with available status', async () => {
             const petData = createPetData({ name: 'StatusTestPet', status: 'available' });
@@ -365,7 +417,7 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
      */
     test('@regression Update pet with partial data - only name', async ({ request }) => {
         const petService = new PetService(request);
-        let petId: number;
+        let petId: Int64;
         const originalName = 'OriginalName_' + Date.now();
         const updatedName = 'UpdatedName_' + Date.now();
 
@@ -401,29 +453,26 @@ test.describe('Pet API - Positive Test Cases @api @critical', () => {
  * Testing error handling, validation, and edge cases
  */
 test.describe('Pet API - Negative Test Cases', () => {
+    const { expectedStatus } = getActiveBehaviorProfile();
+
     /**
      * Test: Create pet without required name field
      * Feature: Validation
      * Severity: Critical
      * 
      * @description Verifies the API's behavior when attempting to create a pet without the required 'name' field.
-     * Note: Current API implementation may allow this (Status 200), contrary to strict validation expectations.
+     * Note: The public Petstore allows this (Status 200); the expected status comes from the active behavior profile.
      */
     test('@validation Create pet without required name field should fail', async ({ request }) => {
         const petService = new PetService(request);
 
         await test.step('Attempt to create pet without name', async () => {
-            const invalidPet: any = {
-                photoUrls: ['https://example.com/photo.jpg'],
-                status: 'available'
-                // Missing required 'name' field
-            };
+            const invalidPet = new PetBuilder().withoutField('name').buildInvalid();
 
             const response = await petService.createPet(invalidPet);
 
-            // NOTE: Petstore API actually returns 200 even without required 'name' field
-            // In production environment, this should be validated and return 400/405
-            expect(response.status()).toBe(200);
+            // NOTE: Public Petstore returns 200 even without required 'name' field; spec-strict targets return 405
+            expect(response.status()).toBe(expectedStatus.createPetWithoutName);
         });
     });
 
@@ -433,23 +482,18 @@ test.describe('Pet API - Negative Test Cases', () => {
      * Severity: Critical
      * 
      * @description Verifies the API's behavior when attempting to create a pet without the required 'photoUrls' field.
-     * Note: Current API implementation may allow this (Status 200).
+     * Note: The public Petstore allows this (Status 200); the expected status comes from the active behavior profile.
      */
     test('@validation Create pet without required photoUrls field should fail', async ({ request }) => {
         const petService = new PetService(request);
 
         await test.step('Attempt to create pet without photoUrls', async () => {
-            const invalidPet: any = {
-                name: 'TestPet_' + Date.now(),
-                status: 'available'
-                // Missing required 'photoUrls' field
-            };
+            const invalidPet = new PetBuilder().withoutField('photoUrls').buildInvalid();
 
             const response = await petService.createPet(invalidPet);
 
-            // NOTE: Petstore API actually returns 200 even without required 'photoUrls' field
-            // In production environment, this should be validated and return 400/405
-            expect(response.status()).toBe(200);
+            // NOTE: Public Petstore returns 200 even without required 'photoUrls' field; spec-strict targets return 405
+            expect(response.status()).toBe(expectedStatus.createPetWithoutPhotoUrls);
         });
     });
 
@@ -495,15 +539,13 @@ test.describe('Pet API - Negative Test Cases', () => {
         const petService = new PetService(request);
 
         await test.step('Attempt to create pet with invalid status', async () => {
-            const invalidPet: any = {
-                name: 'TestPet_' + Date.now(),
-                photoUrls: ['https://example.com/photo.jpg'],
-                status: 'invalid_status' // Invalid status (valid: available, pending, sold)
-            };
+            // Invalid status (valid: available, pending, sold)
+            const invalidPet = new PetBuilder().invalidStatus('invalid_status').buildInvalid();
 
             const response = await petService.createPet(invalidPet);
 
-            // API behavior may vary - some accept invalid status, others reject
+            // Public Petstore accepts invalid status, spec-strict targets reject it
+            expect(response.status()).toBe(expectedStatus.createPetWithInvalidStatus);
             if (response.status() === 200) {
                 const pet: Pet = await response.json();
                 if (pet.id) await petService.deletePet(pet.id);
@@ -517,20 +559,18 @@ test.describe('Pet API - Negative Test Cases', () => {
      * Severity: Critical
      * 
      * @description Verifies that requesting a non-existent pet ID returns a 404 Not Found error.
-     * Note: Known issue where API returns 200.
+     * Note: Known bug PETSTORE-001 where the public API returns 200; expected to fail where active.
      */
     test('@smoke @validation Get non-existent pet returns 404', async ({ request }) => {
+        await markKnownBug('PET_GET_NON_EXISTENT_RETURNS_200');
         const petService = new PetService(request);
 
         await test.step('Attempt to get pet with non-existent ID', async () => {
             const nonExistentPetId = 999999999;
             const response = await petService.getPet(nonExistentPetId);
 
-            // NOTE: This test WILL FAIL due to Petstore API bug
             // Expected: 404 (Not Found) - per REST API best practices
-            // Actual: 200 (OK) - API returns success for non-existent resource
-            // This is a KNOWN API BUG, not a test issue
-            // Value: Documents API behavior for bug reporting
+            // Known bug PETSTORE-001: public API returns 200 (OK) for non-existent resource
             expect(response.status()).toBe(404);
         });
     });
@@ -541,7 +581,7 @@ test.describe('Pet API - Negative Test Cases', () => {
      * Severity: Critical
      * 
      * @description Verifies that attempting to update a non-existent pet returns a 404 Not Found error.
-     * Note: API currently creates a new pet (Status 200) instead.
+     * Note: The public Petstore creates a new pet (Status 200) instead; the expected status comes from the active behavior profile.
      */
     test('@validation Update non-existent pet returns 404', async ({ request }) => {
         const petService = new PetService(request);
@@ -556,9 +596,11 @@ test.describe('Pet API - Negative Test Cases', () => {
 
             const response = await petService.updatePet(nonExistentPet);
 
-            // NOTE: Petstore API returns 200 (creates new pet) instead of returning 404
-            // In production, updating non-existent resource should return 404
-            expect(response.status()).toBe(200);
+            // NOTE: Public Petstore returns 200 (creates new pet); spec-strict targets return 404
+            expect(response.status()).toBe(expectedStatus.updateNonExistentPet);
+
+            // Cleanup the pet created by upserting targets
+            if (response.status() === 200) await petService.deletePet(nonExistentPet.id!);
         });
     });
 
@@ -568,7 +610,7 @@ test.describe('Pet API - Negative Test Cases', () => {
      * Severity: Normal
      * 
      * @description Verifies that attempting to delete a non-existent pet returns a 404 error.
-     * Note: API currently returns 200.
+     * Note: The public Petstore returns 200; the expected status comes from the active behavior profile.
      */
     test('@validation Delete non-existent pet returns 404', async ({ request }) => {
         const petService = new PetService(request);
@@ -577,8 +619,8 @@ test.describe('Pet API - Negative Test Cases', () => {
             const nonExistentPetId = 999999999;
             const response = await petService.deletePet(nonExistentPetId);
 
-            // Petstore API returns 200 even when deleting non-existent pets
-            expect(response.status()).toBe(200);
+            // Public Petstore returns 200 even when deleting non-existent pets; spec-strict targets return 404
+            expect(response.status()).toBe(expectedStatus.deleteNonExistentPet);
         });
     });
 
@@ -595,13 +637,12 @@ test.describe('Pet API - Negative Test Cases', () => {
         await test.step('Attempt to find pets with invalid status', async () => {
             const response = await petService.findPetsByStatus('invalid_status');
 
-            // API should return 400 for invalid status value
-            // Some implementations may return empty array instead
+            // Spec-strict targets return 400 for invalid status value
+            // Public Petstore returns an empty array instead
+            expect(response.status()).toBe(expectedStatus.findPetsByInvalidStatus);
             if (response.status() === 200) {
                 const pets: Pet[] = await response.json();
                 expect(Array.isArray(pets)).toBeTruthy();
-            } else {
-                expect(response.status()).toBe(400);
             }
         });
     });
@@ -731,6 +772,67 @@ test.describe('Pet API - Missing Endpoints Coverage', () => {
      * ENDPOINT: GET /pet/findByTags
      * Tests for finding pets by tags
      */
+    test.describe('Find Pets by Tags', () => {
+        /**
+         * Test: Find pets by tags with special characters
+         * Feature: Pet Search
+         * Severity: Normal
+         *
+         * @description Verifies that tags containing spaces and ampersands are URL-encoded and sent as repeated parameters.
+         *
+         * Steps:
+         * 1. Create two pets, each with a tag containing spaces or an ampersand.
+         * 2. Find pets by both tags.
+         * 3. Verify the query decodes back to the exact tag names.
+         * 4. Verify both pets are returned.
+         * 5. Cleanup: Delete the pets.
+         */
+        test('@regression Find pets by tags with spaces and ampersands', async ({ request }) => {
+            const petService = new PetService(request);
+            const suffix = Date.now();
+            const tags = [`cats & dogs ${suffix}`, `good boy ${suffix}`];
+            const pets = tags.map((name, index) => createPetData({ tags: [{ id: index + 1, name }] }));
+
+            await test.step('Create pets with special tag names', async () => {
+                for (const pet of pets) {
+                    expect((await petService.createPet(pet)).status()).toBe(200);
+                }
+            });
+
+            await test.step('Find pets by both tags', async () => {
+                const response = await petService.findPetsByTags(tags);
+                expect(response.status()).toBe(200);
+                expect(new URL(response.url()).searchParams.getAll('tags')).toEqual(tags);
+
+                const found: Pet[] = await response.json();
+                const foundIds = found.map(pet => pet.id);
+                pets.forEach(pet => expect(foundIds).toContain(pet.id));
+            });
+
+            // Cleanup
+            await test.step('Cleanup - Delete test pets', async () => {
+                for (const pet of pets) {
+                    await petService.deletePet(pet.id!);
+                }
+            });
+        });
+
+        /**
+         * Test: Find pets by an unknown tag
+         * Feature: Pet Search
+         * Severity: Minor
+         *
+         * @description Verifies that a tag nobody uses returns an empty list.
+         */
+        test('@regression Find pets by unknown tag returns empty list', async ({ request }) => {
+            const petService = new PetService(request);
+
+            const response = await petService.findPetsByTags([`no-such-tag-${Date.now()}`]);
+
+            expect(response.status()).toBe(200);
+            expect(await response.json()).toEqual([]);
+        });
+    });
 
 
     /**
@@ -753,7 +855,7 @@ test.describe('Pet API - Missing Endpoints Coverage', () => {
          */
         test('@regression Upload image with metadata successfully', async ({ request }) => {
             const petService = new PetService(request);
-            let petId: number;
+            let petId: Int64;
 
             await test.step('Create pet for image upload', async () => {
                 const petData = createPetData({ name: 'ImagePet' });
@@ -790,7 +892,7 @@ test.describe('Pet API - Missing Endpoints Coverage', () => {
          */
         test('@regression Upload image without metadata', async ({ request }) => {
             const petService = new PetService(request);
-            let petId: number;
+            let petId: Int64;
 
             await test.step('Create pet for image upload', async () => {
                 const petData = createPetData({ name: 'ImagePet2' });
@@ -843,7 +945,7 @@ test.describe('Pet API - Missing Endpoints Coverage', () => {
          */
         test('@edge-case Upload invalid file type', async ({ request }) => {
             const petService = new PetService(request);
-            let petId: number;
+            let petId: Int64;
 
             await test.step('Create pet for upload test', async () => {
                 const petData = createPetData({ name: 'InvalidFilePet' });
@@ -886,7 +988,7 @@ test.describe('Pet API - Missing Endpoints Coverage', () => {
          */
         test('@regression Update pet using form data successfully', async ({ request }) => {
             const petService = new PetService(request);
-            let petId: number;
+            let petId: Int64;
 
             await test.step('Create pet for form update', async () => {
                 const petData = createPetData({
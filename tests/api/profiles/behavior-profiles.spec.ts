@@ -0,0 +1,137 @@
+import { request as playwrightRequest, APIRequestContext } from '@playwright/test';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { PetService } from '@/api/services/pet/PetService';
+import { UserService } from '@/api/services/user/UserService';
+import { AuthProvider, apiKeyAuth, combineAuth, oauth2Auth } from '@/api/auth';
+import { BEHAVIOR_PROFILES, BehaviorProfileName, getBehaviorProfile } from '@/config';
+import { PetstoreMockServer } from '@/mock';
+import { PetBuilder } from '@/fixtures/builders';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+
+/**
+ * Behavior Profile Test Suite
+ * Verifies the profile switching logic offline against a dedicated mock server per profile
+ *
+ * Each profile gets its own in-memory Petstore emulating that profile, so these tests
+ * do not depend on API_BASE_URL or on the behavior of the public server.
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('Behavior Profiles - Profile lookup @profiles', () => {
+    /**
+     * Test: Resolve known profiles and reject unknown names
+     * Severity: Normal
+     *
+     * @description Verifies that profiles are resolved by name and that an unknown name fails fast.
+     */
+    test('@regression Resolve profiles by name', async () => {
+        await test.step('Resolve known profiles', async () => {
+            expect(getBehaviorProfile('swagger-public')).toBe(BEHAVIOR_PROFILES['swagger-public']);
+            expect(getBehaviorProfile('spec-strict')).toBe(BEHAVIOR_PROFILES['spec-strict']);
+        });
+
+        await test.step('Reject unknown profile name', async () => {
+            expect(() => getBehaviorProfile('production')).toThrow(/Unknown behavior profile "production"/);
+        });
+    });
+});
+
+for (const profileName of Object.keys(BEHAVIOR_PROFILES) as BehaviorProfileName[]) {
+    test.describe(`Behavior Profiles - ${profileName} emulation @profiles`, () => {
+        const profile = BEHAVIOR_PROFILES[profileName];
+        const { expectedStatus } = profile;
+        let server: PetstoreMockServer;
+        let apiContext: APIRequestContext;
+        let auth: AuthProvider;
+
+        test.beforeAll(async () => {
+            server = new PetstoreMockServer({ profile });
+            const baseURL = await server.start();
+            apiContext = await playwrightRequest.newContext({ baseURL });
+            // Tokens are only valid on the server that issued them
+            auth = combineAuth(
+                apiKeyAuth('special-key'),
+                oauth2Auth({ tokenUrl: `${baseURL}oauth/token`, clientId: 'profiles-spec', clientSecret: 'secret' })
+            );
+        });
+
+        test.afterAll(async () => {
+            await apiContext.dispose();
+            await server.stop();
+        });
+
+        /**
+         * Test: Invalid pet payloads
+         * Severity: Critical
+         *
+         * @description Verifies that pets missing required fields or with an invalid status
+         * are answered with the status the profile declares.
+         */
+        test('@validation Invalid pet payloads follow the profile', async () => {
+            const petService = new PetService(apiContext, { auth });
+
+            await test.step('Create pet without name', async () => {
+                const invalidPet = new PetBuilder().withoutField('name').buildInvalid();
+                const response = await petService.createPet(invalidPet);
+                expect(response.status()).toBe(expectedStatus.createPetWithoutName);
+            });
+
+            await test.step('Create pet without photoUrls', async () => {
+                const invalidPet = new PetBuilder().withoutField('photoUrls').buildInvalid();
+                const response = await petService.createPet(invalidPet);
+                expect(response.status()).toBe(expectedStatus.createPetWithoutPhotoUrls);
+            });
+
+            await test.step('Create pet with invalid status', async () => {
+                const invalidPet = new PetBuilder().invalidStatus().buildInvalid();
+                const response = await petService.createPet(invalidPet);
+                expect(response.status()).toBe(expectedStatus.createPetWithInvalidStatus);
+            });
+
+            await test.step('Find pets with invalid status', async () => {
+                const response = await petService.findPetsByStatus('invalid_status');
+                expect(response.status()).toBe(expectedStatus.findPetsByInvalidStatus);
+            });
+        });
+
+        /**
+         * Test: Unknown resources
+         * Severity: Critical
+         *
+         * @description Verifies that updates and deletes of unknown pets and users
+         * are answered with the status the profile declares.
+         */
+        test('@validation Unknown resources follow the profile', async () => {
+            const petService = new PetService(apiContext, { auth });
+            const userService = new UserService(apiContext, { auth });
+
+            await test.step('Update non-existent pet', async () => {
+                const response = await petService.updatePet(createPetData({ id: 424242 }));
+                expect(response.status()).toBe(expectedStatus.updateNonExistentPet);
+            });
+
+            await test.step('Delete non-existent pet', async () => {
+                const response = await petService.deletePet(515151);
+                expect(response.status()).toBe(expectedStatus.deleteNonExistentPet);
+            });
+
+            await test.step('Update non-existent user', async () => {
+                const response = await userService.updateUser('ghost', { username: 'ghost' });
+                expect(response.status()).toBe(expectedStatus.updateNonExistentUser);
+            });
+        });
+
+        /**
+         * Test: Get non-existent pet
+         * Severity: Normal
+         *
+         * @description Verifies that lookups of unknown pets return 404 regardless of profile.
+         */
+        test('@validation Get non-existent pet returns 404', async () => {
+            const petService = new PetService(apiContext, { auth });
+            const response = await petService.getPet(999999999);
+            expect(response.status()).toBe(404);
+        });
+    });
+}
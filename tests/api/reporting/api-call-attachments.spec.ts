@@ -0,0 +1,99 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { PetService } from '@/api/services/pet/PetService';
+import { UserService } from '@/api/services/user/UserService';
+import { Redactor, REDACTED } from '@/api/logging';
+import { formatResponse, truncateBody } from '@/api/reporting';
+import { apiKeyAuth } from '@/api/auth';
+import { TEST_CONFIG } from '@/config';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { createUserData } from '@/fixtures/factories/user.factory';
+
+/**
+ * API Call Attachments Test Suite
+ * Verifies that service calls are attached to the report, redacted and truncated
+ *
+ * Endpoints covered:
+ * - GET /user/login - password in the query string
+ * - POST /pet/{petId}/uploadImage - multipart body
+ * - GET /pet/findByStatus - large array body
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+/**
+ * Read the text of the attachments with a given name
+ * @param name - Attachment name
+ * @returns Bodies of the attachments added so far by the running test
+ */
+function attachments(name: string): string[] {
+    return test.info().attachments
+        .filter(attachment => attachment.name === name)
+        .map(attachment => attachment.body!.toString('utf-8'));
+}
+
+test.describe('API Call Attachments @reporting', () => {
+    test.skip(!TEST_CONFIG.reporting.apiCalls.attach, 'REPORT_API_CALLS=false');
+
+    /**
+     * Test: Request and response are attached
+     * Severity: Critical
+     *
+     * @description Verifies method, URL, headers, body, status and timing are attached with secrets redacted.
+     */
+    test('@regression Each call attaches its redacted request and response', async ({ request }) => {
+        const userService = new UserService(request, { auth: apiKeyAuth('attached-key') });
+        const user = createUserData({ password: 'hunter2' });
+
+        await userService.createUser(user);
+        await userService.login(user.username!, user.password!);
+
+        const [createRequest, loginRequest] = attachments('Request');
+        expect(createRequest).toMatch(/^POST http.*\/user\n/);
+        expect(createRequest).toContain(`api_key: ${REDACTED}`);
+        expect(createRequest).toContain(`"password": "${REDACTED}"`);
+        expect(loginRequest).toContain(`password=${REDACTED}`);
+        expect(attachments('Request').join()).not.toContain('hunter2');
+        expect(attachments('Request').join()).not.toContain('attached-key');
+
+        const [createResponse] = attachments('Response');
+        expect(createResponse).toMatch(/^HTTP 200 OK \(\d+ ms\)\n/);
+        expect(createResponse).toContain('content-type: application/json');
+    });
+
+    /**
+     * Test: Multipart uploads are summarized
+     * Severity: Normal
+     *
+     * @description Verifies that an uploaded file is attached as name, type and size instead of its bytes.
+     */
+    test('@regression Multipart request attaches file metadata instead of bytes', async ({ request }) => {
+        const petService = new PetService(request);
+        const pet = createPetData();
+        await petService.createPet(pet);
+
+        await petService.uploadImage(pet.id!, 'fake-path.jpg', 'photo');
+
+        const uploadRequest = attachments('Request').find(text => text.includes('uploadImage'))!;
+        expect(uploadRequest).toContain('"additionalMetadata": "photo"');
+        expect(uploadRequest).toMatch(/"name": "fake-path.jpg",\s+"mimeType": "image\/jpeg",\s+"size": \d+/);
+    });
+
+    /**
+     * Test: Large bodies are truncated
+     * Severity: Normal
+     *
+     * @description Verifies that bodies above the limit are cut with a note giving the full size.
+     */
+    test('@regression Large bodies are truncated with a size note', async ({ request }) => {
+        const petService = new PetService(request);
+        await petService.createPet(createPetData({ status: 'available' }));
+
+        const response = await petService.findPetsByStatus('available');
+        const pretty = JSON.stringify(await response.json(), null, 2);
+        const text = await formatResponse(response, 5, { redactor: new Redactor([]), maxBodyBytes: 64 });
+
+        expect(text).toMatch(/^HTTP 200 OK \(5 ms\)\n/);
+        expect(text).toContain(`${pretty.slice(0, 64)}\n… [truncated: first 64 of ${Buffer.byteLength(pretty)} bytes shown]`);
+        expect(truncateBody('short', 64)).toBe('short');
+    });
+});
@@ -0,0 +1,159 @@
+import { execFileSync } from 'child_process';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { Redactor, REDACTED } from '@/api/logging';
+import { SentRequest, getSentRequests, renderCurl, renderHttpSnippet } from '@/api/reporting';
+import { BaseService } from '@/api/services/base/BaseService';
+import { PetService } from '@/api/services/pet/PetService';
+import { ApiTimeoutError } from '@/api/services/base/ApiTimeoutError';
+import { Pet, ServiceResponse } from '@/api/types';
+import { PET_ENDPOINTS, TEST_CONFIG, buildUrl } from '@/config';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+
+/**
+ * Request Export Test Suite
+ * Verifies that sent requests render as curl commands and .http snippets that replay the call
+ *
+ * Endpoints covered:
+ * - POST /pet - JSON body
+ * - POST /pet/{petId} - form-encoded body
+ * - POST /pet/{petId}/uploadImage - multipart body
+ * - GET /pet/findByStatus - query params, timed out
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+/**
+ * Check whether curl can be run on this machine
+ * @returns true if `curl --version` succeeds
+ */
+function hasCurl(): boolean {
+    try {
+        execFileSync('curl', ['--version'], { stdio: 'ignore' });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Pet service sending its query as request params (options.params), as custom services may
+ */
+class ParamsPetService extends BaseService {
+    /**
+     * Find pets by status
+     * @param statuses - Statuses, sent as repeated status params
+     * @returns APIResponse containing array of pets
+     */
+    async findPetsByStatus(statuses: string[]): Promise<ServiceResponse<Pet[]>> {
+        return await this.send('GET', buildUrl(PET_ENDPOINTS.BY_STATUS), {
+            params: new URLSearchParams(statuses.map(status => ['status', status]))
+        });
+    }
+}
+
+test.describe('Request Export @reporting', () => {
+    /**
+     * Test: JSON requests
+     * Severity: Critical
+     *
+     * @description Verifies the curl command of a JSON request and that running it gives the same status.
+     */
+    test('@regression JSON request renders as a curl command that replays the call', async ({ petService }) => {
+        const pet = createPetData({ name: "O'Malley" });
+        const response = await petService.createPet(pet);
+        const [sent] = petService.sentRequests;
+
+        const curl = renderCurl(sent);
+        expect(curl).toMatch(/^curl -X POST 'http[^']*\/pet' \\\n {2}-H /);
+        expect(curl).toContain(`-H 'Accept: application/json' \\\n`);
+        expect(curl).toContain(`--data-raw '${JSON.stringify(pet).replace(/'/g, `'\\''`)}'`);
+
+        test.skip(!hasCurl(), 'curl is not installed');
+        const status = execFileSync('sh', ['-c', `${curl} -s -o /dev/null -w '%{http_code}'`]).toString();
+        expect(Number(status)).toBe(response.status());
+    });
+
+    /**
+     * Test: Form and multipart requests
+     * Severity: Critical
+     *
+     * @description Verifies curl and .http rendering of updatePetWithForm and uploadImage.
+     */
+    test('@regression Form and multipart requests render as curl and .http', async ({ petService }) => {
+        const pet = createPetData();
+        await petService.createPet(pet);
+        await petService.updatePetWithForm(pet.id!, 'Rex & Co', 'sold');
+        await petService.uploadImage(pet.id!, 'fake-path.jpg', 'photo');
+        const [, form, upload] = petService.sentRequests;
+
+        expect(renderCurl(form)).toContain(`--data-urlencode 'name=Rex & Co' \\\n  --data-urlencode 'status=sold'`);
+        expect(renderHttpSnippet(form)).toMatch(/Content-Type: application\/x-www-form-urlencoded\n\nname=Rex\+%26\+Co&status=sold$/);
+
+        expect(renderCurl(upload)).toContain(`-F 'file=@fake-path.jpg;type=image/jpeg' \\\n  -F 'additionalMetadata=photo'`);
+        expect(renderHttpSnippet(upload)).toContain([
+            '--ApiTestsBoundary',
+            'Content-Disposition: form-data; name="file"; filename="fake-path.jpg"',
+            'Content-Type: image/jpeg',
+            '',
+            '< ./fake-path.jpg',
+            '--ApiTestsBoundary',
+            'Content-Disposition: form-data; name="additionalMetadata"',
+            '',
+            'photo',
+            '--ApiTestsBoundary--'
+        ].join('\n'));
+
+        expect(getSentRequests(test.info().testId)).toHaveLength(3);
+    });
+
+    /**
+     * Test: Calls without a response
+     * Severity: Critical
+     *
+     * @description Verifies that a timed-out call renders with its absolute URL and query params, so it can be reproduced.
+     */
+    test('@regression Timed-out calls render with their full URL and query params', async ({ faults, faultyRequest }) => {
+        const petService = new PetService(faultyRequest, { skipGlobalMiddlewares: true }).withTimeout(200);
+        const paramsService = new ParamsPetService(faultyRequest, { skipGlobalMiddlewares: true }).withTimeout(200);
+        faults.addRule({ method: 'POST', path: 'pet', fault: { type: 'latency', delayMs: 2000 } });
+        faults.addRule({ method: 'GET', path: 'pet/findByStatus', fault: { type: 'latency', delayMs: 2000 } });
+
+        await expect(petService.createPet(createPetData())).rejects.toBeInstanceOf(ApiTimeoutError);
+        await expect(paramsService.findPetsByStatus(['available', 'sold'])).rejects.toBeInstanceOf(ApiTimeoutError);
+        const [created] = petService.sentRequests;
+        const [found] = paramsService.sentRequests;
+
+        const baseURL = TEST_CONFIG.api.baseURL;
+        expect(renderCurl(created).split(' \\\n')[0]).toBe(`curl -X POST '${baseURL}pet'`);
+        expect(renderCurl(found).split(' \\\n')[0]).toBe(`curl '${baseURL}pet/findByStatus?status=available&status=sold'`);
+        expect(renderHttpSnippet(found)).toContain(`\nGET ${baseURL}pet/findByStatus?status=available&status=sold\n`);
+    });
+
+    /**
+     * Test: Shared exports are redacted
+     * Severity: Normal
+     *
+     * @description Verifies that a redactor masks credentials in the URL, headers and body.
+     */
+    test('@regression Rendered requests mask secrets when given a redactor', async () => {
+        const sent: SentRequest = {
+            service: 'UserService',
+            method: 'GET',
+            url: 'http://localhost/v2/user/login?username=alice&password=secret',
+            headers: { api_key: 'special-key', Accept: 'application/json' }
+        };
+        const redactor = new Redactor(['password', 'api_key']);
+
+        expect(renderCurl(sent, redactor)).toBe([
+            `curl 'http://localhost/v2/user/login?username=alice&password=${REDACTED}'`,
+            `-H 'api_key: ${REDACTED}'`,
+            `-H 'Accept: application/json'`
+        ].join(' \\\n  '));
+        expect(renderHttpSnippet(sent, redactor)).toBe([
+            `### UserService: GET http://localhost/v2/user/login?username=alice&password=${REDACTED}`,
+            `GET http://localhost/v2/user/login?username=alice&password=${REDACTED}`,
+            `api_key: ${REDACTED}`,
+            'Accept: application/json'
+        ].join('\n'));
+    });
+});
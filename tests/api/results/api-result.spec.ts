@@ -0,0 +1,75 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import { PetService } from '@/api/services/pet/PetService';
+import { UserService } from '@/api/services/user/UserService';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { generateUniqueUsername } from '@/fixtures/factories/user.factory';
+
+/**
+ * API Result Test Suite
+ * Verifies the typed ApiResult returned by ServiceResponse.result()
+ *
+ * Endpoints covered:
+ * - POST /pet - Add new pet
+ * - GET /pet/{petId} - Get pet by ID
+ * - DELETE /pet/{petId} - Delete pet
+ * - GET /user/{username} - Get user by username
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('API Result @api @results', () => {
+    /**
+     * Test: Successful call exposes a typed body
+     * Severity: Critical
+     *
+     * @description Verifies status, parsed body, headers, timing and request echo of a successful call.
+     */
+    test('@regression Successful call returns a typed body with timing and request echo', async ({ request }) => {
+        const petService = new PetService(request);
+        const pet = createPetData({ name: 'ResultPet', status: 'available' });
+
+        await test.step('Create pet and read the typed result', async () => {
+            const result = await (await petService.createPet(pet)).result();
+
+            expect(result.ok).toBeTruthy();
+            expect(result.status).toBe(200);
+            expect(result.headers['content-type']).toContain('application/json');
+            expect(result.elapsedMs).toBeGreaterThanOrEqual(0);
+            expect(result.request).toMatchObject({ method: 'POST', body: pet });
+            expect(result.request.url).toMatch(/\/pet$/);
+
+            if (!result.ok) throw new Error(`Unexpected error: ${result.error.message}`);
+            expect(result.body.name).toBe('ResultPet');
+        });
+
+        await test.step('Existing APIResponse callers keep working', async () => {
+            const response = await petService.getPet(pet.id!);
+            expect(response.status()).toBe(200);
+            expect((await response.json()).id).toBe(pet.id);
+            expect((await response.result()).body).toMatchObject({ id: pet.id, name: 'ResultPet' });
+        });
+
+        await test.step('Cleanup', async () => {
+            await petService.deletePet(pet.id!);
+        });
+    });
+
+    /**
+     * Test: Failed call exposes a typed error body
+     * Severity: Normal
+     *
+     * @description Verifies that a 404 is returned as a failure with the Petstore error message.
+     */
+    test('@regression Failed call returns a typed error body', async ({ request }) => {
+        const userService = new UserService(request);
+        const username = generateUniqueUsername('missing');
+
+        const result = await (await userService.getUserByUsername(username)).result();
+
+        expect(result.ok).toBeFalsy();
+        expect(result.status).toBe(404);
+        expect(result.body).toBeUndefined();
+        expect(result.error).toMatchObject({ code: 1, type: 'error', message: 'User not found' });
+        expect(result.request).toMatchObject({ method: 'GET', headers: { 'Accept': 'application/json' } });
+    });
+});
@@ -0,0 +1,99 @@
+import { test, expect } from '@/fixtures/api.fixtures';
+import {
+    PET_SCHEMA,
+    ORDER_SCHEMA,
+    INVENTORY_SCHEMA,
+    SchemaValidationError,
+    assertSchema,
+    validateSchema
+} from '@/api/schemas';
+import { createPetData } from '@/fixtures/factories/pet.factory';
+import { createOrderData } from '@/fixtures/factories/order.factory';
+
+/**
+ * Schema Validation Test Suite
+ * Verifies the runtime schema layer against valid and malformed payloads
+ *
+ * These tests run offline; they do not send any request.
+ */
+
+test.describe.configure({ mode: 'parallel' });
+
+test.describe('Schema Validation @schemas', () => {
+    /**
+     * Test: Valid payloads pass validation
+     * Severity: Critical
+     *
+     * @description Verifies that factory-generated Pet and Order payloads match their schemas.
+     */
+    test('@regression Valid Pet, Order and Inventory payloads pass', async () => {
+        await test.step('Validate Pet payload', async () => {
+            expect(validateSchema(createPetData(), PET_SCHEMA)).toEqual({ valid: true, issues: [] });
+        });
+
+        await test.step('Validate Order payload with offset shipDate', async () => {
+            const order = createOrderData({ shipDate: '2024-01-15T10:00:00.000+0000' });
+            expect(validateSchema(order, ORDER_SCHEMA).valid).toBeTruthy();
+        });
+
+        await test.step('Validate Inventory payload', async () => {
+            expect(validateSchema({ available: 3, sold: 1 }, INVENTORY_SCHEMA).valid).toBeTruthy();
+        });
+    });
+
+    /**
+     * Test: Mismatches are reported path by path
+     * Severity: Critical
+     *
+     * @description Verifies that every mismatch is reported with its JSON path, expectation and actual value.
+     */
+    test('@regression Invalid Pet payload reports every mismatch by path', async () => {
+        const invalidPet = {
+            id: 1.5,
+            photoUrls: 'not-an-array',
+            status: 'invalid_status',
+            tags: [{ id: 1, name: 'friendly' }, { id: 2 }]
+        };
+
+        const { valid, issues } = validateSchema(invalidPet, PET_SCHEMA);
+
+        expect(valid).toBeFalsy();
+        expect(issues).toEqual([
+            { path: '$.name', expected: 'required property', actual: 'missing' },
+            { path: '$.id', expected: 'integer (int64)', actual: 'number 1.5' },
+            { path: '$.photoUrls', expected: 'array', actual: 'string "not-an-array"' },
+            { path: '$.status', expected: 'one of ["available","pending","sold"]', actual: 'string "invalid_status"' },
+            { path: '$.tags[1].name', expected: 'required property', actual: 'missing' }
+        ]);
+    });
+
+    /**
+     * Test: Formats and enums on Order
+     * Severity: Normal
+     *
+     * @description Verifies int32 bounds, ISO date-time and OrderStatus enum checks.
+     */
+    test('@regression Invalid Order formats are rejected', async () => {
+        const invalidOrder = {
+            quantity: 2 ** 40,
+            shipDate: '15/01/2024',
+            status: 'shipped'
+        };
+
+        const paths = validateSchema(invalidOrder, ORDER_SCHEMA).issues.map(issue => issue.path);
+        expect(paths).toEqual(['$.quantity', '$.shipDate', '$.status']);
+    });
+
+    /**
+     * Test: assertSchema throws a readable error
+     * Severity: Normal
+     *
+     * @description Verifies that assertSchema throws SchemaValidationError with a path-by-path message.
+     */
+    test('@regression assertSchema throws SchemaValidationError with diff', async () => {
+        expect(() => assertSchema({ name: 'NoPhotos', status: 'available' }, PET_SCHEMA))
+            .toThrow(SchemaValidationError);
+        expect(() => assertSchema({ name: 'NoPhotos', status: 'available' }, PET_SCHEMA))
+            .toThrow('Response body does not match schema "Pet":\n  $.photoUrls: expected required property, got missing');
+    });
+});
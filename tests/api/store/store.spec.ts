@@ -1,7 +1,10 @@
-import { test, expect } from '@playwright/test';
-import { StoreService } from '@/api/services/store/StoreService';
-import { Order, Inventory } from '@/api/types';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { Int64, Order, Inventory } from '@/api/types';
 import { createOrderData, createOrderWithStatus } from '@/fixtures/factories/order.factory';
+import { OrderBuilder } from '@/fixtures/builders';
+import { markKnownBug } from '@/helpers/knownBug.helper';
+import { parseJsonResponse } from '@/helpers/api.helper';
+import { INVENTORY_SCHEMA, ORDER_SCHEMA } from '@/api/schemas';
 
 /**
  * Store API Test Suite
@@ -30,9 +33,7 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
      * 3. Verify response time is under 2 seconds.
      * 4. Verify the response body is a defined object.
      */
-    test('@smoke @regression @performance Get store inventory successfully', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@smoke @regression @performance Get store inventory successfully', async ({ storeService }) => {
         await test.step('Retrieve store inventory', async () => {
             const startTime = Date.now();
             const response = await storeService.getInventory();
@@ -43,7 +44,7 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
             // Performance Assertion: Response should be under 2s
             expect(duration).toBeLessThan(2000);
 
-            const inventory: Inventory = await response.json();
+            const inventory: Inventory = await parseJsonResponse(response, INVENTORY_SCHEMA);
 
             // Verify inventory is an object (key-value pairs)
             expect(typeof inventory).toBe('object');
@@ -65,9 +66,8 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
      * 4. Verify returned order data matches input.
      * 5. Cleanup: Delete the created order.
      */
-    test('@smoke @regression Place order successfully with all fields', async ({ request }) => {
-        const storeService = new StoreService(request);
-        let orderId: number;
+    test('@smoke @regression Place order successfully with all fields', async ({ storeService }) => {
+        let orderId: Int64;
 
         await test.step('Create order with complete data', async () => {
             const orderData = createOrderData({
@@ -80,7 +80,7 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
             const response = await storeService.placeOrder(orderData);
             expect(response.status()).toBe(200);
 
-            const createdOrder: Order = await response.json();
+            const createdOrder = await parseJsonResponse(response, ORDER_SCHEMA);
             expect(createdOrder.id).toBeDefined();
             expect(createdOrder.petId).toBe(123);
             expect(createdOrder.quantity).toBe(2);
@@ -108,9 +108,8 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
      * 3. Verify response status is 200.
      * 4. Cleanup: Delete the created order.
      */
-    test('@regression Place order with minimal required fields', async ({ request }) => {
-        const storeService = new StoreService(request);
-        let orderId: number;
+    test('@regression Place order with minimal required fields', async ({ storeService }) => {
+        let orderId: Int64;
 
         await test.step('Create order with minimal data', async () => {
             const minimalOrder: Order = {
@@ -139,7 +138,7 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
      * Severity: Critical
      * 
      * @description Verifies that a placed order can be retrieved by its ID.
-     * Note: Includes a check for a known consistency timing issue.
+     * Note: Known bug PETSTORE-002 (read-after-write consistency); expected to fail where active.
      * 
      * Steps:
      * 1. Create a new order.
@@ -148,9 +147,9 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
      * 4. Verify retrieved data matches created order.
      * 5. Cleanup: Delete the order.
      */
-    test('@smoke @regression Get order by ID successfully', async ({ request }) => {
-        const storeService = new StoreService(request);
-        let orderId: number;
+    test('@smoke @regression Get order by ID successfully', async ({ storeService }) => {
+        await markKnownBug('ORDER_NOT_READABLE_AFTER_CREATE');
+        let orderId: Int64;
 
         await test.step('Create order first', async () => {
             const orderData = createOrderData({ petId: 456, quantity: 3 });
@@ -162,11 +161,8 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
         await test.step('Retrieve order by ID', async () => {
             const response = await storeService.getOrderById(orderId);
 
-            // NOTE: This test WILL FAIL due to Petstore API timing/consistency issue
             // Expected: 200 (OK) - order was just created successfully
-            // Actual: 404 (Not Found) - order not immediately available
-            // This is a KNOWN API BUG (timing/consistency issue), not a test issue
-            // Value: Documents API behavior for bug reporting
+            // Known bug PETSTORE-002: public API returns 404 (Not Found) until the order propagates
             expect(response.status()).toBe(200);
 
             const retrievedOrder: Order = await response.json();
@@ -194,9 +190,8 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
      * 3. Verify delete response status is 200.
      * 4. Attempt to retrieve the order again and verify 404 response.
      */
-    test('@smoke @regression Delete order successfully', async ({ request }) => {
-        const storeService = new StoreService(request);
-        let orderId: number;
+    test('@smoke @regression Delete order successfully', async ({ storeService }) => {
+        let orderId: Int64;
 
         await test.step('Create order first', async () => {
             const orderData = createOrderData();
@@ -230,9 +225,8 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
      * 3. Create an order with 'delivered' status and verify.
      * 4. Cleanup: Delete all created orders.
      */
-    test('@regression Order with different statuses - placed, approved, delivered', async ({ request }) => {
-        const storeService = new StoreService(request);
-        const orderIds: number[] = [];
+    test('@regression Order with different statuses - placed, approved, delivered', async ({ storeService }) => {
+        const orderIds: Int64[] = [];
 
         await test.step('Create order with placed status', async () => {
             const placedOrder = createOrderWithStatus('placed');
@@ -285,9 +279,8 @@ test.describe('Store API - Positive Test Cases @api @critical', () => {
      * 2. Verify each order creation is successful (Status 200).
      * 3. Cleanup: Delete all created orders.
      */
-    test('@regression Place multiple orders successfully', async ({ request }) => {
-        const storeService = new StoreService(request);
-        const orderIds: number[] = [];
+    test('@regression Place multiple orders successfully', async ({ storeService }) => {
+        const orderIds: Int64[] = [];
         const orderCount = 3;
 
         await test.step('Create multiple orders', async () => {
@@ -329,9 +322,7 @@ test.describe('Store API - Negative Test Cases', () => {
      * 
      * @description Verifies that requesting a non-existent order ID returns a 404 response.
      */
-    test('@smoke @validation Get non-existent order returns 404', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@smoke @validation Get non-existent order returns 404', async ({ storeService }) => {
         await test.step('Attempt to get order with non-existent ID', async () => {
             const nonExistentOrderId = 999999999;
             const response = await storeService.getOrderById(nonExistentOrderId);
@@ -347,9 +338,7 @@ test.describe('Store API - Negative Test Cases', () => {
      * 
      * @description Verifies that attempting to delete a non-existent order ID returns a 404 response.
      */
-    test('@validation Delete non-existent order returns 404', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@validation Delete non-existent order returns 404', async ({ storeService }) => {
         await test.step('Attempt to delete order that does not exist', async () => {
             const nonExistentOrderId = 999999999;
             const response = await storeService.deleteOrder(nonExistentOrderId);
@@ -366,9 +355,7 @@ test.describe('Store API - Negative Test Cases', () => {
      * @description Verifies API behavior when requesting an order ID less than 1.
      * Note: Per API docs, valid order IDs are 1-10.
      */
-    test('@validation Get order with ID less than 1 returns error', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@validation Get order with ID less than 1 returns error', async ({ storeService }) => {
         await test.step('Attempt to get order with ID = 0', async () => {
             const response = await storeService.getOrderById(0);
 
@@ -385,9 +372,7 @@ test.describe('Store API - Negative Test Cases', () => {
      * @description Verifies API behavior when requesting an order ID greater than 10.
      * Note: Petstore API does not enforce the 1-10 range restriction and may return 200 for valid orders.
      */
-    test('@validation Get order with ID greater than 10 returns error', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@validation Get order with ID greater than 10 returns error', async ({ storeService }) => {
         await test.step('Attempt to get order with ID = 11', async () => {
             const response = await storeService.getOrderById(11);
 
@@ -404,9 +389,7 @@ test.describe('Store API - Negative Test Cases', () => {
      * 
      * @description Verifies API behavior when attempting to delete an order with a negative ID.
      */
-    test('@validation Delete order with negative ID returns error', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@validation Delete order with negative ID returns error', async ({ storeService }) => {
         await test.step('Attempt to delete order with negative ID', async () => {
             const response = await storeService.deleteOrder(-1);
 
@@ -422,9 +405,7 @@ test.describe('Store API - Negative Test Cases', () => {
      * 
      * @description Verifies whether the API allows an order with 0 quantity.
      */
-    test('@edge-case Place order with zero quantity', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@edge-case Place order with zero quantity', async ({ storeService }) => {
         await test.step('Create order with quantity = 0', async () => {
             const orderData: Order = {
                 petId: 1,
@@ -451,9 +432,7 @@ test.describe('Store API - Negative Test Cases', () => {
      * 
      * @description Verifies whether the API handles negative quantity values in an order.
      */
-    test('@edge-case Place order with negative quantity', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@edge-case Place order with negative quantity', async ({ storeService }) => {
         await test.step('Attempt to create order with negative quantity', async () => {
             const orderData: Order = {
                 petId: 1,
@@ -479,9 +458,7 @@ test.describe('Store API - Negative Test Cases', () => {
      * 
      * @description Verifies API behavior when an extremely large quantity is requested.
      */
-    test('@edge-case Place order with extremely large quantity', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@edge-case Place order with extremely large quantity', async ({ storeService }) => {
         await test.step('Create order with large quantity', async () => {
             const orderData: Order = {
                 petId: 1,
@@ -507,15 +484,10 @@ test.describe('Store API - Negative Test Cases', () => {
      * 
      * @description Verifies API behavior when an order is replaced with an invalid status string.
      */
-    test('@validation Place order with invalid status value', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@validation Place order with invalid status value', async ({ storeService }) => {
         await test.step('Attempt to create order with invalid status', async () => {
-            const orderData: any = {
-                petId: 1,
-                quantity: 1,
-                status: 'invalid_status' // Invalid (valid: placed, approved, delivered)
-            };
+            // Invalid (valid: placed, approved, delivered)
+            const orderData = new OrderBuilder().invalidStatus('invalid_status').buildInvalid();
 
             const response = await storeService.placeOrder(orderData);
 
@@ -535,15 +507,10 @@ test.describe('Store API - Negative Test Cases', () => {
      * 
      * @description Verifies API behavior when attempting to place an order without the required 'petId' field.
      */
-    test('@validation Place order without petId', async ({ request }) => {
-        const storeService = new StoreService(request);
-
+    test('@validation Place order without petId', async ({ storeService }) => {
         await test.step('Attempt to create order without petId', async () => {
-            const orderData: any = {
-                quantity: 1,
-                status: 'placed'
-                // Missing petId
-            };
+            // petId is optional in the spec, so the payload is still a valid Order
+            const orderData: Order = new OrderBuilder().withoutField('petId').build();
 
             const response = await storeService.placeOrder(orderData);
 
@@ -0,0 +1,164 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { request as playwrightRequest, APIRequestContext } from '@playwright/test';
+import { test, expect } from '@/fixtures/api.fixtures';
+import { StoreService } from '@/api/services/store/StoreService';
+import { PetService } from '@/api/services/pet/PetService';
+import { UserService } from '@/api/services/user/UserService';
+import { ApiTimeoutError } from '@/api/services/base/ApiTimeoutError';
+import { ApiMiddleware, retryMiddleware } from '@/api/middleware';
+import { TEST_CONFIG, PET_ENDPOINTS, STORE_ENDPOINTS } from '@/config';
+
+/**
+ * Request Timeout Test Suite
+ * Verifies timeout precedence (instance > endpoint > TEST_CONFIG) and the error raised when a request hangs
+ *
+ * These tests do not depend on API_BASE_URL.
+ */
+
+test.describe.configure({ mode: 'serial' });
+
+/**
+ * Local server answering every request with 200 after a configurable delay
+ */
+class SlowServer {
+    hits = 0;
+    delayMs = 0;
+    private readonly server = http.createServer((req, res) => {
+        this.hits++;
+        req.resume();
+        setTimeout(() => {
+            if (res.destroyed) return;
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ code: 200, type: 'unknown', message: 'slow' }));
+        }, this.delayMs);
+    });
+
+    async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v2/`;
+    }
+
+    async stop(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+}
+
+/**
+ * Middleware recording the timeout each request is sent with
+ */
+function recordTimeouts(timeouts: (number | undefined)[]): ApiMiddleware {
+    return {
+        name: 'record-timeouts',
+        handle: async (request, next) => {
+            timeouts.push(request.options.timeout);
+            return next(request);
+        }
+    };
+}
+
+test.describe('Request Timeouts @timeouts', () => {
+    const server = new SlowServer();
+    let apiContext: APIRequestContext;
+
+    test.beforeAll(async () => {
+        apiContext = await playwrightRequest.newContext({ baseURL: await server.start() });
+    });
+
+    test.beforeEach(() => {
+        server.hits = 0;
+        server.delayMs = 0;
+    });
+
+    test.afterAll(async () => {
+        await apiContext.dispose();
+        await server.stop();
+    });
+
+    /**
+     * Test: Timeout precedence
+     * Severity: Critical
+     *
+     * @description Verifies the default, the uploadImage and getInventory overrides, and a per-instance override.
+     */
+    test('@regression Instance timeout overrides endpoint timeout, which overrides the default', async () => {
+        const timeouts: (number | undefined)[] = [];
+        const options = { skipGlobalMiddlewares: true, middlewares: [recordTimeouts(timeouts)] };
+        const storeService = new StoreService(apiContext, options);
+        const petService = new PetService(apiContext, options);
+
+        await storeService.getOrderById(1);
+        await storeService.getInventory();
+        await petService.uploadImage(1, 'fake-path.jpg');
+        expect(timeouts).toEqual([
+            TEST_CONFIG.api.timeout,
+            STORE_ENDPOINTS.INVENTORY.timeoutMs,
+            PET_ENDPOINTS.UPLOAD_IMAGE.timeoutMs
+        ]);
+        expect(PET_ENDPOINTS.UPLOAD_IMAGE.timeoutMs).toBeGreaterThan(STORE_ENDPOINTS.INVENTORY.timeoutMs!);
+
+        timeouts.length = 0;
+        await storeService.withTimeout(1234).getInventory();
+        await petService.withTimeout(1234).uploadImage(1, 'fake-path.jpg');
+        await storeService.getInventory();
+        expect(timeouts).toEqual([1234, 1234, STORE_ENDPOINTS.INVENTORY.timeoutMs]);
+    });
+
+    /**
+     * Test: Hung requests raise ApiTimeoutError
+     * Severity: Critical
+     *
+     * @description Verifies that the error reports method, URL, elapsed time and timeout.
+     */
+    test('@regression Hung request fails with ApiTimeoutError reporting method, URL and elapsed time', async () => {
+        const storeService = new StoreService(apiContext, { skipGlobalMiddlewares: true });
+        server.delayMs = 2000;
+
+        const error = await storeService.withTimeout(200).getInventory().catch(caught => caught);
+
+        expect(error).toBeInstanceOf(ApiTimeoutError);
+        const timeoutError = error as ApiTimeoutError;
+        expect(timeoutError.method).toBe('GET');
+        expect(timeoutError.url).toBe('store/inventory');
+        expect(timeoutError.timeoutMs).toBe(200);
+        expect(timeoutError.elapsedMs).toBeGreaterThanOrEqual(190);
+        expect(timeoutError.elapsedMs).toBeLessThan(2000);
+        expect(timeoutError.message).toMatch(/^GET store\/inventory timed out after \d+ms \(timeout 200ms\)$/);
+    });
+
+    /**
+     * Test: Timeout errors are redacted
+     * Severity: Critical
+     *
+     * @description Verifies that a hung login reports its URL without the password.
+     */
+    test('@regression Timed out login does not leak the password', async () => {
+        const userService = new UserService(apiContext, { skipGlobalMiddlewares: true, timeoutMs: 200 });
+        server.delayMs = 2000;
+
+        const error = await userService.login('alice', 'Hunter2@Secret').catch(caught => caught);
+
+        expect(error).toBeInstanceOf(ApiTimeoutError);
+        expect((error as ApiTimeoutError).message).toMatch(/^GET user\/login\?username=alice&password=\[REDACTED\] timed out/);
+        expect((error as ApiTimeoutError).url).not.toContain('Hunter2@Secret');
+    });
+
+    /**
+     * Test: Timeouts are not retried
+     * Severity: Normal
+     *
+     * @description Verifies that the retry middleware reports a hung GET instead of replaying it.
+     */
+    test('@regression Timed out GET is not retried', async () => {
+        const storeService = new StoreService(apiContext, {
+            skipGlobalMiddlewares: true,
+            middlewares: [retryMiddleware({ retries: 2, baseDelayMs: 1, maxDelayMs: 5 })],
+            timeoutMs: 200
+        });
+        server.delayMs = 2000;
+
+        await expect(storeService.getInventory()).rejects.toBeInstanceOf(ApiTimeoutError);
+        expect(server.hits).toBe(1);
+    });
+});
@@ -1,11 +1,15 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '@/fixtures/api.fixtures';
 import { UserService } from '@/api/services/user/UserService';
+import { SESSION_TOKEN_HEADER, UserSession } from '@/api/services/user/UserSession';
 import { User, LoginResponse } from '@/api/types';
 import {
     createUserData,
     createMultipleUsers,
     createUserWithCredentials
 } from '@/fixtures/factories/user.factory';
+import { getActiveBehaviorProfile } from '@/config';
+import { parseJsonResponse } from '@/helpers/api.helper';
+import { LOGIN_RESPONSE_SCHEMA } from '@/api/schemas';
 
 /**
  * User API Test Suite
@@ -160,7 +164,7 @@ test.describe('User API - Positive Test Cases @api @critical', () => {
             const response = await userService.login(username, password);
             expect(response.status()).toBe(200);
 
-            const loginResponse: LoginResponse = await response.json();
+            const loginResponse: LoginResponse = await parseJsonResponse(response, LOGIN_RESPONSE_SCHEMA);
             expect(loginResponse.code).toBeDefined();
             expect(loginResponse.message).toBeDefined();
         });
@@ -176,6 +180,82 @@ test.describe('User API - Positive Test Cases @api @critical', () => {
         });
     });
 
+    /**
+     * Test: Concurrent sessions for different users
+     * Feature: Authentication
+     * Severity: Critical
+     *
+     * @description Verifies that login opens a session per user, that each session carries its own
+     * token, and that logging out one user leaves the other session usable.
+     *
+     * Steps:
+     * 1. Create two users and log both in.
+     * 2. Verify each session parsed its token, rate limit and expiry.
+     * 3. Send a request for each user and verify the session token it carried.
+     * 4. Log out the first user and verify only that session is invalidated.
+     * 5. Cleanup: Delete the test users.
+     */
+    test('@regression Concurrent sessions for different users', async ({ request }) => {
+        const userService = new UserService(request);
+        const suffix = Date.now();
+        const credentials = [
+            { username: `session_a_${suffix}`, password: 'PassA@123' },
+            { username: `session_b_${suffix}`, password: 'PassB@123' }
+        ];
+        const sessions: UserSession[] = [];
+
+        await test.step('Create users and log both in', async () => {
+            for (const { username, password } of credentials) {
+                await userService.createUser(createUserWithCredentials(username, password));
+                const response = await userService.login(username, password);
+                expect(response.status()).toBe(200);
+                expect(response.session).toBeDefined();
+                sessions.push(response.session!);
+            }
+        });
+
+        const [first, second] = sessions;
+
+        await test.step('Sessions carry their own token and limits', async () => {
+            expect(first.username).toBe(credentials[0].username);
+            expect(first.token).not.toBe(second.token);
+            for (const session of sessions) {
+                expect(session.active).toBeTruthy();
+                expect(session.rateLimit).toBeGreaterThan(0);
+                expect(session.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+            }
+        });
+
+        await test.step('Requests for each user send that user\'s session token', async () => {
+            for (const session of sessions) {
+                const result = await (await userService.asUser(session).getUserByUsername(session.username)).result();
+                expect(result.status).toBe(200);
+                expect(result.request.headers[SESSION_TOKEN_HEADER]).toBe(session.token);
+            }
+        });
+
+        await test.step('Logout invalidates only the first session', async () => {
+            const firstUserService = userService.asUser(first);
+            expect((await firstUserService.logout()).status()).toBe(200);
+
+            expect(first.active).toBeFalsy();
+            expect(second.active).toBeTruthy();
+            await expect(firstUserService.getUserByUsername(first.username)).rejects.toThrow(/logged out/);
+            const error = await firstUserService.login(first.username, credentials[0].password).then(() => undefined, (caught: Error) => caught);
+            expect(error?.message).toContain('password=[REDACTED]');
+            expect(error?.message).not.toContain(credentials[0].password);
+            expect((await userService.asUser(second).getUserByUsername(second.username)).status()).toBe(200);
+        });
+
+        // Cleanup
+        await test.step('Cleanup - Delete test users', async () => {
+            await userService.logout(second);
+            for (const { username } of credentials) {
+                await userService.deleteUser(username);
+            }
+        });
+    });
+
     /**
      * Test: Update user with partial data
      * Feature: User Update
@@ -277,6 +357,8 @@ test.describe('User API - Positive Test Cases @api @critical', () => {
  * Testing error handling, validation, and edge cases
  */
 test.describe('User API - Negative Test Cases', () => {
+    const { expectedStatus } = getActiveBehaviorProfile();
+
     /**
      * Test: Get non-existent user
      * Feature: Error Handling
@@ -319,7 +401,7 @@ test.describe('User API - Negative Test Cases', () => {
      * Severity: Normal
      * 
      * @description Verifies that attempting to update a non-existent user returns a 404 error.
-     * Note: Current API implementation incorrectly returns 200.
+     * Note: The public Petstore incorrectly returns 200; the expected status comes from the active behavior profile.
      */
     test('@validation Update non-existent user returns 404', async ({ request }) => {
         const userService = new UserService(request);
@@ -332,8 +414,11 @@ test.describe('User API - Negative Test Cases', () => {
             };
 
             const response = await userService.updateUser(nonExistentUsername, userData);
-            // NOTE: Petstore API returns 200 even for non-existent users
-            expect(response.status()).toBe(200);
+            // NOTE: Public Petstore returns 200 even for non-existent users; spec-strict targets return 404
+            expect(response.status()).toBe(expectedStatus.updateNonExistentUser);
+
+            // Cleanup the user created by upserting targets
+            if (response.status() === 200) await userService.deleteUser(nonExistentUsername);
         });
     });
 
@@ -414,24 +499,40 @@ test.describe('User API - Negative Test Cases', () => {
      * Feature: Edge Cases
      * Severity: Minor
      * 
-     * @description Verifies API handling of special characters in the username.
+     * @description Verifies that a username with reserved URL characters reaches the API unchanged
+     * in the path (GET/DELETE /user/{username}) and in the login query string.
      */
     test('@edge-case Create user with special characters in username', async ({ request }) => {
         const userService = new UserService(request);
+        const specialUsername = `user @#$&?_${Date.now()}`;
+        const password = 'p&ss=word #1';
 
         await test.step('Create user with special characters', async () => {
-            const specialUsername = 'user-@#$_' + Date.now();
-            const userData: User = {
-                username: specialUsername,
-                email: 'special@example.com'
-            };
+            const response = await userService.createUser(createUserData({ username: specialUsername, password }));
+            expect(response.status()).toBe(200);
+        });
 
-            const response = await userService.createUser(userData);
+        await test.step('Get user by the special username', async () => {
+            const response = await userService.getUserByUsername(specialUsername);
+            expect(response.status()).toBe(200);
 
-            if (response.status() === 200) {
-                // Cleanup
-                await userService.deleteUser(specialUsername);
-            }
+            const user: User = await response.json();
+            expect(user.username).toBe(specialUsername);
+        });
+
+        await test.step('Login with the special username and password', async () => {
+            const response = await userService.login(specialUsername, password);
+            expect(response.status()).toBe(200);
+
+            const query = new URL(response.url()).searchParams;
+            expect(query.get('username')).toBe(specialUsername);
+            expect(query.get('password')).toBe(password);
+        });
+
+        // Cleanup
+        await test.step('Cleanup - Delete user', async () => {
+            const response = await userService.deleteUser(specialUsername);
+            expect(response.status()).toBe(200);
         });
     });
 